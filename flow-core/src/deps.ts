@@ -3,13 +3,17 @@ export { describe, it } from "https://deno.land/std@0.224.0/testing/bdd.ts";
 export {
   assertEquals,
   assertNotStrictEquals,
+  assertRejects,
   assertThrows,
 } from 'https://deno.land/std@0.224.0/assert/mod.ts';
 export {
   basename,
   dirname,
+  fromFileUrl,
   join,
+  relative,
   resolve,
+  toFileUrl,
 } from 'https://deno.land/std@0.224.0/path/mod.ts';
 export { existsSync } from 'https://deno.land/std@0.224.0/fs/mod.ts';
 export { ensureDir } from 'https://deno.land/std@0.224.0/fs/ensure_dir.ts';
@@ -23,6 +27,14 @@ export const jsonld = jsonldDefault;
 
 export { Engine } from 'npm:quadstore-comunica';
 
+// N3 for Turtle, TriG, N-Triples and N-Quads parsing and serialization
+// @deno-types="npm:@types/n3@^1.16.4"
+export { Parser as N3Parser, Writer as N3Writer } from 'npm:n3@^1.17.0';
+
+// SPARQL.js for inspecting SPARQL updates and rewriting the dataset of queries
+// @deno-types="npm:@types/sparqljs@^3"
+export { Generator as SparqlGenerator, Parser as SparqlParser } from 'npm:sparqljs@^3';
+
 
 
 // exported types
@@ -34,6 +46,12 @@ export type {
   ContextDefinition,
 } from "npm:@types/jsonld";
 
+export type {
+  Quads as SparqlQuads,
+  Update as SparqlUpdate,
+  UpdateOperation as SparqlUpdateOperation,
+} from 'npm:@types/sparqljs@^3';
+
 //RDF: Quad, NamedNode, Literal, Term, Stream, DefaultGraph, etc
 export type * as RDF from 'npm:@rdfjs/types';
 
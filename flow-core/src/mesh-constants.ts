@@ -31,6 +31,15 @@ export const MESH = {
   HANDLE_DIR: '_handle',
   ASSETS_DIR: '_assets',
 
+  // Generated datasets
+  UNIFIED: 'unified',
+  AGGREGATED: 'aggregated',
+  UNIFIED_DATASET_DIR: '_unified-dataset',
+  AGGREGATED_DATASET_DIR: '_aggregated-dataset',
+
+  // Left in the handle of a node that was moved away
+  TOMBSTONE_FILE: 'tombstone.jsonld',
+
   README_FILE: 'README.md',
   CHANGELOG_FILE: 'CHANGELOG.md',
 
@@ -38,6 +47,9 @@ export const MESH = {
 
   API_IDENTIFIER_PATH_SEPARATOR: '~',
   API_PORTAL_ROUTE: '/api-docs',
+  SPARQL_ROUTE: '/sparql',
+  SPARQL_UPDATE_ROUTE: '/sparql/update',
+  QUERY_WIDGET_ROUTE: '/query',
 
   // Ontology namespaces
   MESH_ONTOLOGY: 'https://semantic-flow.github.io/ontology/mesh/',
@@ -48,3 +60,22 @@ export const MESH = {
   FLOW_SERVICE_ONTOLOGY:
     'https://semantic-flow.github.io/ontology/flow-service/',
 } as const;
+
+// Node types, each recorded in the node's meta as `node:<type>Node`
+export const NODE_TYPES = ['Namespace', 'Reference', 'Dataset'] as const;
+
+export type NodeType = typeof NODE_TYPES[number];
+
+// Distribution formats: media type -> file extension
+export const DISTRIBUTION_FORMAT_EXTENSIONS = {
+  'application/ld+json': 'jsonld',
+  'application/trig': 'trig',
+  'application/n-quads': 'nq',
+  'text/turtle': 'ttl',
+} as const;
+
+export type DistributionMediaType = keyof typeof DISTRIBUTION_FORMAT_EXTENSIONS;
+
+// Snapshots are authored as JSON-LD; the other formats are generated from it
+export const CANONICAL_DISTRIBUTION_FORMAT: DistributionMediaType =
+  'application/ld+json';
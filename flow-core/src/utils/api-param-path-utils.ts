@@ -1 +1,55 @@
 // Utility functions for pseudo-path handling (using ~ instead of /) for API parameters
+
+import { MESH } from '../mesh-constants.ts';
+
+/**
+ * Checks that an API node path uses only QName-like characters (letters, digits,
+ * underscore, hyphen, dot) separated by the API path separator. The relative path segments
+ * '.' and '..' are refused, so a node path cannot leave its mesh.
+ *
+ * @param apiNodePath - The API node path, e.g. "test-ns~djradon~underbrush"
+ * @returns `true` if the path is well-formed
+ */
+export function isValidApiNodePath(apiNodePath: string): boolean {
+  const qnameRegex = new RegExp(
+    `^[\\w.-]+(${MESH.API_IDENTIFIER_PATH_SEPARATOR}[\\w.-]+)*$`,
+  );
+  return qnameRegex.test(apiNodePath) &&
+    apiNodePath.split(MESH.API_IDENTIFIER_PATH_SEPARATOR).every((segment) =>
+      segment !== '.' && segment !== '..'
+    );
+}
+
+/**
+ * Splits an API node path into its segments, ignoring empty segments.
+ *
+ * @param apiNodePath - The API node path, e.g. "djradon~underbrush"
+ * @returns The path segments, e.g. ["djradon", "underbrush"]
+ */
+export function parseApiNodePath(apiNodePath: string): string[] {
+  return apiNodePath.split(MESH.API_IDENTIFIER_PATH_SEPARATOR).filter((
+    segment,
+  ) => segment);
+}
+
+/**
+ * Converts an API node path into a relative file system path.
+ *
+ * @param apiNodePath - The API node path, e.g. "djradon~underbrush"
+ * @returns The relative file system path, e.g. "djradon/underbrush"
+ */
+export function apiNodePathToFileSystemPath(apiNodePath: string): string {
+  return parseApiNodePath(apiNodePath).join('/');
+}
+
+/**
+ * Converts a relative file system path into an API node path.
+ *
+ * @param fileSystemPath - The relative file system path, e.g. "djradon/underbrush"
+ * @returns The API node path, e.g. "djradon~underbrush"
+ */
+export function fileSystemPathToApiNodePath(fileSystemPath: string): string {
+  return fileSystemPath.split('/').filter((segment) => segment).join(
+    MESH.API_IDENTIFIER_PATH_SEPARATOR,
+  );
+}
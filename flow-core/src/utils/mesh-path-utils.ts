@@ -2,10 +2,36 @@
  * Utility functions for mesh path operations
  */
 
-import { MESH } from '../mesh-constants.ts';
+import {
+  CANONICAL_DISTRIBUTION_FORMAT,
+  DISTRIBUTION_FORMAT_EXTENSIONS,
+  type DistributionMediaType,
+  MESH,
+} from '../mesh-constants.ts';
 import { getLastPathSegment } from './path-utils.ts';
 
 // Usage throughout codebase
+// Dist path helpers take an optional media type and default to the canonical JSON-LD distribution
+
+export function getDistributionExtension(
+  mediaType: DistributionMediaType,
+): string {
+  return DISTRIBUTION_FORMAT_EXTENSIONS[mediaType];
+}
+
+export function isDistributionMediaType(
+  mediaType: string,
+): mediaType is DistributionMediaType {
+  return Object.hasOwn(DISTRIBUTION_FORMAT_EXTENSIONS, mediaType);
+}
+
+export function getDistributionMediaType(
+  filePath: string,
+): DistributionMediaType | undefined {
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1);
+  return (Object.keys(DISTRIBUTION_FORMAT_EXTENSIONS) as DistributionMediaType[])
+    .find((mediaType) => DISTRIBUTION_FORMAT_EXTENSIONS[mediaType] === extension);
+}
 
 export function getHandlePath(nodePath: string): string {
   return `${nodePath}/${MESH.HANDLE_DIR}/`;
@@ -24,22 +50,28 @@ export function getCurrentConfigSnapshotPath(nodePath: string): string {
   return `${getConfigFlowPath(nodePath)}/${MESH.CURRENT_SNAPSHOT_DIR}/`;
 }
 
-export function getCurrentConfigDistPath(nodePath: string): string {
+export function getCurrentConfigDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getCurrentConfigSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.CONFIG}_${MESH.CURRENT}.jsonld`;
+  }${lastSegment}_${MESH.CONFIG}_${MESH.CURRENT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getNextConfigSnapshotPath(nodePath: string): string {
   return `${getConfigFlowPath(nodePath)}/${MESH.NEXT_SNAPSHOT_DIR}/`;
 }
 
-export function getNextConfigDistPath(nodePath: string): string {
+export function getNextConfigDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getNextConfigSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.CONFIG}_${MESH.NEXT}.jsonld`;
+  }${lastSegment}_${MESH.CONFIG}_${MESH.NEXT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getVersionConfigSnapshotPath(
@@ -54,11 +86,12 @@ export function getVersionConfigSnapshotPath(
 export function getVersionConfigDistPath(
   nodePath: string,
   version: number,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
 ): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getVersionConfigSnapshotPath(nodePath, version)
-  }${lastSegment}_${MESH.CONFIG}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.jsonld`;
+  }${lastSegment}_${MESH.CONFIG}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.${getDistributionExtension(mediaType)}`;
 }
 
 // meta
@@ -70,22 +103,28 @@ export function getCurrentMetaSnapshotPath(nodePath: string): string {
   return `${getMetaFlowPath(nodePath)}/${MESH.CURRENT_SNAPSHOT_DIR}/`;
 }
 
-export function getCurrentMetaDistPath(nodePath: string): string {
+export function getCurrentMetaDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getCurrentMetaSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.META}_${MESH.CURRENT}.jsonld`;
+  }${lastSegment}_${MESH.META}_${MESH.CURRENT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getNextMetaSnapshotPath(nodePath: string): string {
   return `${getMetaFlowPath(nodePath)}/${MESH.NEXT_SNAPSHOT_DIR}/`;
 }
 
-export function getNextMetaDistPath(nodePath: string): string {
+export function getNextMetaDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getNextMetaSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.META}_${MESH.NEXT}.jsonld`;
+  }${lastSegment}_${MESH.META}_${MESH.NEXT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getVersionMetaSnapshotPath(
@@ -100,11 +139,12 @@ export function getVersionMetaSnapshotPath(
 export function getVersionMetaDistPath(
   nodePath: string,
   version: number,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
 ): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getVersionMetaSnapshotPath(nodePath, version)
-  }${lastSegment}_${MESH.META}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.jsonld`;
+  }${lastSegment}_${MESH.META}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.${getDistributionExtension(mediaType)}`;
 }
 
 // REF
@@ -116,22 +156,28 @@ export function getCurrentRefSnapshotPath(nodePath: string): string {
   return `${getRefFlowPath(nodePath)}/${MESH.CURRENT_SNAPSHOT_DIR}/`;
 }
 
-export function getCurrentRefDistPath(nodePath: string): string {
+export function getCurrentRefDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getCurrentRefSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.REF}_${MESH.CURRENT}.jsonld`;
+  }${lastSegment}_${MESH.REF}_${MESH.CURRENT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getNextRefSnapshotPath(nodePath: string): string {
   return `${getRefFlowPath(nodePath)}/${MESH.NEXT_SNAPSHOT_DIR}/`;
 }
 
-export function getNextRefDistPath(nodePath: string): string {
+export function getNextRefDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getNextRefSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.REF}_${MESH.NEXT}.jsonld`;
+  }${lastSegment}_${MESH.REF}_${MESH.NEXT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getVersionRefSnapshotPath(
@@ -146,11 +192,12 @@ export function getVersionRefSnapshotPath(
 export function getVersionRefDistPath(
   nodePath: string,
   version: number,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
 ): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getVersionRefSnapshotPath(nodePath, version)
-  }${lastSegment}_${MESH.REF}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.jsonld`;
+  }${lastSegment}_${MESH.REF}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.${getDistributionExtension(mediaType)}`;
 }
 
 // data
@@ -162,22 +209,28 @@ export function getCurrentDataSnapshotPath(nodePath: string): string {
   return `${getDataFlowPath(nodePath)}/${MESH.CURRENT_SNAPSHOT_DIR}/`;
 }
 
-export function getCurrentDataDistPath(nodePath: string): string {
+export function getCurrentDataDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getCurrentDataSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.DATA}_${MESH.CURRENT}.jsonld`;
+  }${lastSegment}_${MESH.DATA}_${MESH.CURRENT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getNextDataSnapshotPath(nodePath: string): string {
   return `${getDataFlowPath(nodePath)}/${MESH.NEXT_SNAPSHOT_DIR}/`;
 }
 
-export function getNextDataDistPath(nodePath: string): string {
+export function getNextDataDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getNextDataSnapshotPath(nodePath)
-  }${lastSegment}_${MESH.DATA}_${MESH.NEXT}.jsonld`;
+  }${lastSegment}_${MESH.DATA}_${MESH.NEXT}.${getDistributionExtension(mediaType)}`;
 }
 
 export function getVersionDataSnapshotPath(
@@ -192,9 +245,136 @@ export function getVersionDataSnapshotPath(
 export function getVersionDataDistPath(
   nodePath: string,
   version: number,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
 ): string {
   const lastSegment = getLastPathSegment(nodePath);
   return `${
     getVersionDataSnapshotPath(nodePath, version)
-  }${lastSegment}_${MESH.DATA}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.jsonld`;
+  }${lastSegment}_${MESH.DATA}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.${getDistributionExtension(mediaType)}`;
+}
+
+// generic flow helpers, for code that processes every flow of a node
+
+export type FlowSlug =
+  | typeof MESH.META
+  | typeof MESH.CONFIG
+  | typeof MESH.REF
+  | typeof MESH.DATA;
+
+export const FLOW_SLUGS: readonly FlowSlug[] = [
+  MESH.META,
+  MESH.CONFIG,
+  MESH.REF,
+  MESH.DATA,
+];
+
+const FLOW_DIRS: Record<FlowSlug, string> = {
+  [MESH.META]: MESH.META_FLOW_DIR,
+  [MESH.CONFIG]: MESH.CONFIG_FLOW_DIR,
+  [MESH.REF]: MESH.REF_FLOW_DIR,
+  [MESH.DATA]: MESH.DATA_FLOW_DIR,
+};
+
+export function getFlowDir(flow: FlowSlug): string {
+  return FLOW_DIRS[flow];
+}
+
+export function getFlowPath(nodePath: string, flow: FlowSlug): string {
+  return `${nodePath}/${getFlowDir(flow)}/`;
+}
+
+export function getCurrentSnapshotPath(
+  nodePath: string,
+  flow: FlowSlug,
+): string {
+  return `${getFlowPath(nodePath, flow)}/${MESH.CURRENT_SNAPSHOT_DIR}/`;
+}
+
+export function getCurrentDistPath(
+  nodePath: string,
+  flow: FlowSlug,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
+  const lastSegment = getLastPathSegment(nodePath);
+  return `${
+    getCurrentSnapshotPath(nodePath, flow)
+  }${lastSegment}_${flow}_${MESH.CURRENT}.${getDistributionExtension(mediaType)}`;
+}
+
+export function getNextSnapshotPath(nodePath: string, flow: FlowSlug): string {
+  return `${getFlowPath(nodePath, flow)}/${MESH.NEXT_SNAPSHOT_DIR}/`;
+}
+
+export function getNextDistPath(
+  nodePath: string,
+  flow: FlowSlug,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
+  const lastSegment = getLastPathSegment(nodePath);
+  return `${
+    getNextSnapshotPath(nodePath, flow)
+  }${lastSegment}_${flow}_${MESH.NEXT}.${getDistributionExtension(mediaType)}`;
+}
+
+export function getVersionSnapshotPath(
+  nodePath: string,
+  flow: FlowSlug,
+  version: number,
+): string {
+  return `${
+    getFlowPath(nodePath, flow)
+  }/${MESH.VERSION_SNAPSHOT_PREFIX}${version}/`;
+}
+
+export function getVersionDistPath(
+  nodePath: string,
+  flow: FlowSlug,
+  version: number,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
+  const lastSegment = getLastPathSegment(nodePath);
+  return `${
+    getVersionSnapshotPath(nodePath, flow, version)
+  }${lastSegment}_${flow}_${MESH.VERSION_SNAPSHOT_PREFIX}${version}.${getDistributionExtension(mediaType)}`;
+}
+
+// unified (data + meta) and aggregated (descendant data) datasets
+export function getUnifiedDatasetPath(nodePath: string): string {
+  return `${nodePath}/${MESH.UNIFIED_DATASET_DIR}/`;
+}
+
+export function getUnifiedDatasetDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
+  const lastSegment = getLastPathSegment(nodePath);
+  return `${
+    getUnifiedDatasetPath(nodePath)
+  }${lastSegment}_${MESH.UNIFIED}.${getDistributionExtension(mediaType)}`;
+}
+
+export function getAggregatedDatasetPath(nodePath: string): string {
+  return `${nodePath}/${MESH.AGGREGATED_DATASET_DIR}/`;
+}
+
+export function getAggregatedDatasetDistPath(
+  nodePath: string,
+  mediaType: DistributionMediaType = CANONICAL_DISTRIBUTION_FORMAT,
+): string {
+  const lastSegment = getLastPathSegment(nodePath);
+  return `${
+    getAggregatedDatasetPath(nodePath)
+  }${lastSegment}_${MESH.AGGREGATED}.${getDistributionExtension(mediaType)}`;
+}
+
+/**
+ * Parses a version snapshot folder name such as "_v3".
+ *
+ * @param dirName - The snapshot folder name
+ * @returns The version number, or `undefined` if the name is not a version snapshot folder
+ */
+export function parseVersionSnapshotDir(dirName: string): number | undefined {
+  const match = new RegExp(`^${MESH.VERSION_SNAPSHOT_PREFIX}([1-9]\\d*)$`)
+    .exec(dirName);
+  return match ? Number(match[1]) : undefined;
 }
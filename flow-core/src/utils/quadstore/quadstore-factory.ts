@@ -4,10 +4,47 @@ import { QuadstoreBundle } from '../../types.ts';
 import { handleCaughtError } from '../logger/error-handlers.ts';
 
 /**
- * Creates and opens a new in-memory QuadstoreBundle.
+ * Storage backends a QuadstoreBundle can be created with:
+ * - `memory`: a MemoryLevel; graphs are lost when the process exits
+ * - `classic-level`: a LevelDB database (ClassicLevel) kept in a data directory
  */
-export async function createQuadstoreBundle(): Promise<QuadstoreBundle> {
-  const backend = new MemoryLevel();
+export const QUADSTORE_BACKENDS = ['memory', 'classic-level'] as const;
+
+export type QuadstoreBackend = typeof QUADSTORE_BACKENDS[number];
+
+export interface QuadstoreBundleOptions {
+  /** Defaults to `memory` */
+  backend?: QuadstoreBackend;
+  /** Directory of the database; required by persistent backends */
+  dataDirectory?: string;
+}
+
+export function isQuadstoreBackend(value: string): value is QuadstoreBackend {
+  return (QUADSTORE_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Creates and opens a new QuadstoreBundle, in memory unless another backend is requested.
+ *
+ * Persistent bundles keep their graphs across restarts; close them with
+ * `closeQuadstoreBundle` so the database lock is released.
+ */
+export async function createQuadstoreBundle(
+  options: QuadstoreBundleOptions = {},
+): Promise<QuadstoreBundle> {
+  const backendKind = options.backend ?? 'memory';
+  let backend;
+  if (backendKind === 'classic-level') {
+    if (!options.dataDirectory) {
+      throw new Error("The 'classic-level' quadstore backend requires a data directory");
+    }
+    await Deno.mkdir(options.dataDirectory, { recursive: true });
+    // Imported on demand: loading its native binding requires --allow-ffi
+    const { ClassicLevel } = await import('npm:classic-level@^3');
+    backend = new ClassicLevel(options.dataDirectory);
+  } else {
+    backend = new MemoryLevel();
+  }
   const df = new DataFactory();
   const store = new Quadstore({ backend, dataFactory: df });
   const engine = new Engine(store);
@@ -24,3 +61,16 @@ export async function createQuadstoreBundle(): Promise<QuadstoreBundle> {
 
   return { store, df, backend, engine };
 }
+
+/**
+ * Closes a QuadstoreBundle and its backend; persistent backends flush to disk and release
+ * their lock.
+ */
+export async function closeQuadstoreBundle(bundle: QuadstoreBundle): Promise<void> {
+  try {
+    await bundle.store.close();
+  } catch (err) {
+    await handleCaughtError(err, 'Failed to close quadstore');
+    throw new Error(`Failed to close quadstore: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
@@ -0,0 +1,234 @@
+// Utility functions for serializing RDF distributions in the supported media types
+
+import {
+  type ContextDefinition,
+  DataFactory,
+  dirname,
+  jsonld,
+  N3Writer,
+  type NodeObject,
+  relative,
+} from '../deps.ts';
+import type { RDF } from '../deps.ts';
+import type { DistributionMediaType } from '../mesh-constants.ts';
+import { jsonldToQuads } from './rdfjs-utils.ts';
+
+const df = new DataFactory();
+
+const N3_FORMATS: Record<Exclude<DistributionMediaType, 'application/ld+json'>, string> = {
+  'application/trig': 'TriG',
+  'application/n-quads': 'N-Quads',
+  'text/turtle': 'Turtle',
+};
+
+/**
+ * Serializes quads as TriG, N-Quads or Turtle.
+ * Turtle has no named graphs, so quads are merged into the default graph for Turtle output.
+ *
+ * @param quads - The quads to serialize
+ * @param mediaType - The target media type
+ * @param prefixes - Prefix declarations to use (ignored for N-Quads)
+ * @returns The serialized document
+ */
+export function serializeQuads(
+  quads: RDF.Quad[],
+  mediaType: Exclude<DistributionMediaType, 'application/ld+json'>,
+  prefixes: Record<string, string> = {},
+): Promise<string> {
+  const writer = new N3Writer({
+    format: N3_FORMATS[mediaType],
+    prefixes: mediaType === 'application/n-quads' ? {} : prefixes,
+  });
+  writer.addQuads(
+    quads.map((quad) =>
+      df.quad(
+        toTerm(quad.subject),
+        toTerm(quad.predicate),
+        toTerm(quad.object),
+        mediaType === 'text/turtle' ? df.defaultGraph() : toTerm(quad.graph),
+      )
+    ),
+  );
+  return new Promise((resolve, reject) => {
+    writer.end((error: Error | null, result: string) => {
+      if (error) reject(error);
+      else resolve(result);
+    });
+  });
+}
+
+// Quads from jsonld.js are plain objects, while N3 needs terms that implement `equals`
+function toTerm<T extends RDF.Term>(term: T): T {
+  switch (term.termType) {
+    case 'NamedNode':
+      return df.namedNode(term.value) as unknown as T;
+    case 'BlankNode':
+      return df.blankNode(term.value) as unknown as T;
+    case 'Literal':
+      return df.literal(
+        term.value,
+        term.language || df.namedNode(term.datatype.value),
+      ) as unknown as T;
+    case 'DefaultGraph':
+      return df.defaultGraph() as unknown as T;
+    default:
+      return term;
+  }
+}
+
+/**
+ * Makes IRIs that share the document's scheme and host relative to the document's folder,
+ * so that a serialized file resolves them the same way as the JSON-LD it was generated from.
+ *
+ * @param inputQuads - Quads whose IRIs were resolved against `documentUrl`
+ * @param documentUrl - Absolute URL of the document the quads will be written to
+ */
+export function relativizeIrisToDocument(
+  inputQuads: RDF.Quad[],
+  documentUrl: string,
+): RDF.Quad[] {
+  const relativize = <T extends RDF.Term>(term: T): T =>
+    term.termType === 'NamedNode'
+      ? df.namedNode(relativizeIri(term.value, documentUrl)) as unknown as T
+      : term;
+
+  return inputQuads.map((quad) =>
+    df.quad(
+      relativize(quad.subject),
+      relativize(quad.predicate),
+      relativize(quad.object),
+      relativize(quad.graph),
+    )
+  );
+}
+
+/**
+ * Makes an absolute IRI relative to the folder of a document, if both share protocol and
+ * host; other IRIs are returned unchanged.
+ *
+ * @param iri - The IRI to relativize
+ * @param documentUrl - The URL of the document the IRI will appear in
+ */
+export function relativizeIri(iri: string, documentUrl: string): string {
+  const document = new URL(documentUrl);
+  let target: URL;
+  try {
+    target = new URL(iri);
+  } catch {
+    return iri;
+  }
+  if (target.protocol !== document.protocol || target.host !== document.host) {
+    return iri;
+  }
+  let path = relative(dirname(document.pathname), target.pathname) || '.';
+  if (target.pathname.endsWith('/')) path += '/';
+  return `${path}${target.search}${target.hash}`;
+}
+
+/**
+ * Serializes quads as a distribution in the given media type, writing IRIs on the document's
+ * host relative to the document.
+ *
+ * JSON-LD output is the expanded form, with one `@graph` entry per named graph.
+ *
+ * @param quads - Quads with absolute IRIs
+ * @param mediaType - The target media type
+ * @param documentUrl - Absolute URL of the distribution file to be written
+ * @param prefixes - Prefix declarations to use where the format supports them
+ * @returns The serialized distribution
+ */
+export async function serializeQuadsAs(
+  quads: RDF.Quad[],
+  mediaType: DistributionMediaType,
+  documentUrl: string,
+  prefixes: Record<string, string> = {},
+): Promise<string> {
+  const relativeQuads = relativizeIrisToDocument(quads, documentUrl);
+  if (mediaType === 'application/ld+json') {
+    const expanded = await jsonld.fromRDF(
+      relativeQuads as unknown as Parameters<typeof jsonld.fromRDF>[0],
+    );
+    return JSON.stringify(expanded, null, 2);
+  }
+  return await serializeQuads(relativeQuads, mediaType, prefixes);
+}
+
+/**
+ * Converts quads to a JSON-LD snapshot object, writing IRIs on the document's host relative
+ * to the document. Snapshots must be JSON-LD objects, so the expanded node objects are
+ * wrapped in a top-level `@graph`, with one nested `@graph` entry per named graph.
+ * With a context, the snapshot is compacted against it instead, so terms such as `mesh:Node`
+ * read the same as in the snapshot the quads were loaded from.
+ *
+ * @param quads - Quads with absolute IRIs
+ * @param documentUrl - Absolute URL of the snapshot file to be written
+ * @param context - Optional `@context` to compact the snapshot with
+ * @returns The JSON-LD snapshot
+ */
+export async function quadsToJsonLdSnapshot(
+  quads: RDF.Quad[],
+  documentUrl: string,
+  context?: NodeObject['@context'],
+): Promise<NodeObject> {
+  const expanded = await jsonld.fromRDF(
+    relativizeIrisToDocument(quads, documentUrl) as unknown as Parameters<
+      typeof jsonld.fromRDF
+    >[0],
+  );
+  if (context === undefined) {
+    return { '@graph': expanded } as NodeObject;
+  }
+  // Without a base, the relative IRIs are kept as they are; `graph` keeps the top-level `@graph`
+  return await jsonld.compact(
+    expanded,
+    context as ContextDefinition,
+    { base: null, graph: true } as unknown as Parameters<typeof jsonld.compact>[2],
+  );
+}
+
+/**
+ * Serializes a JSON-LD snapshot as a distribution in the given media type.
+ *
+ * JSON-LD is written as-is. Other formats are generated from the JSON-LD's quads, resolving
+ * relative identifiers against `documentUrl` and writing them back as relative IRIs; string
+ * prefixes of the JSON-LD context are reused as prefix declarations.
+ *
+ * @param inputJsonLd - The JSON-LD snapshot
+ * @param mediaType - The target media type
+ * @param documentUrl - Absolute URL of the distribution file to be written
+ * @returns The serialized distribution
+ */
+export async function serializeJsonLdAs(
+  inputJsonLd: NodeObject,
+  mediaType: DistributionMediaType,
+  documentUrl: string,
+): Promise<string> {
+  if (mediaType === 'application/ld+json') {
+    return JSON.stringify(inputJsonLd, null, 2);
+  }
+  return await serializeQuadsAs(
+    await jsonldToQuads(inputJsonLd, undefined, documentUrl),
+    mediaType,
+    documentUrl,
+    getContextPrefixes(inputJsonLd),
+  );
+}
+
+/**
+ * Extracts the simple `prefix: IRI` entries of a JSON-LD object's inline context.
+ */
+export function getContextPrefixes(
+  inputJsonLd: NodeObject,
+): Record<string, string> {
+  const context = inputJsonLd['@context'];
+  if (!context || typeof context !== 'object' || Array.isArray(context)) {
+    return {};
+  }
+  const prefixes: Record<string, string> = {};
+  for (const [prefix, iri] of Object.entries(context)) {
+    if (!prefix.startsWith('@') && typeof iri === 'string' && /[/#:]$/.test(iri)) {
+      prefixes[prefix] = iri;
+    }
+  }
+  return prefixes;
+}
@@ -7,13 +7,15 @@ const df = new DataFactory();
 
 // Converts a JSON-LD object to an array of RDFJS quads using a local DataFactory instance
 // Uses jsonld.toRDF from https://github.com/digitalbazaar/jsonld.js
+// Relative identifiers are resolved against `base` when given, and dropped by jsonld otherwise
 export async function jsonldToQuads(
   inputJsonLd: NodeObject,
   graph: RDF.NamedNode | RDF.DefaultGraph = df.defaultGraph(),
+  base?: string,
 ): Promise<RDF.Quad[]> {
 
 
-  const quads = await jsonld.toRDF(inputJsonLd) as RDF.Quad[];
+  const quads = await jsonld.toRDF(inputJsonLd, base ? { base } : {}) as RDF.Quad[];
 
   // If the desired graph is the default graph, return as-is
   if (graph.termType === 'DefaultGraph') {
@@ -118,3 +120,27 @@ export function expandRelativeJsonLd(inputJsonLd: NodeObject, baseIRI: string):
   rewrite(expanded);
   return expanded;
 }
+
+
+// Builds a string key identifying a quad, for set operations over quads
+function quadKey(quad: RDF.Quad): string {
+  const termKey = (term: RDF.Term): string =>
+    term.termType === 'Literal'
+      ? `"${term.value}"@${term.language}^^${term.datatype.value}`
+      : `${term.termType}:${term.value}`;
+  return [quad.subject, quad.predicate, quad.object, quad.graph].map(termKey).join(' ');
+}
+
+// Compares two sets of quads, returning the quads only present in `after` (added) and only present in `before` (removed)
+// Blank nodes are compared by label, so differently-labelled but isomorphic graphs are reported as changed
+export function diffQuads(
+  before: RDF.Quad[],
+  after: RDF.Quad[],
+): { added: RDF.Quad[]; removed: RDF.Quad[] } {
+  const beforeKeys = new Set(before.map(quadKey));
+  const afterKeys = new Set(after.map(quadKey));
+  return {
+    added: after.filter((quad) => !beforeKeys.has(quadKey(quad))),
+    removed: before.filter((quad) => !afterKeys.has(quadKey(quad))),
+  };
+}
@@ -0,0 +1,192 @@
+// Serializers for SPARQL 1.1 query results: JSON, XML, CSV and TSV for SELECT and ASK results
+
+import type { RDF } from '../deps.ts';
+
+export const SPARQL_BINDINGS_MEDIA_TYPES = [
+  'application/sparql-results+json',
+  'application/sparql-results+xml',
+  'text/csv',
+  'text/tab-separated-values',
+] as const;
+
+export type SparqlBindingsMediaType = typeof SPARQL_BINDINGS_MEDIA_TYPES[number];
+
+// CSV and TSV have no representation for boolean results
+export const SPARQL_BOOLEAN_MEDIA_TYPES = [
+  'application/sparql-results+json',
+  'application/sparql-results+xml',
+] as const;
+
+export type SparqlBooleanMediaType = typeof SPARQL_BOOLEAN_MEDIA_TYPES[number];
+
+/** One solution of a SELECT query: variable name (without '?') -> bound term */
+export type SparqlBindingsRow = Record<string, RDF.Term>;
+
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+
+/**
+ * Serializes SELECT query results.
+ *
+ * @param variables - The projected variable names, without '?'
+ * @param rows - The solutions; unbound variables are left out of a row
+ * @param mediaType - The target media type
+ * @returns The serialized results
+ */
+export function serializeSparqlBindings(
+  variables: string[],
+  rows: SparqlBindingsRow[],
+  mediaType: SparqlBindingsMediaType,
+): string {
+  switch (mediaType) {
+    case 'application/sparql-results+json':
+      return JSON.stringify({
+        head: { vars: variables },
+        results: {
+          bindings: rows.map((row) =>
+            Object.fromEntries(
+              variables
+                .filter((variable) => row[variable])
+                .map((variable) => [variable, toJsonTerm(row[variable])]),
+            )
+          ),
+        },
+      });
+    case 'application/sparql-results+xml':
+      return [
+        XML_DECLARATION,
+        '<sparql xmlns="http://www.w3.org/2005/sparql-results#">',
+        '  <head>',
+        ...variables.map((variable) => `    <variable name="${escapeXml(variable)}"/>`),
+        '  </head>',
+        '  <results>',
+        ...rows.flatMap((row) => [
+          '    <result>',
+          ...variables
+            .filter((variable) => row[variable])
+            .map((variable) =>
+              `      <binding name="${escapeXml(variable)}">${toXmlTerm(row[variable])}</binding>`
+            ),
+          '    </result>',
+        ]),
+        '  </results>',
+        '</sparql>',
+        '',
+      ].join('\n');
+    case 'text/csv':
+      return [
+        variables.map(toCsvField),
+        ...rows.map((row) =>
+          variables.map((variable) => row[variable] ? toCsvField(toCsvTerm(row[variable])) : '')
+        ),
+      ].map((fields) => `${fields.join(',')}\r\n`).join('');
+    case 'text/tab-separated-values':
+      return [
+        variables.map((variable) => `?${variable}`),
+        ...rows.map((row) =>
+          variables.map((variable) => row[variable] ? toTsvTerm(row[variable]) : '')
+        ),
+      ].map((fields) => `${fields.join('\t')}\n`).join('');
+  }
+}
+
+/**
+ * Serializes the result of an ASK query.
+ */
+export function serializeSparqlBoolean(
+  value: boolean,
+  mediaType: SparqlBooleanMediaType,
+): string {
+  if (mediaType === 'application/sparql-results+json') {
+    return JSON.stringify({ head: {}, boolean: value });
+  }
+  return [
+    XML_DECLARATION,
+    '<sparql xmlns="http://www.w3.org/2005/sparql-results#">',
+    '  <head/>',
+    `  <boolean>${value}</boolean>`,
+    '</sparql>',
+    '',
+  ].join('\n');
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+function toJsonTerm(term: RDF.Term): Record<string, string> {
+  switch (term.termType) {
+    case 'NamedNode':
+      return { type: 'uri', value: term.value };
+    case 'BlankNode':
+      return { type: 'bnode', value: term.value };
+    case 'Literal':
+      if (term.language) {
+        return { type: 'literal', value: term.value, 'xml:lang': term.language };
+      }
+      return term.datatype.value === XSD_STRING
+        ? { type: 'literal', value: term.value }
+        : { type: 'literal', value: term.value, datatype: term.datatype.value };
+    default:
+      return { type: 'literal', value: term.value };
+  }
+}
+
+function toXmlTerm(term: RDF.Term): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<uri>${escapeXml(term.value)}</uri>`;
+    case 'BlankNode':
+      return `<bnode>${escapeXml(term.value)}</bnode>`;
+    case 'Literal':
+      if (term.language) {
+        return `<literal xml:lang="${escapeXml(term.language)}">${escapeXml(term.value)}</literal>`;
+      }
+      return term.datatype.value === XSD_STRING
+        ? `<literal>${escapeXml(term.value)}</literal>`
+        : `<literal datatype="${escapeXml(term.datatype.value)}">${escapeXml(term.value)}</literal>`;
+    default:
+      return `<literal>${escapeXml(term.value)}</literal>`;
+  }
+}
+
+// CSV results carry no term types: IRIs and literals as their plain value
+function toCsvTerm(term: RDF.Term): string {
+  return term.termType === 'BlankNode' ? `_:${term.value}` : term.value;
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+// TSV results use the Turtle/N-Triples syntax for terms
+function toTsvTerm(term: RDF.Term): string {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${term.value}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal': {
+      const lexical = `"${
+        term.value
+          .replaceAll('\\', '\\\\')
+          .replaceAll('"', '\\"')
+          .replaceAll('\t', '\\t')
+          .replaceAll('\n', '\\n')
+          .replaceAll('\r', '\\r')
+      }"`;
+      if (term.language) return `${lexical}@${term.language}`;
+      return term.datatype.value === XSD_STRING || term.datatype.value === RDF_LANG_STRING
+        ? lexical
+        : `${lexical}^^<${term.datatype.value}>`;
+    }
+    default:
+      return term.value;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
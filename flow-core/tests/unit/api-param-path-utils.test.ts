@@ -0,0 +1,36 @@
+import { assertEquals } from '../../src/deps.ts';
+import {
+  apiNodePathToFileSystemPath,
+  fileSystemPathToApiNodePath,
+  isValidApiNodePath,
+  parseApiNodePath,
+} from '../../src/utils/api-param-path-utils.ts';
+
+Deno.test('isValidApiNodePath accepts QName segments separated by ~', () => {
+  assertEquals(isValidApiNodePath('test-ns'), true);
+  assertEquals(isValidApiNodePath('test-ns~djradon~under_brush.v2'), true);
+  assertEquals(isValidApiNodePath(''), false);
+  assertEquals(isValidApiNodePath('test-ns~'), false);
+  assertEquals(isValidApiNodePath('test-ns/djradon'), false);
+  assertEquals(isValidApiNodePath('test ns'), false);
+});
+
+Deno.test('isValidApiNodePath refuses relative path segments', () => {
+  assertEquals(isValidApiNodePath('..'), false);
+  assertEquals(isValidApiNodePath('test-ns~..~other-ns'), false);
+  assertEquals(isValidApiNodePath('test-ns~.~djradon'), false);
+  assertEquals(isValidApiNodePath('test-ns~...~.hidden~v1..2'), true);
+});
+
+Deno.test('parseApiNodePath splits on ~ and drops empty segments', () => {
+  assertEquals(parseApiNodePath('djradon~underbrush'), ['djradon', 'underbrush']);
+  assertEquals(parseApiNodePath('~'), []);
+  assertEquals(parseApiNodePath(''), []);
+});
+
+Deno.test('API node paths convert to and from file system paths', () => {
+  assertEquals(apiNodePathToFileSystemPath('djradon~underbrush'), 'djradon/underbrush');
+  assertEquals(apiNodePathToFileSystemPath(''), '');
+  assertEquals(fileSystemPathToApiNodePath('djradon/underbrush/'), 'djradon~underbrush');
+  assertEquals(fileSystemPathToApiNodePath(''), '');
+});
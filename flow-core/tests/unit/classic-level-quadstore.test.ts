@@ -0,0 +1,38 @@
+import { assertEquals, assertRejects } from '../../src/deps.ts';
+import { countQuadsInStream } from '../../src/utils/quadstore/quadstore-utils.ts';
+import { closeQuadstoreBundle, createQuadstoreBundle } from '../../src/utils/quadstore/quadstore-factory.ts';
+
+// Run by the test:classic-level task, the only one granting FFI
+
+Deno.test('classic-level quadstore keeps its graphs after being closed and reopened', {
+  // The classic-level native binding needs FFI
+  ignore: (await Deno.permissions.query({ name: 'ffi' })).state !== 'granted',
+}, async () => {
+  // The classic-level test task may only write below the repository's meshes folder
+  const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const dataDirectory = await Deno.makeTempDir({ dir: meshesRoot, prefix: '.tmp-quadstore-' });
+  try {
+    const firstBundle = await createQuadstoreBundle({ backend: 'classic-level', dataDirectory });
+    const df = firstBundle.df;
+    const graph = df.namedNode('urn:persistedGraph');
+    await firstBundle.store.put(df.quad(df.namedNode('s'), df.namedNode('p'), df.literal('o'), graph));
+    await closeQuadstoreBundle(firstBundle);
+
+    const reopenedBundle = await createQuadstoreBundle({ backend: 'classic-level', dataDirectory });
+    const count = await countQuadsInStream(reopenedBundle.store.match(undefined, undefined, undefined, graph));
+    await closeQuadstoreBundle(reopenedBundle);
+
+    assertEquals(count, 1);
+  } finally {
+    await Deno.remove(dataDirectory, { recursive: true });
+  }
+});
+
+Deno.test('classic-level quadstore requires a data directory', async () => {
+  await assertRejects(
+    () => createQuadstoreBundle({ backend: 'classic-level' }),
+    Error,
+    'requires a data directory',
+  );
+});
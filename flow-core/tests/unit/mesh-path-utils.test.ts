@@ -0,0 +1,54 @@
+import { assertEquals, normalize } from '../../src/deps.ts';
+import { MESH } from '../../src/mesh-constants.ts';
+import {
+  getAggregatedDatasetDistPath,
+  getCurrentDistPath,
+  getCurrentMetaDistPath,
+  getNextDataDistPath,
+  getNextDistPath,
+  getUnifiedDatasetDistPath,
+  getVersionDistPath,
+  getVersionMetaDistPath,
+  parseVersionSnapshotDir,
+} from '../../src/utils/mesh-path-utils.ts';
+
+Deno.test('generic flow dist paths match the flow-specific helpers', () => {
+  const nodePath = '/meshes/test-ns/djradon';
+  assertEquals(
+    getCurrentDistPath(nodePath, MESH.META),
+    getCurrentMetaDistPath(nodePath),
+  );
+  assertEquals(
+    getNextDistPath(nodePath, MESH.DATA),
+    getNextDataDistPath(nodePath),
+  );
+  assertEquals(
+    getVersionDistPath(nodePath, MESH.META, 2),
+    getVersionMetaDistPath(nodePath, 2),
+  );
+  assertEquals(
+    normalize(getVersionDistPath(nodePath, MESH.META, 2)),
+    '/meshes/test-ns/djradon/_meta-flow/_v2/djradon_meta__v2.jsonld',
+  );
+});
+
+Deno.test('parseVersionSnapshotDir only accepts _vN folder names', () => {
+  assertEquals(parseVersionSnapshotDir('_v1'), 1);
+  assertEquals(parseVersionSnapshotDir('_v12'), 12);
+  assertEquals(parseVersionSnapshotDir('_v0'), undefined);
+  assertEquals(parseVersionSnapshotDir('_v01'), undefined);
+  assertEquals(parseVersionSnapshotDir('_current'), undefined);
+  assertEquals(parseVersionSnapshotDir('_v2-draft'), undefined);
+});
+
+Deno.test('dataset dist paths use the media type extension', () => {
+  const nodePath = '/meshes/test-ns/djradon';
+  assertEquals(
+    normalize(getUnifiedDatasetDistPath(nodePath)),
+    '/meshes/test-ns/djradon/_unified-dataset/djradon_unified.jsonld',
+  );
+  assertEquals(
+    normalize(getAggregatedDatasetDistPath(nodePath, 'application/trig')),
+    '/meshes/test-ns/djradon/_aggregated-dataset/djradon_aggregated.trig',
+  );
+});
@@ -0,0 +1,153 @@
+import { DataFactory } from 'npm:rdf-data-factory';
+import {
+  quadsToJsonLdSnapshot,
+  relativizeIrisToDocument,
+  serializeJsonLdAs,
+  serializeQuads,
+  serializeQuadsAs,
+} from '../../src/utils/rdf-format-utils.ts';
+import { assertEquals, describe, it } from '../../src/deps.ts';
+
+const df = new DataFactory();
+
+describe('relativizeIrisToDocument', () => {
+  const documentUrl = 'file:///mesh/node/_meta-flow/_current/node_meta_current.trig';
+
+  it('should make IRIs on the same host relative to the document folder', () => {
+    const [quad] = relativizeIrisToDocument([
+      df.quad(
+        df.namedNode('file:///mesh/node/_handle/'),
+        df.namedNode('http://purl.org/dc/terms/source'),
+        df.namedNode('file:///mesh/node/_meta-flow/_current/node_meta_current.jsonld#activity'),
+        df.namedNode('file:///mesh/node/_meta-flow/_current/'),
+      ),
+    ], documentUrl);
+    assertEquals(quad.subject.value, '../../_handle/');
+    assertEquals(quad.predicate.value, 'http://purl.org/dc/terms/source');
+    assertEquals(quad.object.value, 'node_meta_current.jsonld#activity');
+    assertEquals(quad.graph.value, './');
+  });
+
+  it('should leave literals and blank nodes untouched', () => {
+    const [quad] = relativizeIrisToDocument([
+      df.quad(
+        df.blankNode('b0'),
+        df.namedNode('http://purl.org/dc/terms/title'),
+        df.literal('file:///mesh/node/'),
+      ),
+    ], documentUrl);
+    assertEquals(quad.subject.termType, 'BlankNode');
+    assertEquals(quad.object.value, 'file:///mesh/node/');
+  });
+});
+
+describe('serializeQuads', () => {
+  const quads = [
+    df.quad(
+      df.namedNode('http://example.org/subject'),
+      df.namedNode('http://purl.org/dc/terms/title'),
+      df.literal('Title'),
+      df.namedNode('http://example.org/graph'),
+    ),
+  ];
+
+  it('should write named graphs as N-Quads', async () => {
+    const result = await serializeQuads(quads, 'application/n-quads');
+    assertEquals(
+      result.trim(),
+      '<http://example.org/subject> <http://purl.org/dc/terms/title> "Title" <http://example.org/graph> .',
+    );
+  });
+
+  it('should merge named graphs into the default graph for Turtle', async () => {
+    const result = await serializeQuads(quads, 'text/turtle', {
+      dcterms: 'http://purl.org/dc/terms/',
+    });
+    assertEquals(result.includes('<http://example.org/graph>'), false);
+    assertEquals(result.includes('dcterms:title "Title"'), true);
+  });
+});
+
+describe('serializeJsonLdAs', () => {
+  const inputJsonLd = {
+    '@context': { dcterms: 'http://purl.org/dc/terms/' },
+    '@id': '../../_handle/',
+    'dcterms:title': 'Node',
+  };
+  const documentUrl = 'file:///mesh/node/_meta-flow/_current/node_meta_current.ttl';
+
+  it('should write JSON-LD unchanged', async () => {
+    const result = await serializeJsonLdAs(inputJsonLd, 'application/ld+json', documentUrl);
+    assertEquals(JSON.parse(result), inputJsonLd);
+  });
+
+  it('should keep relative identifiers and context prefixes in Turtle', async () => {
+    const result = await serializeJsonLdAs(inputJsonLd, 'text/turtle', documentUrl);
+    assertEquals(result.includes('@prefix dcterms: <http://purl.org/dc/terms/>.'), true);
+    assertEquals(result.includes('<../../_handle/> dcterms:title "Node".'), true);
+  });
+});
+
+describe('serializeQuadsAs', () => {
+  it('should write named graphs as relative @graph entries in JSON-LD', async () => {
+    const result = await serializeQuadsAs(
+      [
+        df.quad(
+          df.namedNode('file:///mesh/child/_handle/'),
+          df.namedNode('http://purl.org/dc/terms/title'),
+          df.literal('Child'),
+          df.namedNode('file:///mesh/child/_data-flow/_current/'),
+        ),
+      ],
+      'application/ld+json',
+      'file:///mesh/_aggregated-dataset/mesh_aggregated.jsonld',
+    );
+    assertEquals(JSON.parse(result), [{
+      '@id': '../child/_data-flow/_current/',
+      '@graph': [{
+        '@id': '../child/_handle/',
+        'http://purl.org/dc/terms/title': [{ '@value': 'Child' }],
+      }],
+    }]);
+  });
+});
+
+describe('quadsToJsonLdSnapshot', () => {
+  it('should wrap the expanded quads in a JSON-LD object', async () => {
+    const snapshot = await quadsToJsonLdSnapshot(
+      [
+        df.quad(
+          df.namedNode('file:///mesh/node/_data-flow/_next/node_data_next.jsonld#r1'),
+          df.namedNode('http://example.org/value'),
+          df.literal('1'),
+        ),
+      ],
+      'file:///mesh/node/_data-flow/_next/node_data_next.jsonld',
+    );
+    assertEquals(snapshot, {
+      '@graph': [{
+        '@id': 'node_data_next.jsonld#r1',
+        'http://example.org/value': [{ '@value': '1' }],
+      }],
+    });
+  });
+
+  it('should compact the snapshot with a given context', async () => {
+    const context = { mesh: 'https://semantic-flow.github.io/ontology/mesh/' };
+    const snapshot = await quadsToJsonLdSnapshot(
+      [
+        df.quad(
+          df.namedNode('file:///mesh/node/_handle/'),
+          df.namedNode('http://www.w3.org/1999/02/22-rdf-syntax-ns#type'),
+          df.namedNode('https://semantic-flow.github.io/ontology/mesh/Node'),
+        ),
+      ],
+      'file:///mesh/node/_meta-flow/_next/node_meta_next.jsonld',
+      context,
+    );
+    assertEquals(snapshot, {
+      '@context': context,
+      '@graph': [{ '@id': '../../_handle/', '@type': 'mesh:Node' }],
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { DataFactory } from 'npm:rdf-data-factory';
-import { relativizeQuads, expandRelativeQuads } from '../../src/utils/rdfjs-utils.ts';
+import { relativizeQuads, expandRelativeQuads, diffQuads } from '../../src/utils/rdfjs-utils.ts';
 import type { RDF } from '../../src/deps.ts';
 import { assertEquals, describe, it } from '../../src/deps.ts';
 
@@ -72,3 +72,28 @@ describe('expandRelativeQuads', () => {
     assertEquals(result[0].object.value, 'literal value');
   });
 });
+
+describe('diffQuads', () => {
+  const quadA = df.quad(
+    df.namedNode('http://example.org/s'),
+    df.namedNode('http://example.org/p'),
+    df.literal('a', 'en'),
+  );
+  const quadB = df.quad(
+    df.namedNode('http://example.org/s'),
+    df.namedNode('http://example.org/p'),
+    df.literal('a', 'fr'),
+  );
+
+  it('should report added and removed quads', () => {
+    const { added, removed } = diffQuads([quadA], [quadB]);
+    assertEquals(added, [quadB]);
+    assertEquals(removed, [quadA]);
+  });
+
+  it('should report nothing for identical quads', () => {
+    const { added, removed } = diffQuads([quadA, quadB], [quadB, quadA]);
+    assertEquals(added.length, 0);
+    assertEquals(removed.length, 0);
+  });
+});
@@ -0,0 +1,88 @@
+import { DataFactory } from 'npm:rdf-data-factory';
+import {
+  serializeSparqlBindings,
+  serializeSparqlBoolean,
+  type SparqlBindingsRow,
+} from '../../src/utils/sparql-results-utils.ts';
+import { assertEquals, describe, it } from '../../src/deps.ts';
+
+const df = new DataFactory();
+
+const variables = ['s', 'label'];
+const rows: SparqlBindingsRow[] = [
+  {
+    s: df.namedNode('http://example.org/a'),
+    label: df.literal('A, "quoted"', 'en'),
+  },
+  {
+    s: df.blankNode('b0'),
+    label: df.literal('42', df.namedNode('http://www.w3.org/2001/XMLSchema#integer')),
+  },
+  { s: df.namedNode('http://example.org/c') },
+];
+
+describe('serializeSparqlBindings', () => {
+  it('should write SPARQL JSON results, leaving unbound variables out', () => {
+    const results = JSON.parse(
+      serializeSparqlBindings(variables, rows, 'application/sparql-results+json'),
+    );
+    assertEquals(results.head, { vars: ['s', 'label'] });
+    assertEquals(results.results.bindings, [
+      {
+        s: { type: 'uri', value: 'http://example.org/a' },
+        label: { type: 'literal', value: 'A, "quoted"', 'xml:lang': 'en' },
+      },
+      {
+        s: { type: 'bnode', value: 'b0' },
+        label: {
+          type: 'literal',
+          value: '42',
+          datatype: 'http://www.w3.org/2001/XMLSchema#integer',
+        },
+      },
+      { s: { type: 'uri', value: 'http://example.org/c' } },
+    ]);
+  });
+
+  it('should write SPARQL XML results with escaped values', () => {
+    const xml = serializeSparqlBindings(variables, rows, 'application/sparql-results+xml');
+    assertEquals(xml.includes('<variable name="label"/>'), true);
+    assertEquals(
+      xml.includes('<binding name="label"><literal xml:lang="en">A, &quot;quoted&quot;</literal></binding>'),
+      true,
+    );
+    assertEquals(xml.includes('<binding name="s"><bnode>b0</bnode></binding>'), true);
+  });
+
+  it('should write CSV results with quoted fields and CRLF line endings', () => {
+    assertEquals(
+      serializeSparqlBindings(variables, rows, 'text/csv'),
+      's,label\r\nhttp://example.org/a,"A, ""quoted"""\r\n_:b0,42\r\nhttp://example.org/c,\r\n',
+    );
+  });
+
+  it('should write TSV results with terms in Turtle syntax', () => {
+    assertEquals(
+      serializeSparqlBindings(variables, rows, 'text/tab-separated-values'),
+      '?s\t?label\n' +
+        '<http://example.org/a>\t"A, \\"quoted\\""@en\n' +
+        '_:b0\t"42"^^<http://www.w3.org/2001/XMLSchema#integer>\n' +
+        '<http://example.org/c>\t\n',
+    );
+  });
+});
+
+describe('serializeSparqlBoolean', () => {
+  it('should write ASK results as SPARQL JSON and XML', () => {
+    assertEquals(
+      JSON.parse(serializeSparqlBoolean(true, 'application/sparql-results+json')),
+      { head: {}, boolean: true },
+    );
+    assertEquals(
+      serializeSparqlBoolean(false, 'application/sparql-results+xml').includes(
+        '<boolean>false</boolean>',
+      ),
+      true,
+    );
+  });
+});
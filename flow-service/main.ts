@@ -17,6 +17,12 @@ import { MESH } from "../flow-core/src/mesh-constants.ts";
 import { setGlobalLoggingConfig } from "../flow-core/src/utils/logger/component-logger.ts";
 import { SERVICE_LOGGER_DEFAULT_CONFIG } from "./src/utils/service-logger.ts";
 import { getComponentLogger } from "../flow-core/src/utils/logger/component-logger.ts";
+import { initializeMeshRegistry } from "./src/utils/mesh-utils.ts";
+import {
+  closeMeshQuadstoreBundle,
+  initializeMeshQuadstoreBundle,
+} from "./src/quadstore-mesh-bundle.ts";
+import { indexRegisteredMeshes } from "./src/services/mesh-indexer.ts";
 
 // initialize a logger with default config until we can process the service config
 setGlobalLoggingConfig(SERVICE_LOGGER_DEFAULT_CONFIG);
@@ -60,6 +66,50 @@ try {
   );
 }
 
+// Register the configured meshes and those registered through the API in earlier runs
+try {
+  await initializeMeshRegistry();
+} catch (error) {
+  const context: LogContext = createServiceLogContext({
+    operation: "initializeMeshRegistry",
+  });
+  await handleCaughtError(
+    error,
+    "Failed to initialize the mesh registry",
+    context,
+  );
+}
+
+// Open the mesh quadstore with the configured storage backend
+try {
+  await initializeMeshQuadstoreBundle();
+} catch (error) {
+  const context: LogContext = createServiceLogContext({
+    operation: "initializeMeshQuadstoreBundle",
+  });
+  await handleCaughtError(
+    error,
+    "Failed to open the mesh quadstore",
+    context,
+  );
+  Deno.exit(1);
+}
+
+// Load the current flows of the registered meshes into the mesh quadstore
+await indexRegisteredMeshes();
+
+// Close the mesh quadstore on shutdown, so a persistent backend is flushed and unlocked
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  Deno.addSignalListener(signal, async () => {
+    try {
+      await closeMeshQuadstoreBundle();
+    } catch (error) {
+      await handleCaughtError(error, "Failed to close the mesh quadstore");
+    }
+    Deno.exit(0);
+  });
+}
+
 // Log service startup with configuration info
 try {
   logStartupConfiguration();
@@ -133,12 +183,34 @@ app.get("/llms.txt", (c) => {
 app.route("/api", health);
 import { createMeshesRoutes } from "./src/routes/meshes.ts";
 import { createWeaveRoutes } from "./src/routes/weave.ts";
+import { createWeaveJobRoutes } from "./src/routes/weave-jobs.ts";
+import { createMeshAssetsRoutes } from "./src/routes/mesh-assets.ts";
+import {
+  createSparqlRoutes,
+  createSparqlUpdateRoutes,
+} from "./src/routes/sparql.ts";
+import { createQueryWidgetRoutes } from "./src/routes/query-widget.ts";
 
 const meshes = createMeshesRoutes();
 const weave = createWeaveRoutes();
+const weaveJobs = createWeaveJobRoutes();
+const meshAssets = createMeshAssetsRoutes();
 
 app.route("/api", meshes);
 app.route("/api", weave);
+app.route("/api", weaveJobs);
+app.route("/api", meshAssets);
+
+// The SPARQL endpoint lives at the service root, outside the REST API
+if (await singletonServiceConfigAccessor.isSparqlEnabled()) {
+  app.route("/", createSparqlRoutes());
+}
+if (await singletonServiceConfigAccessor.isSparqlUpdateEnabled()) {
+  app.route("/", createSparqlUpdateRoutes());
+}
+if (await singletonServiceConfigAccessor.isQueryWidgetEnabled()) {
+  app.route("/", createQueryWidgetRoutes());
+}
 
 // Startup logging
 try {
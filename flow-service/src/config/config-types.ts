@@ -7,6 +7,7 @@
 
 import { NodeObject, ContextDefinition } from "../../../flow-core/src/deps.ts";
 import { LogLevel } from "../../../flow-core/src/utils/logger/logger-types.ts";
+import type { QuadstoreBackend } from "../../../flow-core/src/utils/quadstore/quadstore-factory.ts";
 
 // JSON-LD Context and Type Definitions
 export interface FlowServiceContext extends ContextDefinition {
@@ -47,6 +48,10 @@ export interface ContainedServicesConfig extends NodeObject {
   readonly "@type": "fsvc:ContainedServicesConfig";
   readonly "fsvc:apiEnabled": boolean;
   readonly "fsvc:sparqlEnabled": boolean;
+  /** Milliseconds after which a SPARQL query is abandoned */
+  readonly "fsvc:sparqlQueryTimeout"?: number;
+  /** Whether SPARQL updates of `_next` snapshots are accepted */
+  readonly "fsvc:sparqlUpdateEnabled"?: boolean;
   readonly "fsvc:queryWidgetEnabled": boolean;
   readonly "fsvc:staticServerEnabled": boolean;
   readonly "fsvc:apiDocsEnabled": boolean;
@@ -78,6 +83,9 @@ export interface ServiceConfig extends NodeObject {
   readonly "fsvc:port": number;
   readonly "fsvc:host": string;
   readonly "fsvc:meshPaths"?: string[];
+  readonly "fsvc:meshRegistryPath"?: string;
+  readonly "fsvc:quadstoreBackend"?: QuadstoreBackend;
+  readonly "fsvc:quadstoreDataDirectory"?: string;
   readonly "fsvc:hasLoggingConfig": LoggingConfig;
   readonly "fsvc:hasContainedServices": ContainedServicesConfig;
   readonly "fsvc:rootMeshRootNodeConfigTemplate"?: MeshRootNodeConfig;
@@ -108,6 +116,9 @@ export interface ServiceConfigInput extends Partial<NodeObject> {
   "fsvc:port"?: number;
   "fsvc:host"?: string;
   "fsvc:meshPaths"?: string[];
+  "fsvc:meshRegistryPath"?: string;
+  "fsvc:quadstoreBackend"?: QuadstoreBackend;
+  "fsvc:quadstoreDataDirectory"?: string;
   "fsvc:hasLoggingConfig"?: Partial<LoggingConfig>;
   "fsvc:hasContainedServices"?: Partial<ContainedServicesConfig>;
   "fsvc:nodeDefaults"?: Partial<MeshRootNodeConfig>;
@@ -116,7 +127,8 @@ export interface ServiceConfigInput extends Partial<NodeObject> {
 }
 
 export interface MeshRootNodeConfigInput extends Partial<NodeObject> {
-  "@type"?: "conf:MeshRootNodeConfig";
+  // Config flow distributions are typed "flow:ConfigDistribution"
+  "@type"?: "conf:MeshRootNodeConfig" | "flow:ConfigDistribution";
   "conf:versioningEnabled"?: boolean;
   "conf:distributionFormats"?: string[];
   "conf:templateMappings"?: Partial<TemplateMapping>;
@@ -152,6 +164,9 @@ export interface EnvironmentConfig {
   readonly FLOW_SERVICE_PORT?: string;
   readonly FLOW_SERVICE_HOST?: string;
   readonly FLOW_MESH_PATHS?: string;
+  readonly FLOW_MESH_REGISTRY_PATH?: string;
+  readonly FLOW_QUADSTORE_BACKEND?: string;
+  readonly FLOW_QUADSTORE_DATA_DIR?: string;
   readonly FLOW_LOG_LEVEL?: string;
   readonly FLOW_SENTRY_ENABLED?: string;
   readonly FLOW_SENTRY_DSN?: string;
@@ -167,6 +182,9 @@ export interface EnvironmentConfig {
   readonly FLOW_DEFAULT_FORMATS?: string;
   readonly FLOW_API_ENABLED?: string;
   readonly FLOW_SPARQL_ENABLED?: string;
+  readonly FLOW_SPARQL_QUERY_TIMEOUT?: string;
+  readonly FLOW_SPARQL_UPDATE_ENABLED?: string;
+  readonly FLOW_QUERY_WIDGET_ENABLED?: string;
 }
 
 // Configuration Error Types
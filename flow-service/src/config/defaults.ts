@@ -83,6 +83,11 @@ export const PLATFORM_SERVICE_DEFAULTS: ServiceConfig = {
   "fsvc:scheme": "http",
   "fsvc:port": 31415,
   "fsvc:host": "localhost",
+  // Where meshes registered through the API are persisted across restarts
+  "fsvc:meshRegistryPath": "./data/mesh-registry.json",
+  // Storage of the mesh quadstore; "classic-level" keeps its graphs in the data directory
+  "fsvc:quadstoreBackend": "memory",
+  "fsvc:quadstoreDataDirectory": "./data/quadstore",
   "fsvc:hasLoggingConfig": {
     "@id": "_service-config/loggingConfig",
     "@type": "fsvc:LoggingConfig",
@@ -116,6 +121,8 @@ export const PLATFORM_SERVICE_DEFAULTS: ServiceConfig = {
     "@type": "fsvc:ContainedServicesConfig",
     "fsvc:apiEnabled": true,
     "fsvc:sparqlEnabled": true,
+    "fsvc:sparqlQueryTimeout": 30000,
+    "fsvc:sparqlUpdateEnabled": false,
     "fsvc:queryWidgetEnabled": true,
     "fsvc:staticServerEnabled": true,
     "fsvc:apiDocsEnabled": true,
@@ -62,6 +62,7 @@ export {
   saveServiceConfig,
   validateJsonLd,
 } from './loaders/jsonld-loader.ts';
+export type { ConfigSnapshot } from './loaders/jsonld-loader.ts';
 
 // Service Configuration Resolution (Cascading Pattern)
 export {
@@ -69,6 +70,23 @@ export {
 } from './resolution/service-config-resolver.ts';
 
 export { validateServiceConfig } from './resolution/service-config-validator.ts';
+export { validateMeshRootNodeConfigInput } from './resolution/node-config-validator.ts';
+
+// Node Configuration Resolution (Inheritance Along the Node Hierarchy)
+export {
+  getDatasetGenerationSettings,
+  getDistributionFormats,
+  getResourcePageSettings,
+  isVersioningEnabled,
+  resolveEffectiveNodeConfig,
+  resolveNodeConfigAtPath,
+} from './resolution/node-config-resolver.ts';
+export type {
+  DatasetGenerationSettings,
+  EffectiveNodeConfig,
+  NodeConfigSource,
+  ResourcePageSettings,
+} from './resolution/node-config-resolver.ts';
 
 export { singletonServiceConfigAccessor } from './resolution/service-config-accessor.ts';
 
@@ -12,6 +12,10 @@ import type {
 import { DEFAULT_CONTEXT } from "../defaults.ts";
 import { ConfigError } from "../config-types.ts";
 import { validateLogLevel } from "../../../../flow-core/src/platform-constants.ts";
+import {
+  isQuadstoreBackend,
+  QUADSTORE_BACKENDS,
+} from "../../../../flow-core/src/utils/quadstore/quadstore-factory.ts";
 
 /**
  * Loads environment variables prefixed with `FLOW_` and assembles them into a structured `ServiceConfigInput` object.
@@ -59,6 +63,25 @@ export function loadEnvConfig(): ServiceConfigInput {
     }
   }
 
+  if (env.FLOW_MESH_REGISTRY_PATH) {
+    configInput["fsvc:meshRegistryPath"] = env.FLOW_MESH_REGISTRY_PATH;
+  }
+
+  // Quadstore storage
+  if (env.FLOW_QUADSTORE_BACKEND) {
+    const backend = env.FLOW_QUADSTORE_BACKEND.toLowerCase();
+    if (!isQuadstoreBackend(backend)) {
+      throw new ConfigError(
+        `Invalid FLOW_QUADSTORE_BACKEND '${env.FLOW_QUADSTORE_BACKEND}'. Valid backends: ${QUADSTORE_BACKENDS.join(", ")}`,
+      );
+    }
+    configInput["fsvc:quadstoreBackend"] = backend;
+  }
+
+  if (env.FLOW_QUADSTORE_DATA_DIR) {
+    configInput["fsvc:quadstoreDataDirectory"] = env.FLOW_QUADSTORE_DATA_DIR;
+  }
+
   // Logging configuration (mutable for construction)
   const loggingConfig: Record<
     string,
@@ -187,7 +210,7 @@ export function loadEnvConfig(): ServiceConfigInput {
   }
 
   // Contained services
-  const containedServices: Record<string, boolean | string> = {};
+  const containedServices: Record<string, boolean | number | string> = {};
   let hasContainedServices = false;
 
   if (env.FLOW_API_ENABLED) {
@@ -206,6 +229,30 @@ export function loadEnvConfig(): ServiceConfigInput {
     }
   }
 
+  if (env.FLOW_SPARQL_UPDATE_ENABLED) {
+    const enabled = parseBoolean(env.FLOW_SPARQL_UPDATE_ENABLED);
+    if (enabled !== undefined) {
+      containedServices["fsvc:sparqlUpdateEnabled"] = enabled;
+      hasContainedServices = true;
+    }
+  }
+
+  if (env.FLOW_QUERY_WIDGET_ENABLED) {
+    const enabled = parseBoolean(env.FLOW_QUERY_WIDGET_ENABLED);
+    if (enabled !== undefined) {
+      containedServices["fsvc:queryWidgetEnabled"] = enabled;
+      hasContainedServices = true;
+    }
+  }
+
+  if (env.FLOW_SPARQL_QUERY_TIMEOUT) {
+    const timeout = parseInt(env.FLOW_SPARQL_QUERY_TIMEOUT, 10);
+    if (!isNaN(timeout) && timeout > 0) {
+      containedServices["fsvc:sparqlQueryTimeout"] = timeout;
+      hasContainedServices = true;
+    }
+  }
+
   if (hasContainedServices) {
     containedServices["@id"] = "_service-config/containedServices";
     containedServices["@type"] = "fsvc:ContainedServicesConfig";
@@ -254,6 +301,9 @@ function getEnvironmentVariables(): EnvironmentConfig {
     "FLOW_SERVICE_PORT": Deno.env.get("FLOW_SERVICE_PORT"),
     "FLOW_SERVICE_HOST": Deno.env.get("FLOW_SERVICE_HOST"),
     "FLOW_MESH_PATHS": Deno.env.get("FLOW_MESH_PATHS"),
+    "FLOW_MESH_REGISTRY_PATH": Deno.env.get("FLOW_MESH_REGISTRY_PATH"),
+    "FLOW_QUADSTORE_BACKEND": Deno.env.get("FLOW_QUADSTORE_BACKEND"),
+    "FLOW_QUADSTORE_DATA_DIR": Deno.env.get("FLOW_QUADSTORE_DATA_DIR"),
     "FLOW_LOG_LEVEL": Deno.env.get("FLOW_LOG_LEVEL"),
     "FLOW_SENTRY_ENABLED": Deno.env.get("FLOW_SENTRY_ENABLED"),
     "FLOW_SENTRY_DSN": Deno.env.get("FLOW_SENTRY_DSN"),
@@ -269,6 +319,9 @@ function getEnvironmentVariables(): EnvironmentConfig {
     "FLOW_DEFAULT_FORMATS": Deno.env.get("FLOW_DEFAULT_FORMATS"),
     "FLOW_API_ENABLED": Deno.env.get("FLOW_API_ENABLED"),
     "FLOW_SPARQL_ENABLED": Deno.env.get("FLOW_SPARQL_ENABLED"),
+    "FLOW_SPARQL_QUERY_TIMEOUT": Deno.env.get("FLOW_SPARQL_QUERY_TIMEOUT"),
+    "FLOW_SPARQL_UPDATE_ENABLED": Deno.env.get("FLOW_SPARQL_UPDATE_ENABLED"),
+    "FLOW_QUERY_WIDGET_ENABLED": Deno.env.get("FLOW_QUERY_WIDGET_ENABLED"),
   };
 }
 
@@ -8,9 +8,23 @@
 import type { MeshRootNodeConfigInput, ServiceConfigInput } from '../config-types.ts';
 import { ConfigError } from '../config-types.ts';
 import { handleCaughtError } from '../../../../flow-core/src/utils/logger/error-handlers.ts';
-import { getCurrentConfigDistPath } from '../../../../flow-core/src/utils/mesh-path-utils.ts';
+import {
+  getCurrentConfigDistPath,
+  getNextConfigDistPath,
+} from '../../../../flow-core/src/utils/mesh-path-utils.ts';
 import { dirname, NodeObject, resolve } from '../../../../flow-core/src/deps.ts';
 
+/**
+ * The config flow snapshots a node config can be loaded from or saved to.
+ */
+export type ConfigSnapshot = 'current' | 'next';
+
+function getConfigDistPath(nodePath: string, snapshot: ConfigSnapshot): string {
+  return snapshot === 'next'
+    ? getNextConfigDistPath(nodePath)
+    : getCurrentConfigDistPath(nodePath);
+}
+
 /**
  * Loads a service configuration from a JSON-LD file at the specified path.
  *
@@ -79,14 +93,16 @@ export async function loadServiceConfig(
  * Reads and parses the node configuration file, validating that its `@type` is `"flow:ConfigDistribution"`. Returns the parsed configuration object, or `null` if the file does not exist. Throws `ConfigError` if the file contains invalid JSON, has an incorrect type, or on other failures.
  *
  * @param nodePath - The directory path of the node whose configuration should be loaded
+ * @param snapshot - Which config snapshot to load; the published `_current` one by default
  * @returns The parsed node configuration object, or `null` if the configuration file does not exist
  */
 export async function loadMeshRootNodeConfig(
   nodePath: string,
+  snapshot: ConfigSnapshot = 'current',
 ): Promise<MeshRootNodeConfigInput | null> {
   // Resolve nodePath to absolute path to avoid relative path issues
   const absoluteNodePath = resolve(nodePath);
-  const configPath = getCurrentConfigDistPath(absoluteNodePath);
+  const configPath = getConfigDistPath(absoluteNodePath, snapshot);
 
   try {
     const configContent = await Deno.readTextFile(configPath);
@@ -174,12 +190,16 @@ export async function saveServiceConfig(
  * Saves a node configuration object as a JSON-LD file at the derived node config path.
  *
  * Ensures the target directory exists before writing. Throws a ConfigError if saving fails.
+ *
+ * @param snapshot - Which config snapshot to write; changes made through the API go to `_next`, to be published by the next weave
+ * @returns The path of the written file
  */
 export async function saveMeshRootNodeConfig(
   nodePath: string,
   config: MeshRootNodeConfigInput,
-): Promise<void> {
-  const configPath = getCurrentConfigDistPath(nodePath);
+  snapshot: ConfigSnapshot = 'current',
+): Promise<string> {
+  const configPath = getConfigDistPath(nodePath, snapshot);
 
   try {
     // Ensure the directory exists
@@ -189,6 +209,7 @@ export async function saveMeshRootNodeConfig(
     // Format JSON with proper indentation
     const configContent = JSON.stringify(config, null, 2);
     await Deno.writeTextFile(configPath, configContent);
+    return configPath;
   } catch (error) {
     await handleCaughtError(
       error,
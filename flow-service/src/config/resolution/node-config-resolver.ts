@@ -0,0 +1,198 @@
+/**
+ * Node Configuration Resolver
+ *
+ * Computes the effective configuration of a mesh node by layering, from lowest to highest
+ * precedence: the platform node defaults, the service's root mesh root node config template,
+ * and the `_config-flow/_current` configs of the node's ancestors and of the node itself.
+ *
+ * Inheritance from ancestors stops at the first node, walking up from the target node, whose
+ * config sets `conf:configInheritanceEnabled` to false; the defaults and template still apply.
+ *
+ * The weave settings of a node are read from its effective configuration.
+ */
+
+import { join } from '../../../../flow-core/src/deps.ts';
+import {
+  CANONICAL_DISTRIBUTION_FORMAT,
+  type DistributionMediaType,
+} from '../../../../flow-core/src/mesh-constants.ts';
+import { isDistributionMediaType } from '../../../../flow-core/src/utils/mesh-path-utils.ts';
+import type { MeshRootNodeConfig, MeshRootNodeConfigInput } from '../config-types.ts';
+import { PLATFORM_NODE_DEFAULTS } from '../defaults.ts';
+import {
+  getNodeHierarchy,
+  isConfigInheritanceEnabled,
+  loadMeshRootNodeConfig,
+} from '../loaders/jsonld-loader.ts';
+import { singletonServiceConfigAccessor } from './service-config-accessor.ts';
+import { mergeConfigs } from '../../utils/merge-configs.ts';
+import { findNodeMesh } from '../../utils/mesh-utils.ts';
+
+/**
+ * Where an effective config value comes from.
+ */
+export type NodeConfigSource =
+  | { readonly kind: 'platform-defaults' }
+  | { readonly kind: 'service-template' }
+  /** `nodePath` is relative to the mesh root ('' for the root node) */
+  | { readonly kind: 'node'; readonly nodePath: string };
+
+export interface EffectiveNodeConfig {
+  readonly config: MeshRootNodeConfig;
+  /** The layer that supplied each `conf:` property of the config */
+  readonly sources: Record<string, NodeConfigSource>;
+}
+
+/**
+ * Resolves the effective configuration of a node.
+ *
+ * @param meshPath - File system path of the mesh root node folder
+ * @param relativeNodePath - Path of the node relative to the mesh root ('' for the root node)
+ * @param serviceTemplate - The service's `fsvc:rootMeshRootNodeConfigTemplate`, if any
+ * @returns The merged config and the source of each of its values
+ * @throws ConfigError if a node config along the hierarchy cannot be loaded
+ */
+export async function resolveEffectiveNodeConfig(
+  meshPath: string,
+  relativeNodePath: string,
+  serviceTemplate?: MeshRootNodeConfigInput,
+): Promise<EffectiveNodeConfig> {
+  const layers: { source: NodeConfigSource; config: MeshRootNodeConfigInput }[] = [
+    { source: { kind: 'platform-defaults' }, config: PLATFORM_NODE_DEFAULTS },
+  ];
+  if (serviceTemplate) {
+    layers.push({ source: { kind: 'service-template' }, config: serviceTemplate });
+  }
+
+  // Walk up from the node, collecting configs until inheritance is disabled
+  const nodeLayers: typeof layers = [];
+  for (const nodePath of [relativeNodePath, ...getNodeHierarchy(relativeNodePath), '']) {
+    if (nodeLayers.some(({ source }) => source.kind === 'node' && source.nodePath === nodePath)) {
+      continue;
+    }
+    const absoluteNodePath = join(meshPath, nodePath);
+    const config = await loadMeshRootNodeConfig(absoluteNodePath);
+    if (config) {
+      nodeLayers.unshift({ source: { kind: 'node', nodePath }, config });
+    }
+    if (!await isConfigInheritanceEnabled(absoluteNodePath)) break;
+  }
+  layers.push(...nodeLayers);
+
+  let config = {} as MeshRootNodeConfig;
+  const sources: Record<string, NodeConfigSource> = {};
+  for (const layer of layers) {
+    config = mergeConfigs(config, layer.config as Partial<MeshRootNodeConfig>);
+    for (const [key, value] of Object.entries(layer.config)) {
+      if (key.startsWith('conf:') && value !== undefined && value !== null) {
+        sources[key] = layer.source;
+      }
+    }
+  }
+
+  return { config, sources };
+}
+
+/**
+ * Resolves the effective configuration of the node at a file system path, using the service's
+ * config template. A node outside every registered mesh is resolved as a mesh root.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns The merged config
+ * @throws ConfigError if a node config along the hierarchy cannot be loaded
+ */
+export async function resolveNodeConfigAtPath(
+  nodePath: string,
+): Promise<MeshRootNodeConfig> {
+  const node = findNodeMesh(nodePath);
+  const serviceTemplate = singletonServiceConfigAccessor.isInitialized()
+    ? await singletonServiceConfigAccessor.getRootMeshRootNodeConfigTemplate()
+    : undefined;
+  const { config } = await resolveEffectiveNodeConfig(
+    node?.meshPath ?? nodePath,
+    node?.relativeNodePath ?? '',
+    serviceTemplate,
+  );
+  return config;
+}
+
+/**
+ * Determines whether versioned snapshots (`_v1`, `_v2`, ...) should be minted for a node.
+ *
+ * @param config - The effective config of the node
+ */
+export function isVersioningEnabled(config: MeshRootNodeConfig): boolean {
+  return config['conf:versioningEnabled'] ?? PLATFORM_NODE_DEFAULTS['conf:versioningEnabled'];
+}
+
+/**
+ * Determines the distribution formats (media types) to generate for a node. Unsupported media
+ * types are ignored, and the canonical JSON-LD format is always included first, since
+ * snapshots are authored in it.
+ *
+ * @param config - The effective config of the node
+ * @returns The media types to generate, without duplicates
+ */
+export function getDistributionFormats(config: MeshRootNodeConfig): DistributionMediaType[] {
+  const configuredFormats = config['conf:distributionFormats'] ??
+    PLATFORM_NODE_DEFAULTS['conf:distributionFormats'];
+  return [
+    ...new Set([
+      CANONICAL_DISTRIBUTION_FORMAT,
+      ...configuredFormats.filter(isDistributionMediaType),
+    ]),
+  ];
+}
+
+/**
+ * Resource page settings of a node, with mesh-root-relative paths starting with "/".
+ */
+export interface ResourcePageSettings {
+  readonly enabled: boolean;
+  readonly templatePath: string;
+  readonly stylesheetPath: string;
+}
+
+/**
+ * Determines whether and how an HTML resource page should be generated for a node.
+ *
+ * @param config - The effective config of the node
+ */
+export function getResourcePageSettings(config: MeshRootNodeConfig): ResourcePageSettings {
+  return {
+    enabled: config['conf:generateResourcePages'] ??
+      PLATFORM_NODE_DEFAULTS['conf:generateResourcePages'] ?? true,
+    templatePath: config['conf:templateMappings']?.['conf:hasResourcePageTemplate'] ??
+      PLATFORM_NODE_DEFAULTS['conf:templateMappings']?.['conf:hasResourcePageTemplate'] ??
+      '/_assets/_templates/default-resource-page.html',
+    stylesheetPath: config['conf:stylesheetPath'] ??
+      PLATFORM_NODE_DEFAULTS['conf:stylesheetPath'] ??
+      '/_assets/css/default-resource-page.css',
+  };
+}
+
+/**
+ * Which generated datasets the weave should produce for a node.
+ */
+export interface DatasetGenerationSettings {
+  /** The node's data flow merged with its meta flow */
+  readonly unified: boolean;
+  /** The data flows of the node and its descendants, each in its own named graph */
+  readonly aggregated: boolean;
+}
+
+/**
+ * Determines which generated datasets should be produced for a node.
+ *
+ * @param config - The effective config of the node
+ */
+export function getDatasetGenerationSettings(
+  config: MeshRootNodeConfig,
+): DatasetGenerationSettings {
+  return {
+    unified: config['conf:generateUnifiedDataset'] ??
+      PLATFORM_NODE_DEFAULTS['conf:generateUnifiedDataset'],
+    aggregated: config['conf:generateAggregatedDataset'] ??
+      PLATFORM_NODE_DEFAULTS['conf:generateAggregatedDataset'],
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Node Configuration Validator
+ *
+ * Checks node config input submitted through the API against the `MeshRootNodeConfigInput`
+ * shape before it is written to a node's config flow.
+ */
+
+import { join, normalize } from '../../../../flow-core/src/deps.ts';
+import { isDistributionMediaType } from '../../../../flow-core/src/utils/mesh-path-utils.ts';
+import type { MeshRootNodeConfigInput } from '../config-types.ts';
+import { ConfigValidationError } from '../config-types.ts';
+
+const BOOLEAN_KEYS = [
+  'conf:versioningEnabled',
+  'conf:configInheritanceEnabled',
+  'conf:generateUnifiedDataset',
+  'conf:generateAggregatedDataset',
+  'conf:generateResourcePages',
+];
+
+const STRING_KEYS = ['conf:stylesheetPath', 'conf:defaultAttributedTo'];
+
+const KNOWN_KEYS = [
+  '@context',
+  '@id',
+  '@type',
+  ...BOOLEAN_KEYS,
+  ...STRING_KEYS,
+  'conf:distributionFormats',
+  'conf:templateMappings',
+];
+
+const TEMPLATE_MAPPING_KEYS = ['@id', '@type', 'conf:hasResourcePageTemplate'];
+
+/**
+ * Validates node config input, collecting every problem before failing.
+ *
+ * Template paths are mesh-root-relative paths starting with "/", and must point at existing
+ * files inside the mesh.
+ *
+ * @param input - The submitted config
+ * @param meshPath - File system path of the mesh root node folder
+ * @returns The input, typed as node config input
+ * @throws ConfigValidationError listing all problems if the input is invalid
+ */
+export async function validateMeshRootNodeConfigInput(
+  input: unknown,
+  meshPath: string,
+): Promise<MeshRootNodeConfigInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ConfigValidationError('Invalid node config', [
+      'The node config must be a JSON-LD object.',
+    ]);
+  }
+  const config = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (!KNOWN_KEYS.includes(key)) {
+      errors.push(`Unknown node config property '${key}'.`);
+    }
+  }
+
+  if (config['@type'] !== undefined && config['@type'] !== 'flow:ConfigDistribution') {
+    errors.push(`'@type' must be "flow:ConfigDistribution", got ${JSON.stringify(config['@type'])}.`);
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      errors.push(`'${key}' must be a boolean.`);
+    }
+  }
+
+  for (const key of STRING_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      errors.push(`'${key}' must be a string.`);
+    }
+  }
+
+  const formats = config['conf:distributionFormats'];
+  if (formats !== undefined) {
+    if (!Array.isArray(formats)) {
+      errors.push(`'conf:distributionFormats' must be an array of media types.`);
+    } else {
+      for (const format of formats) {
+        if (typeof format !== 'string' || !isDistributionMediaType(format)) {
+          errors.push(
+            `'conf:distributionFormats' contains unsupported media type ${JSON.stringify(format)}.`,
+          );
+        }
+      }
+    }
+  }
+
+  const templateMappings = config['conf:templateMappings'];
+  if (templateMappings !== undefined) {
+    if (
+      !templateMappings || typeof templateMappings !== 'object' ||
+      Array.isArray(templateMappings)
+    ) {
+      errors.push(`'conf:templateMappings' must be an object.`);
+    } else {
+      const mappings = templateMappings as Record<string, unknown>;
+      for (const key of Object.keys(mappings)) {
+        if (!TEMPLATE_MAPPING_KEYS.includes(key)) {
+          errors.push(`Unknown template mapping property '${key}'.`);
+        }
+      }
+      if (mappings['@type'] !== undefined && mappings['@type'] !== 'conf:TemplateMapping') {
+        errors.push(`'conf:templateMappings' '@type' must be "conf:TemplateMapping".`);
+      }
+      const templatePath = mappings['conf:hasResourcePageTemplate'];
+      if (templatePath !== undefined) {
+        const problem = typeof templatePath === 'string'
+          ? await checkMeshFilePath(templatePath, meshPath)
+          : 'must be a string';
+        if (problem) errors.push(`'conf:hasResourcePageTemplate' ${problem}.`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(
+      `Invalid node config: ${errors.length} problem${errors.length === 1 ? '' : 's'} found`,
+      errors,
+    );
+  }
+  return config as MeshRootNodeConfigInput;
+}
+
+// Describes what is wrong with a mesh-root-relative file path, if anything
+async function checkMeshFilePath(
+  path: string,
+  meshPath: string,
+): Promise<string | undefined> {
+  if (!path.startsWith('/')) {
+    return `must be a mesh-root-relative path starting with "/", got '${path}'`;
+  }
+  const relativePath = normalize(path.slice(1));
+  if (relativePath === '..' || relativePath.startsWith('../')) {
+    return `must point inside the mesh, got '${path}'`;
+  }
+  try {
+    if ((await Deno.stat(join(meshPath, relativePath))).isFile) return undefined;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return `points at '${path}', which is not a file in the mesh`;
+}
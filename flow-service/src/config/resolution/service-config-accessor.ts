@@ -1,9 +1,13 @@
 
 import type { QuadstoreBundle } from '../../../../flow-core/src/types.ts';
+import { isQuadstoreBackend } from '../../../../flow-core/src/utils/quadstore/quadstore-factory.ts';
+import type { QuadstoreBackend } from '../../../../flow-core/src/utils/quadstore/quadstore-factory.ts';
 import { defaultQuadstoreBundle } from '../../quadstore-default-bundle.ts';
 import { CONFIG_GRAPH_NAMES } from '../index.ts';
 import { getCurrentServiceUri } from '../../utils/service-uri-builder.ts';
 import { querySingleValue, queryMultipleValues } from '../../../../flow-core/src/utils/sparql-utils.ts';
+import type { MeshRootNodeConfigInput } from '../config-types.ts';
+import { DEFAULT_CONTEXT, PLATFORM_NODE_DEFAULTS } from '../defaults.ts';
 
 
 export const singletonServiceConfigAccessor = new (class ServiceConfigAccessor {
@@ -63,6 +67,36 @@ export const singletonServiceConfigAccessor = new (class ServiceConfigAccessor {
     return await this.getMultipleConfigValues('fsvc:meshPaths');
   }
 
+  async getMeshRegistryPath(): Promise<string | undefined> {
+    return await this.getConfigValue('fsvc:meshRegistryPath');
+  }
+
+  async getQuadstoreBackend(): Promise<QuadstoreBackend | undefined> {
+    const result = await this.getConfigValue('fsvc:quadstoreBackend');
+    return result && isQuadstoreBackend(result) ? result : undefined;
+  }
+
+  async getQuadstoreDataDirectory(): Promise<string | undefined> {
+    return await this.getConfigValue('fsvc:quadstoreDataDirectory');
+  }
+
+  async isSparqlEnabled(): Promise<boolean> {
+    return await this.getConfigValue('fsvc:sparqlEnabled') === 'true';
+  }
+
+  async isSparqlUpdateEnabled(): Promise<boolean> {
+    return await this.getConfigValue('fsvc:sparqlUpdateEnabled') === 'true';
+  }
+
+  async isQueryWidgetEnabled(): Promise<boolean> {
+    return await this.getConfigValue('fsvc:queryWidgetEnabled') === 'true';
+  }
+
+  async getSparqlQueryTimeout(): Promise<number | undefined> {
+    const result = await this.getConfigValue('fsvc:sparqlQueryTimeout');
+    return result ? Number(result) : undefined;
+  }
+
   // Custom accessors for logging channels
 
   async getConsoleLoggingConfig(): Promise<{ enabled: boolean; level?: string }> {
@@ -113,6 +147,46 @@ export const singletonServiceConfigAccessor = new (class ServiceConfigAccessor {
     return { enabled: enabledStr === 'true', level: level ?? undefined };
   }
 
+  /**
+   * Reads the literal properties of the `fsvc:rootMeshRootNodeConfigTemplate`, keyed by their
+   * `conf:` compact IRIs. Properties whose platform default is an array are returned as arrays.
+   */
+  async getRootMeshRootNodeConfigTemplate(): Promise<MeshRootNodeConfigInput | undefined> {
+    if (!this.bundle.engine) {
+      throw new Error('SPARQL engine not initialized in Quadstore bundle');
+    }
+    const sparql = `
+      PREFIX fsvc: <https://semantic-flow.github.io/ontology/flow-service/>
+      SELECT ?property ?value WHERE {
+        GRAPH <${getCurrentServiceUri(CONFIG_GRAPH_NAMES.mergedServiceConfig)}> {
+          ?s fsvc:rootMeshRootNodeConfigTemplate ?template .
+          ?template ?property ?value .
+          FILTER(isLiteral(?value))
+        }
+      }
+    `;
+    const template: Record<string, unknown> = {};
+    try {
+      const bindingsStream = await this.bundle.engine.queryBindings(sparql, { sources: [this.bundle.store] });
+      // deno-lint-ignore no-explicit-any
+      for await (const binding of bindingsStream as any) {
+        const property: string = binding.get('property').value;
+        if (!property.startsWith(DEFAULT_CONTEXT.conf)) continue;
+        const key = `conf:${property.slice(DEFAULT_CONTEXT.conf.length)}`;
+        const rawValue: string = binding.get('value').value;
+        const value = rawValue === 'true' ? true : rawValue === 'false' ? false : rawValue;
+        if (Array.isArray(PLATFORM_NODE_DEFAULTS[key])) {
+          template[key] = [...(template[key] as unknown[] ?? []), value];
+        } else {
+          template[key] = value;
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to execute SPARQL query: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return Object.keys(template).length > 0 ? template as MeshRootNodeConfigInput : undefined;
+  }
+
   private async getConfigValueFromSparql(sparql: string, variable: string): Promise<string | undefined> {
     if (!this.bundle.engine) {
       throw new Error('SPARQL engine not initialized in Quadstore bundle');
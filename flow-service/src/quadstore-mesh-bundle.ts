@@ -0,0 +1,67 @@
+/**
+ * Mesh Quadstore Bundle
+ *
+ * The quadstore holding mesh graphs and caches. Unlike `defaultQuadstoreBundle`, which holds
+ * the config graphs and has to exist before the service config is loaded, it is opened once
+ * the config is available, with the backend selected by `fsvc:quadstoreBackend`. With a
+ * persistent backend its graphs survive restarts.
+ */
+
+import type { QuadstoreBundle } from '../../flow-core/src/types.ts';
+import {
+  closeQuadstoreBundle,
+  createQuadstoreBundle,
+  type QuadstoreBundleOptions,
+} from '../../flow-core/src/utils/quadstore/quadstore-factory.ts';
+import { singletonServiceConfigAccessor as config } from './config/resolution/service-config-accessor.ts';
+import { logger } from './utils/service-logger.ts';
+
+let meshQuadstoreBundle: QuadstoreBundle | undefined;
+
+/**
+ * Opens the mesh quadstore, closing a previously opened one.
+ *
+ * @param options - Backend and data directory; `fsvc:quadstoreBackend` and
+ *   `fsvc:quadstoreDataDirectory` by default
+ */
+export async function initializeMeshQuadstoreBundle(
+  options?: QuadstoreBundleOptions,
+): Promise<QuadstoreBundle> {
+  const backend = options?.backend ?? await config.getQuadstoreBackend() ?? 'memory';
+  const dataDirectory = options?.dataDirectory ??
+    (backend === 'memory' ? undefined : await config.getQuadstoreDataDirectory());
+
+  await closeMeshQuadstoreBundle();
+  meshQuadstoreBundle = await createQuadstoreBundle({ backend, dataDirectory });
+  logger.info(`Opened the mesh quadstore with the '${backend}' backend`, {
+    operation: 'quadstore-open',
+    metadata: { backend, ...(backend === 'memory' ? {} : { dataDirectory }) },
+  });
+  return meshQuadstoreBundle;
+}
+
+/**
+ * Returns the mesh quadstore.
+ *
+ * @throws Error if `initializeMeshQuadstoreBundle` has not been called
+ */
+export function getMeshQuadstoreBundle(): QuadstoreBundle {
+  if (!meshQuadstoreBundle) {
+    throw new Error('The mesh quadstore has not been initialized');
+  }
+  return meshQuadstoreBundle;
+}
+
+export function isMeshQuadstoreBundleOpen(): boolean {
+  return meshQuadstoreBundle !== undefined;
+}
+
+/**
+ * Closes the mesh quadstore, if open, so a persistent backend releases its data directory.
+ */
+export async function closeMeshQuadstoreBundle(): Promise<void> {
+  if (!meshQuadstoreBundle) return;
+  const bundle = meshQuadstoreBundle;
+  meshQuadstoreBundle = undefined;
+  await closeQuadstoreBundle(bundle);
+}
@@ -0,0 +1,136 @@
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
+import { logger } from '../utils/service-logger.ts';
+import { join } from '../../../flow-core/src/deps.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import { getMeshPath } from '../utils/mesh-utils.ts';
+import { MeshNotFoundError } from '../utils/errors.ts';
+import {
+  type DefaultAssetChange,
+  planDefaultAssetsUpgrade,
+  upgradeDefaultAssets,
+} from '../services/default-assets.ts';
+
+// Counts the default assets per upgrade action
+const summarizeAssetChanges = (changes: DefaultAssetChange[]) => ({
+  added: changes.filter((change) => change.action === 'create').length,
+  updated: changes.filter((change) => change.action === 'overwrite').length,
+  kept: changes.filter((change) => change.action === 'keep').length,
+});
+
+export const createMeshAssetsRoutes = (): OpenAPIHono => {
+  const meshAssets = new OpenAPIHono();
+
+  const DefaultAssetChange = z.object({
+    path: z.string().openapi({
+      description: `Path of the asset, relative to the mesh root's ${MESH.ASSETS_DIR} folder.`,
+      example: 'css/default-resource-page.css',
+    }),
+    status: z.enum(['missing', 'up-to-date', 'outdated', 'customized']).openapi({
+      description:
+        'missing: not present yet; up-to-date: identical to the default; outdated: an earlier, unmodified default; customized: changed in the mesh, never overwritten.',
+    }),
+    action: z.enum(['create', 'overwrite', 'keep']),
+  });
+
+  const AssetsUpgradeResponse = z.object({
+    message: z.string(),
+    meshName: z.string(),
+    dryRun: z.boolean(),
+    summary: z.object({
+      added: z.number().int(),
+      updated: z.number().int(),
+      kept: z.number().int(),
+    }),
+    changes: z.array(DefaultAssetChange),
+  });
+
+  const ErrorResponse = z.object({
+    error: z.string(),
+    message: z.string(),
+  });
+
+  const upgradeAssetsRoute = createRoute({
+    method: 'post',
+    path: '/meshes/{meshName}/assets/upgrade',
+    tags: ['Mesh Management'],
+    summary: "Upgrade a mesh's default assets",
+    description:
+      "Adds missing default assets (resource page template, stylesheet, favicon, README) to the mesh root's assets folder and replaces those still holding an earlier default. Customized assets are kept.",
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+      }),
+      query: z.object({
+        dryRun: z.enum(['true', 'false']).optional().openapi({
+          description:
+            'If true, reports what the upgrade would change without writing anything.',
+          example: 'true',
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'The change made, or planned, for each default asset.',
+        content: {
+          'application/json': {
+            schema: AssetsUpgradeResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshAssets.openapi(upgradeAssetsRoute, async (c) => {
+    const { meshName } = c.req.valid('param');
+    const dryRun = c.req.valid('query').dryRun === 'true';
+
+    let meshPath;
+    try {
+      meshPath = getMeshPath(meshName);
+    } catch (error) {
+      if (error instanceof MeshNotFoundError) {
+        return c.json({ error: 'Not Found', message: error.message }, 404);
+      }
+      throw error;
+    }
+
+    const assetsPath = join(meshPath, MESH.ASSETS_DIR);
+    logger.info(
+      `${dryRun ? 'Planning' : 'Running'} default assets upgrade for mesh '${meshName}'`,
+      {
+        operation: 'api-request',
+        component: 'mesh-management',
+        meshName,
+        metadata: { assetsPath, dryRun },
+      },
+    );
+
+    const changes = dryRun
+      ? await planDefaultAssetsUpgrade(assetsPath)
+      : await upgradeDefaultAssets(assetsPath);
+    const summary = summarizeAssetChanges(changes);
+
+    return c.json({
+      message: dryRun
+        ? `Default assets upgrade planned for mesh '${meshName}': ${summary.added} to add, ${summary.updated} to update.`
+        : `Default assets upgraded for mesh '${meshName}': ${summary.added} added, ${summary.updated} updated.`,
+      meshName,
+      dryRun,
+      summary,
+      changes,
+    }, 200);
+  });
+
+  return meshAssets;
+};
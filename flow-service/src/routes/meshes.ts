@@ -2,19 +2,162 @@ import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
 import { logger } from '../utils/service-logger.ts';
 import {
   getAssetsPath,
-  getCurrentMetaDistPath,
-  getHandlePath,
-  getMetaFlowPath,
-  getNextMetaDistPath,
+  getCurrentDistPath,
 } from '../../../flow-core/src/utils/mesh-path-utils.ts';
 import { normalizeFolderPath } from '../../../flow-core/src/utils/path-utils.ts';
-import { MESH } from '../../../flow-core/src/mesh-constants.ts';
-import { dirname, existsSync, join } from '../../../flow-core/src/deps.ts';
-import { composeMetadataContent } from '../services/metadata-composer.ts';
-import { initializeMeshRegistry, meshRegistry } from '../utils/mesh-utils.ts';
+import {
+  apiNodePathToFileSystemPath,
+  fileSystemPathToApiNodePath,
+  isValidApiNodePath,
+} from '../../../flow-core/src/utils/api-param-path-utils.ts';
+import { serializeJsonLdAs } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import { MESH, NODE_TYPES } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  dirname,
+  existsSync,
+  join,
+  relative,
+  resolve,
+  toFileUrl,
+} from '../../../flow-core/src/deps.ts';
+import { scaffoldNode } from '../services/node-creation.ts';
+import { copyDefaultAssets } from '../services/default-assets.ts';
+import { composeNodeListing, composeNodeSummary } from '../services/node-summary.ts';
+import { deleteNodeTree, recordNodeDeletion } from '../services/node-deletion.ts';
+import { moveNode } from '../services/node-move.ts';
+import { updateNodeMeta } from '../services/node-meta-update.ts';
+import { refreshMeshIndex } from '../services/mesh-indexer.ts';
+import { withMeshWeaveLock } from '../services/weave-processor.ts';
+import { parseJsonLdSnapshot } from '../services/dataset-composer.ts';
+import {
+  NODE_DATA_MEDIA_TYPES,
+  type NodeDataMediaType,
+  updateNodeData,
+} from '../services/node-data-update.ts';
+import {
+  discoverMeshNodes,
+  hasNodeSignature,
+  isPathWithin,
+  isTombstone,
+  meshRegistry,
+  registerMesh,
+  type ResolvedNode,
+  resolveMeshNodePath,
+  resolveNodeSpecifier,
+  unregisterMesh,
+} from '../utils/mesh-utils.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import { resolveEffectiveNodeConfig } from '../config/resolution/node-config-resolver.ts';
+import { validateMeshRootNodeConfigInput } from '../config/resolution/node-config-validator.ts';
+import {
+  loadMeshRootNodeConfig,
+  saveMeshRootNodeConfig,
+} from '../config/loaders/jsonld-loader.ts';
+import { ConfigValidationError } from '../config/config-types.ts';
+import { DEFAULT_CONTEXT } from '../config/defaults.ts';
+import { singletonServiceConfigAccessor } from '../config/resolution/service-config-accessor.ts';
+import {
+  MeshNotFoundError,
+  NodeNotFoundError,
+  ValidationError,
+  WeaveError,
+} from '../utils/errors.ts';
 
 //import { Context } from '@hono/hono';
 
+// Media types in which the current meta of a node can be requested instead of its summary
+const NODE_META_MEDIA_TYPES = ['application/ld+json', 'application/trig'] as const;
+
+/**
+ * Returns the API path of a node, e.g. `/api/meshes/ns/nodes/djradon~underbrush`, using
+ * '~' for the root node.
+ *
+ * @param relativeNodePath - Node path relative to the mesh root ('' for the root node)
+ */
+function getNodeApiHref(meshName: string, relativeNodePath: string): string {
+  const apiNodePath = fileSystemPathToApiNodePath(relativeNodePath) ||
+    MESH.API_IDENTIFIER_PATH_SEPARATOR;
+  return `/api/meshes/${meshName}/nodes/${apiNodePath}`;
+}
+
+// The number of levels a node is below the mesh root
+function getNodeDepth(relativeNodePath: string): number {
+  return relativeNodePath.split('/').filter((segment) => segment).length;
+}
+
+// Orders relative node paths as in a tree view: parents before children, siblings by slug
+function compareNodePaths(a: string, b: string): number {
+  const aSegments = a.split('/').filter((segment) => segment);
+  const bSegments = b.split('/').filter((segment) => segment);
+  for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+    if (aSegments[i] !== bSegments[i]) {
+      return aSegments[i] < bSegments[i] ? -1 : 1;
+    }
+  }
+  return aSegments.length - bSegments.length;
+}
+
+// Picks the meta media type listed first in an Accept header, if any
+function negotiateNodeMetaMediaType(
+  accept: string | undefined,
+): typeof NODE_META_MEDIA_TYPES[number] | undefined {
+  const acceptedTypes = (accept ?? '').split(',').map((part) =>
+    part.split(';')[0].trim()
+  );
+  return acceptedTypes.find((type) =>
+    (NODE_META_MEDIA_TYPES as readonly string[]).includes(type)
+  ) as typeof NODE_META_MEDIA_TYPES[number] | undefined;
+}
+
+// Copies a JSON-LD object as plain JSON, since its type admits undefined values
+function toPlainJson(value: object): Record<string, unknown>;
+function toPlainJson(value: object | null): Record<string, unknown> | null;
+function toPlainJson(value: object | null): Record<string, unknown> | null {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Whether a request body is declared as JSON, e.g. application/json or application/ld+json;
+// the JSON validator lets any other body through as `{}`
+function isJsonContentType(contentType: string | undefined): boolean {
+  return /^application\/([\w.-]+\+)?json\s*(;|$)/i.test(contentType ?? '');
+}
+
+// The specifier of a node addressed by mesh name and API node path, '~' being the root node
+function getNodeSpecifier(meshName: string, apiNodePath: string | undefined): string {
+  return apiNodePath && apiNodePath !== MESH.API_IDENTIFIER_PATH_SEPARATOR
+    ? `${meshName}${MESH.API_IDENTIFIER_PATH_SEPARATOR}${apiNodePath}`
+    : meshName;
+}
+
+type NodeResolution =
+  | { readonly node: ResolvedNode }
+  | { readonly status: 400 | 404; readonly error: string; readonly message: string };
+
+/**
+ * Resolves the node a route addresses and maps failures, including node paths leading
+ * outside the mesh, to the error responses of the node routes.
+ *
+ * @param apiNodePath - The node path relative to the mesh root; '~' or undefined for the root
+ */
+async function resolveRouteNode(
+  meshName: string,
+  apiNodePath: string | undefined,
+): Promise<NodeResolution> {
+  let node: ResolvedNode;
+  try {
+    node = await resolveNodeSpecifier(getNodeSpecifier(meshName, apiNodePath));
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return { status: 400, error: 'Bad Request', message: error.message };
+    }
+    if (error instanceof MeshNotFoundError || error instanceof NodeNotFoundError) {
+      return { status: 404, error: 'Not Found', message: error.message };
+    }
+    throw error;
+  }
+  return { node };
+}
+
 export const createMeshesRoutes = (): OpenAPIHono => {
   const meshes = new OpenAPIHono();
 
@@ -42,6 +185,12 @@ export const createMeshesRoutes = (): OpenAPIHono => {
     links: z.array(LinkObject),
   });
 
+  // Schema for Mesh Unregistration (DELETE /api/meshes/{meshName})
+  const MeshUnregistrationResponse = z.object({
+    message: z.string(),
+    links: z.array(LinkObject),
+  });
+
   // Schemas for Node Creation (POST /api/meshes/{meshName}/nodes)
   const NodeCreationRequest = z.object({
     apiNodePath: z.string().openapi({
@@ -53,17 +202,34 @@ export const createMeshesRoutes = (): OpenAPIHono => {
         'djradon~underbrush',
       ],
     }),
-    nodeType: z.enum(['Namespace', 'Reference', 'Dataset']).openapi({
+    nodeType: z.enum(NODE_TYPES).openapi({
       description: 'The type of node to create.',
     }),
     initialData: z.record(z.string(), z.unknown()).openapi({
       description: 'An object containing the initial metadata for the node.',
       example: { title: "djradon's primary semantic mesh" },
     }),
+    initialPayload: z.record(z.string(), z.unknown()).optional().openapi({
+      description:
+        "JSON-LD seeding the data flow of a Dataset node. Defaults to an empty graph; only allowed for Dataset nodes.",
+    }),
+    referent: z.object({
+      iri: z.string().url(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+    }).optional().openapi({
+      description:
+        'The resource a Reference node refers to, described in its reference flow. Required for Reference nodes and only allowed for them.',
+      example: { iri: 'https://www.wikidata.org/wiki/Q42', title: 'Douglas Adams' },
+    }),
     options: z.object({
       copyDefaultAssets: z.boolean().optional().openapi({
         description:
-          'If true, copies default assets (templates, CSS) into the mesh. Typically used for root node creation.',
+          'If true, copies the default assets (resource page template, CSS, favicon, README) into the node, keeping existing files. Typically used for root node creation.',
+      }),
+      createIntermediateNodes: z.boolean().optional().openapi({
+        description:
+          'If true, creates missing parent nodes (including the mesh root) as Namespace nodes. Otherwise, creating a node whose parent is not a node fails.',
       }),
     }).optional(),
   });
@@ -71,15 +237,174 @@ export const createMeshesRoutes = (): OpenAPIHono => {
   const NodeCreationResponse = z.object({
     message: z.string(),
     nodePath: z.string(),
+    intermediateNodesCreated: z.array(z.string()).openapi({
+      description: 'API paths of the parent nodes created along with the node.',
+    }),
     filesCreated: z.array(z.string()),
     links: z.array(LinkObject),
   });
 
+  // Schemas for Node Listing (GET /api/meshes/{meshName}/nodes)
+  const NodeListQuery = z.object({
+    nodeType: z.enum(NODE_TYPES).optional().openapi({
+      description: 'Only list nodes of this type.',
+    }),
+    maxDepth: z.coerce.number().int().min(0).optional().openapi({
+      description: 'Only list nodes at most this many levels below the mesh root (depth 0).',
+      example: 1,
+    }),
+    pathPrefix: z.string().optional().openapi({
+      description:
+        "Only list this node and the nodes below it, given as a path relative to the mesh root using '~' as a separator.",
+      example: 'djradon',
+    }),
+    offset: z.coerce.number().int().min(0).optional().openapi({
+      description: 'The number of matching nodes to skip. Defaults to 0.',
+    }),
+    limit: z.coerce.number().int().min(1).max(500).optional().openapi({
+      description: 'The maximum number of nodes to return. Defaults to 100.',
+    }),
+  });
+
+  const NodeListResponse = z.object({
+    meshName: z.string(),
+    total: z.number().openapi({ description: 'The number of matching nodes.' }),
+    offset: z.number(),
+    limit: z.number(),
+    items: z.array(z.object({
+      apiNodePath: z.string(),
+      slug: z.string(),
+      nodeType: z.enum(NODE_TYPES),
+      title: z.string(),
+      depth: z.number(),
+      links: z.array(LinkObject),
+    })),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Node Summary (GET /api/meshes/{meshName}/nodes/{apiNodePath})
+  const NodeSummaryResponse = z.object({
+    meshName: z.string(),
+    apiNodePath: z.string(),
+    slug: z.string(),
+    nodeType: z.enum(NODE_TYPES),
+    title: z.string(),
+    description: z.string(),
+    flows: z.array(z.string()),
+    versions: z.record(z.string(), z.array(z.number())).openapi({
+      description: "Version numbers of each flow's `_vN` snapshots.",
+      example: { meta: [1, 2] },
+    }),
+    distributions: z.array(z.object({
+      path: z.string().openapi({
+        description: 'Path of the file relative to the node folder.',
+        example: '_meta-flow/_current/djradon_meta_current.trig',
+      }),
+      mediaType: z.string(),
+      size: z.number(),
+    })),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Node Deletion (DELETE /api/meshes/{meshName}/nodes/{apiNodePath})
+  const NodeDeletionQuery = z.object({
+    recursive: z.enum(['true', 'false']).optional().openapi({
+      description: 'If true, also deletes every node below the node.',
+      example: 'true',
+    }),
+  });
+
+  const NodeDeletionResponse = z.object({
+    message: z.string(),
+    nodePath: z.string(),
+    filesRemoved: z.array(z.string()),
+    filesUpdated: z.array(z.string()).openapi({
+      description: "The parent's meta snapshot recording the deletion, if any.",
+    }),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Node Move (POST /api/meshes/{meshName}/nodes/{apiNodePath}/move)
+  const NodeMoveRequest = z.object({
+    targetApiNodePath: z.string().openapi({
+      description:
+        "The new path of the node relative to the mesh root, using '~' as a separator. Its parent must be an existing node.",
+      example: 'djradon~archive~underbrush',
+    }),
+  });
+
+  const NodeMoveResponse = z.object({
+    message: z.string(),
+    nodePath: z.string(),
+    previousNodePath: z.string(),
+    moved: z.array(z.object({ from: z.string(), to: z.string() })),
+    filesUpdated: z.array(z.string()),
+    tombstonesCreated: z.array(z.string()),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Node Meta Update (PATCH /api/meshes/{meshName}/nodes/{apiNodePath}/meta)
+  const NodeMetaUpdateResponse = z.object({
+    message: z.string(),
+    nodePath: z.string(),
+    filesUpdated: z.array(z.string()),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Node Data Update (PUT /api/meshes/{meshName}/nodes/{apiNodePath}/data)
+  const NodeDataUpdateResponse = z.object({
+    message: z.string(),
+    nodePath: z.string(),
+    quadCount: z.number().int(),
+    blankNodeWarnings: z.array(z.string()),
+    filesUpdated: z.array(z.string()),
+    links: z.array(LinkObject),
+  });
+
+  // Schemas for Effective Node Config (GET /api/meshes/{meshName}/nodes/{apiNodePath}/config/effective)
+  const NodeConfigSource = z.object({
+    kind: z.enum(['platform-defaults', 'service-template', 'node']),
+    apiNodePath: z.string().optional().openapi({
+      description: "The node whose config supplied the value, '~' for the root node.",
+    }),
+  });
+
+  const EffectiveNodeConfigResponse = z.object({
+    meshName: z.string(),
+    nodePath: z.string(),
+    config: z.record(z.string(), z.unknown()),
+    values: z.record(
+      z.string(),
+      z.object({ value: z.unknown(), source: NodeConfigSource }),
+    ),
+    links: z.array(LinkObject),
+  });
+
   const ErrorResponse = z.object({
     error: z.string(),
     message: z.string(),
   });
 
+  // Schemas for Node Config (GET/PUT /api/meshes/{meshName}/nodes/{apiNodePath}/config)
+  const NodeConfigResponse = z.object({
+    meshName: z.string(),
+    nodePath: z.string(),
+    current: z.record(z.string(), z.unknown()).nullable(),
+    next: z.record(z.string(), z.unknown()).nullable(),
+    links: z.array(LinkObject),
+  });
+
+  const NodeConfigUpdateResponse = z.object({
+    message: z.string(),
+    nodePath: z.string(),
+    filesUpdated: z.array(z.string()),
+    links: z.array(LinkObject),
+  });
+
+  const ConfigValidationErrorResponse = ErrorResponse.extend({
+    errors: z.array(z.string()),
+  });
+
   // Route for Mesh Registration
   const registerMeshRoute = createRoute({
     method: 'post',
@@ -209,11 +534,81 @@ export const createMeshesRoutes = (): OpenAPIHono => {
     }
 
     // Update registry after all validations pass
-    meshRegistry[name] = normalizedParentPath;
+    await registerMesh(name, normalizedParentPath);
+    await refreshMeshIndex(name);
 
     return c.json({ message, links }, 201);
   });
 
+  // Route for Mesh Unregistration
+  const unregisterMeshRoute = createRoute({
+    method: 'delete',
+    path: '/meshes/{meshName}',
+    tags: ['Mesh Management'],
+    summary: 'Unregister a mesh',
+    description:
+      'Removes the mesh from the registry without touching its files. Meshes listed in `fsvc:meshPaths` are registered again at the next startup.',
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'Mesh unregistered successfully.',
+        content: {
+          'application/json': {
+            schema: MeshUnregistrationResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(unregisterMeshRoute, async (c) => {
+    const { meshName } = c.req.valid('param');
+
+    let parentPath;
+    try {
+      parentPath = await unregisterMesh(meshName);
+      await refreshMeshIndex(meshName);
+    } catch (error) {
+      if (error instanceof MeshNotFoundError) {
+        return c.json({ error: 'Not Found', message: error.message }, 404);
+      }
+      throw error;
+    }
+
+    logger.info(`Unregistered mesh '${meshName}' at path: ${parentPath}`, {
+      operation: 'api-request',
+      component: 'mesh-management',
+      metadata: { meshName, parentPath },
+    });
+
+    return c.json({
+      message: `Mesh '${meshName}' unregistered; its files at '${join(parentPath, meshName)}' were left in place.`,
+      links: [
+        {
+          rel: 'register',
+          href: '/api/meshes',
+          method: 'POST',
+          title: 'Register the mesh again',
+        },
+      ],
+    }, 200);
+  });
+
   // Route for Node Creation
   const createNodeRoute = createRoute({
     method: 'post',
@@ -244,6 +639,15 @@ export const createMeshesRoutes = (): OpenAPIHono => {
           },
         },
       },
+      400: {
+        description:
+          'Invalid node path, missing parent nodes, or a payload that does not fit the node type.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
       409: {
         description: 'Node already exists.',
         content: {
@@ -265,9 +669,14 @@ export const createMeshesRoutes = (): OpenAPIHono => {
 
   meshes.openapi(createNodeRoute, async (c) => {
     const { meshName } = c.req.param();
-    const { apiNodePath, nodeType, initialData, options } = c.req.valid('json');
-    const fileSystemNodePath = apiNodePath.replace(/~/g, '/');
-
+    const {
+      apiNodePath,
+      nodeType,
+      initialData,
+      initialPayload,
+      referent,
+      options,
+    } = c.req.valid('json');
     const startTime = new Date().toISOString();
 
     const meshParentPath = meshRegistry[meshName];
@@ -278,12 +687,51 @@ export const createMeshesRoutes = (): OpenAPIHono => {
       }, 404);
     }
 
-    const isRootNode = apiNodePath === '' || apiNodePath === '~';
+    const isRootNode = apiNodePath === '' ||
+      apiNodePath === MESH.API_IDENTIFIER_PATH_SEPARATOR;
+    if (!isRootNode && !isValidApiNodePath(apiNodePath)) {
+      return c.json({
+        error: 'Bad Request',
+        message:
+          `Invalid node path '${apiNodePath}'. Must use valid QName characters and '${MESH.API_IDENTIFIER_PATH_SEPARATOR}' as separator.`,
+      }, 400);
+    }
+    if (initialPayload && nodeType !== 'Dataset') {
+      return c.json({
+        error: 'Bad Request',
+        message: `An initial payload can only be given for Dataset nodes, not ${nodeType} nodes.`,
+      }, 400);
+    }
+    if (referent && nodeType !== 'Reference') {
+      return c.json({
+        error: 'Bad Request',
+        message: `A referent can only be given for Reference nodes, not ${nodeType} nodes.`,
+      }, 400);
+    }
+    if (!referent && nodeType === 'Reference') {
+      return c.json({
+        error: 'Bad Request',
+        message: 'Reference nodes require a referent.',
+      }, 400);
+    }
+
+    const meshPath = join(meshParentPath, meshName);
+    const fileSystemNodePath = isRootNode ? '' : apiNodePathToFileSystemPath(apiNodePath);
+    let nodePath;
+    try {
+      // Checked before any folder is created, intermediate nodes included
+      nodePath = resolveMeshNodePath(meshPath, fileSystemNodePath);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      throw error;
+    }
     const responsePath = isRootNode ? `/${meshName}/` : fileSystemNodePath;
 
     const logMessage = isRootNode
       ? `Attempting to create node at mesh root (${meshName})`
-      : `Attempting to create node in mesh '${meshName}' at path '${fileSystemNodePath}' (physical: ${meshParentPath})`;
+      : `Attempting to create node in mesh '${meshName}' at path '${fileSystemNodePath}' (physical: ${nodePath})`;
     logger.info(logMessage, {
       operation: 'api-request',
       component: 'node-management',
@@ -296,31 +744,7 @@ export const createMeshesRoutes = (): OpenAPIHono => {
       },
     });
 
-    const slug = apiNodePath.split(MESH.API_IDENTIFIER_PATH_SEPARATOR).pop() ||
-      meshName;
-
-    // Check for node existence - fail if either _handle or _meta-flow directories exist
-    const handleDir = join(meshParentPath, getHandlePath(slug));
-    const metaFlowDir = join(meshParentPath, getMetaFlowPath(slug));
-
-    let nodeExists = false;
-    try {
-      await Deno.stat(handleDir);
-      nodeExists = true;
-    } catch (error) {
-      if (!(error instanceof Deno.errors.NotFound)) throw error;
-    }
-
-    if (!nodeExists) {
-      try {
-        await Deno.stat(metaFlowDir);
-        nodeExists = true;
-      } catch (error) {
-        if (!(error instanceof Deno.errors.NotFound)) throw error;
-      }
-    }
-
-    if (nodeExists) {
+    if (await hasNodeSignature(nodePath)) {
       return c.json({
         error: 'Conflict',
         message:
@@ -328,46 +752,51 @@ export const createMeshesRoutes = (): OpenAPIHono => {
       }, 409);
     }
 
-    // This is a simplified implementation for now
-    // It does not yet handle different node types or initialData
-    const filesCreated: string[] = [];
-    const assetsDir = join(meshParentPath, getAssetsPath(slug));
-    const currentMetaDistPath = join(
-      meshParentPath,
-      getCurrentMetaDistPath(slug),
-    );
-    const nextMetaDistPath = join(meshParentPath, getNextMetaDistPath(slug));
-
-    await Deno.mkdir(handleDir, { recursive: true });
-    filesCreated.push(handleDir);
-
-    await Deno.mkdir(metaFlowDir, { recursive: true });
-    filesCreated.push(metaFlowDir);
-
-    const metadataContent = composeMetadataContent(
-      slug,
-      nodeType,
-      initialData,
-      startTime,
-    );
+    // Every ancestor folder, from the mesh root down, must be a node
+    const segments = fileSystemNodePath.split('/').filter((segment) => segment);
+    const missingAncestorPaths: string[] = [];
+    for (let depth = 0; depth < segments.length; depth++) {
+      const ancestorPath = segments.slice(0, depth).join('/');
+      if (!await hasNodeSignature(join(meshPath, ancestorPath))) {
+        missingAncestorPaths.push(ancestorPath);
+      }
+    }
+    if (missingAncestorPaths.length > 0 && !options?.createIntermediateNodes) {
+      return c.json({
+        error: 'Bad Request',
+        message: `Missing parent node(s) ${
+          missingAncestorPaths.map((path) => `'${path || meshName}'`).join(', ')
+        } in mesh '${meshName}'. Create them first, or set options.createIntermediateNodes.`,
+      }, 400);
+    }
 
-    await Deno.mkdir(dirname(currentMetaDistPath), { recursive: true });
-    await Deno.writeTextFile(
-      currentMetaDistPath,
-      JSON.stringify(metadataContent, null, 2),
-    );
-    filesCreated.push(currentMetaDistPath);
+    const filesCreated: string[] = [];
+    for (const ancestorPath of missingAncestorPaths) {
+      filesCreated.push(
+        ...await scaffoldNode(join(meshPath, ancestorPath), {
+          nodeType: 'Namespace',
+          initialData: {},
+          startedAtTime: startTime,
+        }),
+      );
+    }
 
-    await Deno.mkdir(dirname(nextMetaDistPath), { recursive: true });
-    await Deno.writeTextFile(
-      nextMetaDistPath,
-      JSON.stringify(metadataContent, null, 2),
+    filesCreated.push(
+      ...await scaffoldNode(nodePath, {
+        nodeType,
+        initialData,
+        initialPayload,
+        referent,
+        startedAtTime: startTime,
+      }),
     );
-    filesCreated.push(nextMetaDistPath);
 
     if (options?.copyDefaultAssets) {
+      const assetsDir = join(getAssetsPath(nodePath));
       await Deno.mkdir(assetsDir, { recursive: true });
       filesCreated.push(assetsDir);
+      // Existing (possibly customized) assets are never overwritten
+      filesCreated.push(...await copyDefaultAssets(assetsDir));
     }
 
     const message = isRootNode
@@ -375,13 +804,19 @@ export const createMeshesRoutes = (): OpenAPIHono => {
       : `Node created successfully at path '${fileSystemNodePath}' in mesh '${meshName}'.`;
 
     const links: (z.infer<typeof LinkObject>)[] = [
-      { rel: 'self', href: `/api/meshes/${meshName}/nodes${responsePath}` },
+      {
+        rel: 'self',
+        href: getNodeApiHref(meshName, isRootNode ? '' : fileSystemNodePath),
+      },
       { rel: 'mesh', href: `/api/meshes/${meshName}` },
     ];
 
     const response = {
       message,
       nodePath: responsePath,
+      intermediateNodesCreated: missingAncestorPaths.map((path) =>
+        fileSystemPathToApiNodePath(path) || MESH.API_IDENTIFIER_PATH_SEPARATOR
+      ),
       filesCreated,
       links,
     };
@@ -389,5 +824,1059 @@ export const createMeshesRoutes = (): OpenAPIHono => {
     return c.json(response, 201);
   });
 
+  // Route for Node Listing
+  const listNodesRoute = createRoute({
+    method: 'get',
+    path: '/meshes/{meshName}/nodes',
+    tags: ['Node Management'],
+    summary: 'List the nodes of a mesh',
+    description:
+      'Lists the nodes of a mesh in tree order (parents before children, siblings by slug), filtered and paginated.',
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+      }),
+      query: NodeListQuery,
+    },
+    responses: {
+      200: {
+        description: 'A page of matching nodes.',
+        content: {
+          'application/json': {
+            schema: NodeListResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid query parameters.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh not found, or no node at the path prefix.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(listNodesRoute, async (c) => {
+    const { meshName } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 100;
+
+    // The path prefix, if any, must itself be a node; listing starts from it
+    const resolution = await resolveRouteNode(meshName, query.pathPrefix);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { meshPath, nodePath } = resolution.node;
+
+    const candidatePaths = (await discoverMeshNodes(nodePath))
+      .map((path) => relative(meshPath, path))
+      .filter((path) =>
+        query.maxDepth === undefined ||
+        getNodeDepth(path) <= query.maxDepth
+      )
+      .sort(compareNodePaths);
+
+    const items = [];
+    let total = 0;
+    for (const relativeNodePath of candidatePaths) {
+      const listing = await composeNodeListing(join(meshPath, relativeNodePath));
+      if (query.nodeType && listing.nodeType !== query.nodeType) continue;
+      total++;
+      if (total <= offset || items.length >= limit) continue;
+
+      const links: (z.infer<typeof LinkObject>)[] = [
+        { rel: 'self', href: getNodeApiHref(meshName, relativeNodePath) },
+      ];
+      if (relativeNodePath) {
+        const parentPath = dirname(relativeNodePath);
+        links.push({
+          rel: 'parent',
+          href: getNodeApiHref(meshName, parentPath === '.' ? '' : parentPath),
+        });
+      }
+      items.push({
+        apiNodePath: fileSystemPathToApiNodePath(relativeNodePath) ||
+          MESH.API_IDENTIFIER_PATH_SEPARATOR,
+        slug: listing.slug,
+        nodeType: listing.nodeType,
+        title: listing.title,
+        depth: getNodeDepth(relativeNodePath),
+        links,
+      });
+    }
+
+    const getPageHref = (pageOffset: number) => {
+      const params = new URLSearchParams();
+      if (query.nodeType) params.set('nodeType', query.nodeType);
+      if (query.maxDepth !== undefined) params.set('maxDepth', String(query.maxDepth));
+      if (query.pathPrefix) params.set('pathPrefix', query.pathPrefix);
+      params.set('offset', String(pageOffset));
+      params.set('limit', String(limit));
+      return `/api/meshes/${meshName}/nodes?${params}`;
+    };
+    const links: (z.infer<typeof LinkObject>)[] = [
+      { rel: 'self', href: getPageHref(offset) },
+      { rel: 'mesh', href: `/api/meshes/${meshName}` },
+    ];
+    if (offset > 0) {
+      links.push({ rel: 'prev', href: getPageHref(Math.max(0, offset - limit)) });
+    }
+    if (offset + limit < total) {
+      links.push({ rel: 'next', href: getPageHref(offset + limit) });
+    }
+
+    return c.json({ meshName, total, offset, limit, items, links }, 200);
+  });
+
+  // Route for Node Summary
+  const getNodeRoute = createRoute({
+    method: 'get',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}',
+    tags: ['Node Management'],
+    summary: 'Get a node summary, or its current meta',
+    description:
+      "Returns a summary of the node. Requesting `application/ld+json` or `application/trig` returns the node's current meta instead.",
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The path of the node relative to the mesh root, using '~' as a separator. Use '~' for the root node.",
+          examples: ['~', 'djradon', 'djradon~underbrush'],
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'The node summary, or its current meta.',
+        content: {
+          'application/json': {
+            schema: NodeSummaryResponse,
+          },
+          'application/ld+json': {
+            schema: z.record(z.string(), z.unknown()),
+          },
+          'application/trig': {
+            schema: z.string(),
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found, or the node has no current meta.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      500: {
+        description: 'The current meta of the node is not a JSON-LD object.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(getNodeRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    const nodeSpecifier = getNodeSpecifier(meshName, apiNodePath);
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { meshPath, nodePath, relativeNodePath } = resolution.node;
+
+    const metaMediaType = negotiateNodeMetaMediaType(c.req.header('Accept'));
+    if (metaMediaType) {
+      const jsonLdPath = join(getCurrentDistPath(nodePath, MESH.META));
+      const jsonLdContent = await readTextFileIfExists(jsonLdPath);
+      if (jsonLdContent === undefined) {
+        return c.json({
+          error: 'Not Found',
+          message: `Node '${nodeSpecifier}' has no current meta distribution.`,
+        }, 404);
+      }
+
+      let meta;
+      try {
+        meta = parseJsonLdSnapshot(jsonLdContent, jsonLdPath);
+      } catch (error) {
+        if (!(error instanceof WeaveError)) throw error;
+        logger.error(error.message);
+        return c.json({
+          error: 'Internal Server Error',
+          message: `The current meta distribution of node '${nodeSpecifier}' is not a JSON-LD object.`,
+        }, 500);
+      }
+
+      let content = jsonLdContent;
+      if (metaMediaType === 'application/trig') {
+        // Serve the woven TriG distribution, or serialize the JSON-LD if there is none yet
+        const trigPath = join(getCurrentDistPath(nodePath, MESH.META, metaMediaType));
+        content = await readTextFileIfExists(trigPath) ??
+          await serializeJsonLdAs(meta, metaMediaType, toFileUrl(resolve(trigPath)).href);
+      }
+      return c.body(content, 200, { 'Content-Type': metaMediaType });
+    }
+
+    const summary = await composeNodeSummary(nodePath);
+
+    const links: (z.infer<typeof LinkObject>)[] = [
+      { rel: 'self', href: getNodeApiHref(meshName, relativeNodePath) },
+      { rel: 'mesh', href: `/api/meshes/${meshName}` },
+    ];
+    if (relativeNodePath) {
+      const parentPath = dirname(relativeNodePath);
+      links.push({
+        rel: 'parent',
+        href: getNodeApiHref(meshName, parentPath === '.' ? '' : parentPath),
+      });
+    }
+    for (const childNodePath of summary.childNodePaths) {
+      links.push({
+        rel: 'child',
+        href: getNodeApiHref(meshName, relative(meshPath, childNodePath)),
+      });
+    }
+
+    return c.json({
+      meshName,
+      apiNodePath: fileSystemPathToApiNodePath(relativeNodePath) ||
+        MESH.API_IDENTIFIER_PATH_SEPARATOR,
+      slug: summary.slug,
+      nodeType: summary.nodeType,
+      title: summary.title,
+      description: summary.description,
+      flows: summary.flows,
+      versions: summary.versions,
+      distributions: summary.distributions,
+      links,
+    }, 200);
+  });
+
+  // Route for Node Deletion
+  const deleteNodeRoute = createRoute({
+    method: 'delete',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}',
+    tags: ['Node Management'],
+    summary: 'Delete a node',
+    description:
+      "Removes the node's handle, flows, assets and generated files, and records the deletion in the parent node's meta. Folders that are not mesh nodes are kept.",
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The path of the node relative to the mesh root, using '~' as a separator.",
+          examples: ['djradon', 'djradon~underbrush'],
+        }),
+      }),
+      query: NodeDeletionQuery,
+    },
+    responses: {
+      200: {
+        description: 'Node deleted successfully.',
+        content: {
+          'application/json': {
+            schema: NodeDeletionResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path, or the mesh root node.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      409: {
+        description: 'The node has child nodes and `recursive` is not set.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(deleteNodeRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    const recursive = c.req.valid('query').recursive === 'true';
+    const startTime = new Date().toISOString();
+
+    if (apiNodePath === MESH.API_IDENTIFIER_PATH_SEPARATOR) {
+      return c.json({
+        error: 'Bad Request',
+        message: `The root node of mesh '${meshName}' cannot be deleted.`,
+      }, 400);
+    }
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { meshPath, nodePath, relativeNodePath } = resolution.node;
+
+    // A recursive delete must never reach the mesh root or anything outside the mesh
+    if (!isPathWithin(meshPath, nodePath) || resolve(nodePath) === resolve(meshPath)) {
+      return c.json({
+        error: 'Bad Request',
+        message: `Node '${apiNodePath}' is not a node below the root of mesh '${meshName}'.`,
+      }, 400);
+    }
+
+    const descendantCount = (await discoverMeshNodes(nodePath)).length - 1;
+    if (descendantCount > 0 && !recursive) {
+      return c.json({
+        error: 'Conflict',
+        message:
+          `Node '${apiNodePath}' in mesh '${meshName}' has ${descendantCount} node(s) below it. Pass recursive=true to delete them too.`,
+      }, 409);
+    }
+
+    logger.info(
+      `Deleting node '${apiNodePath}' in mesh '${meshName}'${recursive ? ' recursively' : ''}`,
+      {
+        operation: 'api-request',
+        component: 'node-management',
+        metadata: { meshName, apiNodePath, nodePath, recursive },
+      },
+    );
+
+    const filesRemoved = await deleteNodeTree(nodePath);
+    const updatedMetaPath = await recordNodeDeletion(nodePath, startTime);
+    // Drops the graphs of the deleted nodes
+    await refreshMeshIndex(meshName);
+
+    const parentPath = dirname(relativeNodePath);
+    const links: (z.infer<typeof LinkObject>)[] = [
+      {
+        rel: 'parent',
+        href: getNodeApiHref(meshName, parentPath === '.' ? '' : parentPath),
+      },
+      { rel: 'mesh', href: `/api/meshes/${meshName}` },
+    ];
+
+    return c.json({
+      message: `Node deleted successfully at path '${relativeNodePath}' in mesh '${meshName}'.`,
+      nodePath: relativeNodePath,
+      filesRemoved,
+      filesUpdated: updatedMetaPath ? [updatedMetaPath] : [],
+      links,
+    }, 200);
+  });
+
+  // Route for Node Move
+  const moveNodeRoute = createRoute({
+    method: 'post',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/move',
+    tags: ['Node Management'],
+    summary: 'Move or rename a node',
+    description:
+      'Moves a node and the nodes below it within the mesh, rewriting relative identifiers in the snapshots of every node, and leaves a tombstone redirecting from each old handle. Generated datasets and resource pages are updated by the next weave.',
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The current path of the node relative to the mesh root, using '~' as a separator.",
+          example: 'djradon~underbrush',
+        }),
+      }),
+      body: {
+        content: {
+          'application/json': {
+            schema: NodeMoveRequest,
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Node moved successfully.',
+        content: {
+          'application/json': {
+            schema: NodeMoveResponse,
+          },
+        },
+      },
+      400: {
+        description:
+          'Invalid node path, the mesh root node, a target inside the node, or a target whose parent is not a node.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      409: {
+        description: 'The target path already exists.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(moveNodeRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    const { targetApiNodePath } = c.req.valid('json');
+
+    if (apiNodePath === MESH.API_IDENTIFIER_PATH_SEPARATOR) {
+      return c.json({
+        error: 'Bad Request',
+        message: `The root node of mesh '${meshName}' cannot be moved.`,
+      }, 400);
+    }
+    if (!isValidApiNodePath(targetApiNodePath)) {
+      return c.json({
+        error: 'Bad Request',
+        message:
+          `Invalid target path '${targetApiNodePath}'. Must use valid QName characters and '${MESH.API_IDENTIFIER_PATH_SEPARATOR}' as separator.`,
+      }, 400);
+    }
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { meshPath, nodePath, relativeNodePath } = resolution.node;
+
+    const targetRelativeNodePath = apiNodePathToFileSystemPath(targetApiNodePath);
+    if (
+      !targetRelativeNodePath ||
+      !isPathWithin(meshPath, join(meshPath, targetRelativeNodePath))
+    ) {
+      return c.json({
+        error: 'Bad Request',
+        message: `Target path '${targetApiNodePath}' is not a path below the root of mesh '${meshName}'.`,
+      }, 400);
+    }
+    const targetNodePath = join(meshPath, targetRelativeNodePath);
+    if (
+      targetRelativeNodePath === relativeNodePath ||
+      targetRelativeNodePath.startsWith(`${relativeNodePath}/`)
+    ) {
+      return c.json({
+        error: 'Bad Request',
+        message: `Node '${apiNodePath}' cannot be moved to itself or below itself.`,
+      }, 400);
+    }
+    if (existsSync(targetNodePath) && !await isTombstone(targetNodePath)) {
+      return c.json({
+        error: 'Conflict',
+        message: `Path '${targetApiNodePath}' already exists in mesh '${meshName}'.`,
+      }, 409);
+    }
+    if (!await hasNodeSignature(dirname(targetNodePath))) {
+      return c.json({
+        error: 'Bad Request',
+        message: `The parent of '${targetApiNodePath}' is not a node of mesh '${meshName}'.`,
+      }, 400);
+    }
+
+    logger.info(
+      `Moving node '${apiNodePath}' to '${targetApiNodePath}' in mesh '${meshName}'`,
+      {
+        operation: 'api-request',
+        component: 'node-management',
+        metadata: { meshName, apiNodePath, targetApiNodePath, nodePath, targetNodePath },
+      },
+    );
+
+    const result = await moveNode(meshPath, nodePath, targetNodePath);
+    // Moves the graphs of the moved nodes to their new names
+    await refreshMeshIndex(meshName);
+
+    return c.json({
+      message:
+        `Node moved successfully from '${relativeNodePath}' to '${targetRelativeNodePath}' in mesh '${meshName}'.`,
+      nodePath: targetRelativeNodePath,
+      previousNodePath: relativeNodePath,
+      ...result,
+      links: [
+        { rel: 'self', href: getNodeApiHref(meshName, targetRelativeNodePath) },
+        { rel: 'mesh', href: `/api/meshes/${meshName}` },
+      ],
+    }, 200);
+  });
+
+  // Route for Node Meta Update
+  const updateNodeMetaRoute = createRoute({
+    method: 'patch',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/meta',
+    tags: ['Node Management'],
+    summary: "Update a node's metadata",
+    description:
+      "Applies a JSON merge patch to the node's mesh:Node entry, or merges a JSON-LD fragment into the meta by `@id`, and records a meta:NodeUpdate activity. Changes are written to the `_next` meta snapshot; `_current` is updated by the next weave.",
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The path of the node relative to the mesh root, using '~' as a separator. Use '~' for the root node.",
+          example: 'djradon~underbrush',
+        }),
+      }),
+      body: {
+        required: true,
+        content: {
+          'application/merge-patch+json': {
+            schema: z.record(z.string(), z.unknown()).openapi({
+              example: { 'dcterms:title': 'Underbrush', 'dcterms:description': null },
+            }),
+          },
+          'application/ld+json': {
+            schema: z.record(z.string(), z.unknown()),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Metadata updated in the `_next` meta snapshot.',
+        content: {
+          'application/json': {
+            schema: NodeMetaUpdateResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path or change.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(updateNodeMetaRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    if (!isJsonContentType(c.req.header('Content-Type'))) {
+      return c.json({
+        error: 'Bad Request',
+        message:
+          'The change must be sent as a JSON object (application/merge-patch+json or application/ld+json).',
+      }, 400);
+    }
+    const change = c.req.valid('json');
+    const format = c.req.header('Content-Type')?.startsWith('application/ld+json')
+      ? 'json-ld'
+      : 'merge-patch';
+    const startTime = new Date().toISOString();
+    const nodeSpecifier = getNodeSpecifier(meshName, apiNodePath);
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { nodePath, relativeNodePath } = resolution.node;
+
+    let updatedMetaPath;
+    try {
+      updatedMetaPath = await withMeshWeaveLock(
+        meshName,
+        () => updateNodeMeta(nodePath, change, format, startTime),
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      throw error;
+    }
+
+    return c.json({
+      message: `Metadata of node '${apiNodePath}' in mesh '${meshName}' updated; it is published by the next weave.`,
+      nodePath: relativeNodePath,
+      filesUpdated: [updatedMetaPath],
+      links: [
+        { rel: 'self', href: getNodeApiHref(meshName, relativeNodePath) },
+        { rel: 'weave', href: `/api/weave/${nodeSpecifier}`, method: 'POST' },
+      ],
+    }, 200);
+  });
+
+  // Route for Node Data Update
+  const updateNodeDataRoute = createRoute({
+    method: 'put',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/data',
+    tags: ['Node Management'],
+    summary: "Replace a Dataset node's data",
+    description:
+      'Parses an RDF document in the format given by Content-Type (Turtle, TriG, N-Triples, N-Quads or JSON-LD) and writes it to the `_next` data snapshot of a Dataset node. The response reports the number of quads and warns about quads with blank nodes. `_current` is updated by the next weave.',
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The path of the node relative to the mesh root, using '~' as a separator. Use '~' for the root node.",
+          example: 'djradon~underbrush',
+        }),
+      }),
+      body: {
+        content: {
+          'text/turtle': {
+            schema: z.string().openapi({
+              example: '<#underbrush> <http://purl.org/dc/terms/title> "Underbrush" .',
+            }),
+          },
+          'application/trig': {
+            schema: z.string(),
+          },
+          'application/n-triples': {
+            schema: z.string(),
+          },
+          'application/n-quads': {
+            schema: z.string(),
+          },
+          'application/ld+json': {
+            schema: z.union([
+              z.record(z.string(), z.unknown()),
+              z.array(z.unknown()),
+            ]),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Data written to the `_next` data snapshot.',
+        content: {
+          'application/json': {
+            schema: NodeDataUpdateResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path, not a Dataset node, or unparseable document.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      415: {
+        description: 'Unsupported Content-Type.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(updateNodeDataRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    const mediaType = c.req.header('Content-Type')?.split(';')[0].trim();
+    if (!(NODE_DATA_MEDIA_TYPES as readonly string[]).includes(mediaType ?? '')) {
+      return c.json({
+        error: 'Unsupported Media Type',
+        message: `Content-Type must be one of: ${NODE_DATA_MEDIA_TYPES.join(', ')}.`,
+      }, 415);
+    }
+    const body = mediaType === 'application/ld+json'
+      ? JSON.stringify(c.req.valid('json'))
+      : await c.req.text();
+    const nodeSpecifier = getNodeSpecifier(meshName, apiNodePath);
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const { nodePath, relativeNodePath } = resolution.node;
+
+    let result;
+    try {
+      result = await withMeshWeaveLock(
+        meshName,
+        () => updateNodeData(nodePath, body, mediaType as NodeDataMediaType),
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      throw error;
+    }
+
+    for (const warning of result.blankNodeWarnings) {
+      logger.warn(warning);
+    }
+
+    return c.json({
+      message: `Data of node '${apiNodePath}' in mesh '${meshName}' updated with ${result.quadCount} quads; it is published by the next weave.`,
+      nodePath: relativeNodePath,
+      quadCount: result.quadCount,
+      blankNodeWarnings: result.blankNodeWarnings,
+      filesUpdated: [result.path],
+      links: [
+        { rel: 'self', href: getNodeApiHref(meshName, relativeNodePath) },
+        { rel: 'weave', href: `/api/weave/${nodeSpecifier}`, method: 'POST' },
+      ],
+    }, 200);
+  });
+
+  // Route for Effective Node Config
+  const getEffectiveNodeConfigRoute = createRoute({
+    method: 'get',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/config/effective',
+    tags: ['Node Management'],
+    summary: "Get a node's effective config",
+    description:
+      "Merges the platform node defaults, the service's `fsvc:rootMeshRootNodeConfigTemplate` and the `_current` configs of the node's ancestors and of the node itself, stopping at the first node whose config disables `conf:configInheritanceEnabled`. Each `conf:` value is annotated with the layer it comes from.",
+    request: {
+      params: z.object({
+        meshName: z.string().openapi({
+          description: 'The logical name of the mesh.',
+          example: 'test-ns',
+        }),
+        apiNodePath: z.string().openapi({
+          description:
+            "The path of the node relative to the mesh root, using '~' as a separator. Use '~' for the root node.",
+          example: 'djradon~underbrush',
+        }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'The effective config of the node.',
+        content: {
+          'application/json': {
+            schema: EffectiveNodeConfigResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(getEffectiveNodeConfigRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const resolvedNode = resolution.node;
+
+    const serviceTemplate = singletonServiceConfigAccessor.isInitialized()
+      ? await singletonServiceConfigAccessor.getRootMeshRootNodeConfigTemplate()
+      : undefined;
+    const { config, sources } = await resolveEffectiveNodeConfig(
+      resolvedNode.meshPath,
+      resolvedNode.relativeNodePath,
+      serviceTemplate,
+    );
+    const effectiveConfig = toPlainJson(config);
+
+    const values = Object.fromEntries(
+      Object.entries(sources).map(([property, source]) => [
+        property,
+        {
+          value: effectiveConfig[property],
+          source: source.kind === 'node'
+            ? {
+              kind: source.kind,
+              apiNodePath: fileSystemPathToApiNodePath(source.nodePath) ||
+                MESH.API_IDENTIFIER_PATH_SEPARATOR,
+            }
+            : { kind: source.kind },
+        },
+      ]),
+    );
+
+    return c.json({
+      meshName,
+      nodePath: resolvedNode.relativeNodePath,
+      config: effectiveConfig,
+      values,
+      links: [
+        { rel: 'self', href: `${getNodeApiHref(meshName, resolvedNode.relativeNodePath)}/config/effective` },
+        { rel: 'node', href: getNodeApiHref(meshName, resolvedNode.relativeNodePath) },
+      ],
+    }, 200);
+  });
+
+  const nodeConfigParams = z.object({
+    meshName: z.string().openapi({
+      description: 'The logical name of the mesh.',
+      example: 'test-ns',
+    }),
+    apiNodePath: z.string().openapi({
+      description:
+        "The path of the node relative to the mesh root, using '~' as a separator. Use '~' for the root node.",
+      example: 'djradon~underbrush',
+    }),
+  });
+
+  // Route for Node Config
+  const getNodeConfigRoute = createRoute({
+    method: 'get',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/config',
+    tags: ['Node Management'],
+    summary: "Get a node's config",
+    description:
+      "Returns the node's own config from its `_current` and `_next` config snapshots, without anything inherited; use `/config/effective` for the merged config.",
+    request: {
+      params: nodeConfigParams,
+    },
+    responses: {
+      200: {
+        description: 'The config snapshots of the node, `null` where there is none.',
+        content: {
+          'application/json': {
+            schema: NodeConfigResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(getNodeConfigRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const resolvedNode = resolution.node;
+
+    const nodeHref = getNodeApiHref(meshName, resolvedNode.relativeNodePath);
+    return c.json({
+      meshName,
+      nodePath: resolvedNode.relativeNodePath,
+      current: toPlainJson(await loadMeshRootNodeConfig(resolvedNode.nodePath, 'current')),
+      next: toPlainJson(await loadMeshRootNodeConfig(resolvedNode.nodePath, 'next')),
+      links: [
+        { rel: 'self', href: `${nodeHref}/config` },
+        { rel: 'effective', href: `${nodeHref}/config/effective` },
+        { rel: 'node', href: nodeHref },
+      ],
+    }, 200);
+  });
+
+  // Route for Node Config Update
+  const updateNodeConfigRoute = createRoute({
+    method: 'put',
+    path: '/meshes/{meshName}/nodes/{apiNodePath}/config',
+    tags: ['Node Management'],
+    summary: "Replace a node's config",
+    description:
+      "Validates the config against the node config shape (known `conf:` properties, supported media types in `conf:distributionFormats`, existing template files) and writes it to the `_next` config snapshot as a `flow:ConfigDistribution`. `_current` is updated by the next weave.",
+    request: {
+      params: nodeConfigParams,
+      body: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: z.record(z.string(), z.unknown()).openapi({
+              example: {
+                'conf:versioningEnabled': false,
+                'conf:distributionFormats': ['application/ld+json', 'text/turtle'],
+              },
+            }),
+          },
+          'application/ld+json': {
+            schema: z.record(z.string(), z.unknown()),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'Config written to the `_next` config snapshot.',
+        content: {
+          'application/json': {
+            schema: NodeConfigUpdateResponse,
+          },
+        },
+      },
+      400: {
+        description: 'Invalid node path or config; `errors` lists every problem found.',
+        content: {
+          'application/json': {
+            schema: z.union([ErrorResponse, ConfigValidationErrorResponse]),
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  meshes.openapi(updateNodeConfigRoute, async (c) => {
+    const { meshName, apiNodePath } = c.req.valid('param');
+    if (!isJsonContentType(c.req.header('Content-Type'))) {
+      return c.json({
+        error: 'Bad Request',
+        message: 'The config must be sent as a JSON object (application/json or application/ld+json).',
+      }, 400);
+    }
+    const input = c.req.valid('json');
+    const nodeSpecifier = getNodeSpecifier(meshName, apiNodePath);
+
+    const resolution = await resolveRouteNode(meshName, apiNodePath);
+    if ('error' in resolution) {
+      return c.json({ error: resolution.error, message: resolution.message }, resolution.status);
+    }
+    const resolvedNode = resolution.node;
+    const { relativeNodePath } = resolvedNode;
+
+    let configPath;
+    try {
+      const config = await validateMeshRootNodeConfigInput(input, resolvedNode.meshPath);
+      configPath = await withMeshWeaveLock(meshName, () =>
+        saveMeshRootNodeConfig(
+          resolvedNode.nodePath,
+          {
+            '@context': DEFAULT_CONTEXT,
+            ...config,
+            '@type': 'flow:ConfigDistribution',
+          },
+          'next',
+        ));
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        return c.json({
+          error: 'Bad Request',
+          message: error.message,
+          errors: error.errors,
+        }, 400);
+      }
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      throw error;
+    }
+
+    const nodeHref = getNodeApiHref(meshName, relativeNodePath);
+    return c.json({
+      message: `Config of node '${apiNodePath}' in mesh '${meshName}' updated; it is published by the next weave.`,
+      nodePath: relativeNodePath,
+      filesUpdated: [configPath],
+      links: [
+        { rel: 'self', href: `${nodeHref}/config` },
+        { rel: 'effective', href: `${nodeHref}/config/effective` },
+        { rel: 'weave', href: `/api/weave/${nodeSpecifier}`, method: 'POST' },
+      ],
+    }, 200);
+  });
+
   return meshes;
 };
@@ -0,0 +1,388 @@
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import { singletonServiceConfigAccessor } from '../config/resolution/service-config-accessor.ts';
+import { meshRegistry } from '../utils/mesh-utils.ts';
+
+interface QueryWidgetExample {
+  readonly label: string;
+  readonly query: string;
+}
+
+// Settings handed to the page script
+interface QueryWidgetSettings {
+  readonly endpoint: string;
+  readonly sparqlEnabled: boolean;
+  readonly meshes: string[];
+  readonly examples: readonly QueryWidgetExample[];
+}
+
+const QUERY_EXAMPLES: readonly QueryWidgetExample[] = [
+  {
+    label: 'Node titles',
+    query: `PREFIX dcterms: <http://purl.org/dc/terms/>
+
+SELECT ?node ?title
+WHERE { ?node dcterms:title ?title }
+ORDER BY ?title
+LIMIT 100`,
+  },
+  {
+    label: 'Graphs and their sizes',
+    query: `SELECT ?graph (COUNT(*) AS ?quads)
+WHERE { GRAPH ?graph { ?s ?p ?o } }
+GROUP BY ?graph
+ORDER BY ?graph`,
+  },
+  {
+    label: 'Classes in use',
+    query: `SELECT ?class (COUNT(DISTINCT ?resource) AS ?resources)
+WHERE { ?resource a ?class }
+GROUP BY ?class
+ORDER BY DESC(?resources)`,
+  },
+  {
+    label: 'Properties in use',
+    query: `SELECT ?property (COUNT(*) AS ?uses)
+WHERE { ?s ?property ?o }
+GROUP BY ?property
+ORDER BY DESC(?uses)`,
+  },
+  {
+    label: 'First statements as a graph',
+    query: `CONSTRUCT { ?s ?p ?o }
+WHERE { ?s ?p ?o }
+LIMIT 50`,
+  },
+];
+
+const PAGE_STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1d2329; background: #f6f7f9; }
+  header { padding: 0.75rem 1.5rem; background: #1d2329; color: #fff; }
+  header h1 { font-size: 1.1rem; margin: 0; }
+  main { display: grid; grid-template-columns: 1fr 18rem; gap: 1rem; padding: 1rem 1.5rem; }
+  section, aside { background: #fff; border: 1px solid #d8dde3; border-radius: 6px; padding: 0.75rem; }
+  label, .hint { font-size: 0.85rem; color: #4a5561; }
+  textarea { width: 100%; box-sizing: border-box; min-height: 14rem; font: 0.9rem/1.4 monospace; }
+  .toolbar { display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: center; margin: 0.5rem 0; }
+  button { padding: 0.35rem 0.9rem; cursor: pointer; }
+  #status { font-size: 0.85rem; color: #4a5561; }
+  #status.error { color: #b3261e; }
+  #results { overflow: auto; max-height: 60vh; }
+  table { border-collapse: collapse; font-size: 0.85rem; }
+  th, td { border: 1px solid #d8dde3; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #eef1f4; position: sticky; top: 0; }
+  pre { margin: 0; font-size: 0.85rem; white-space: pre-wrap; word-break: break-all; }
+  aside h2 { font-size: 0.95rem; margin: 0.75rem 0 0.25rem; }
+  aside h2:first-child { margin-top: 0; }
+  aside ul { list-style: none; margin: 0; padding: 0; }
+  aside li button { width: 100%; text-align: left; margin-bottom: 0.25rem; background: none;
+    border: 1px solid transparent; font: 0.8rem monospace; overflow: hidden; white-space: nowrap;
+    text-overflow: ellipsis; }
+  aside li button:hover { border-color: #d8dde3; background: #eef1f4; }
+  .notice { padding: 0.5rem 0.75rem; background: #fff4e5; border: 1px solid #f0c36d; border-radius: 6px; }
+`;
+
+// Runs in the browser; reads its settings from the #query-widget-settings element
+const PAGE_SCRIPT = `
+(() => {
+  const settings = JSON.parse(document.getElementById('query-widget-settings').textContent);
+  const HISTORY_KEY = 'flow-query-widget-history';
+  const HISTORY_SIZE = 25;
+  const GRAPH_MEDIA_TYPES = 'text/turtle, application/n-quads;q=0.9';
+
+  const editor = document.getElementById('query');
+  const scope = document.getElementById('scope');
+  const view = document.getElementById('view');
+  const rawFormat = document.getElementById('raw-format');
+  const status = document.getElementById('status');
+  const results = document.getElementById('results');
+  let namedGraphs = [];
+
+  const setStatus = (message, isError = false) => {
+    status.textContent = message;
+    status.className = isError ? 'error' : '';
+  };
+
+  const element = (tag, text) => {
+    const node = document.createElement(tag);
+    if (text !== undefined) node.textContent = text;
+    return node;
+  };
+
+  const formatTerm = (term) => {
+    if (!term) return '';
+    if (term.type === 'uri') return '<' + term.value + '>';
+    if (term.type === 'bnode') return '_:' + term.value;
+    if (term['xml:lang']) return JSON.stringify(term.value) + '@' + term['xml:lang'];
+    if (term.datatype && term.datatype !== 'http://www.w3.org/2001/XMLSchema#string') {
+      return JSON.stringify(term.value) + '^^<' + term.datatype + '>';
+    }
+    return term.value;
+  };
+
+  const readHistory = () => {
+    try {
+      return JSON.parse(localStorage.getItem(HISTORY_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  const renderQueryList = (listId, queries) => {
+    const list = document.getElementById(listId);
+    list.replaceChildren(...queries.map(({ label, query }) => {
+      const item = element('li');
+      const button = element('button', label);
+      button.type = 'button';
+      button.title = query;
+      button.addEventListener('click', () => {
+        editor.value = query;
+        editor.focus();
+      });
+      item.append(button);
+      return item;
+    }));
+  };
+
+  const renderHistory = () => {
+    const history = readHistory();
+    renderQueryList('history', history.map((query) => ({
+      label: query.replace(/\\s+/g, ' ').trim(),
+      query,
+    })));
+    document.getElementById('history-empty').hidden = history.length > 0;
+  };
+
+  const remember = (query) => {
+    const history = [query, ...readHistory().filter((entry) => entry !== query)];
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, HISTORY_SIZE)));
+    renderHistory();
+  };
+
+  const post = (query, accept, defaultGraphs = []) => {
+    const body = new URLSearchParams({ query });
+    for (const graph of defaultGraphs) body.append('default-graph-uri', graph);
+    return fetch(settings.endpoint, { method: 'POST', headers: { Accept: accept }, body });
+  };
+
+  // The graphs the selected scope stands for; undefined means every graph
+  const getDefaultGraphs = () => {
+    const separator = scope.value.indexOf(':');
+    const kind = scope.value.slice(0, separator);
+    const name = scope.value.slice(separator + 1);
+    if (kind === 'graph') return [name];
+    if (kind === 'mesh') {
+      return namedGraphs.filter((graph) => {
+        try {
+          return new URL(graph).pathname.startsWith('/meshes/' + name + '/');
+        } catch {
+          return false;
+        }
+      });
+    }
+    return undefined;
+  };
+
+  const loadNamedGraphs = async () => {
+    const response = await post(
+      'SELECT DISTINCT ?graph WHERE { GRAPH ?graph { ?s ?p ?o } } ORDER BY ?graph',
+      'application/sparql-results+json',
+    );
+    if (!response.ok) return;
+    const { results: { bindings } } = await response.json();
+    namedGraphs = bindings.map((row) => row.graph.value);
+
+    const group = document.getElementById('graph-options');
+    group.replaceChildren(...namedGraphs.map((graph) => {
+      const option = element('option', graph);
+      option.value = 'graph:' + graph;
+      return option;
+    }));
+  };
+
+  const renderTable = (json) => {
+    if (typeof json.boolean === 'boolean') {
+      results.replaceChildren(element('pre', String(json.boolean)));
+      return 'ASK: ' + json.boolean;
+    }
+    const variables = json.head.vars;
+    const table = element('table');
+    const head = element('tr');
+    head.append(...variables.map((variable) => element('th', variable)));
+    table.append(head);
+    for (const row of json.results.bindings) {
+      const tableRow = element('tr');
+      tableRow.append(...variables.map((variable) => element('td', formatTerm(row[variable]))));
+      table.append(tableRow);
+    }
+    results.replaceChildren(table);
+    return json.results.bindings.length + ' result(s)';
+  };
+
+  const run = async () => {
+    const query = editor.value.trim();
+    if (!query) return;
+    const defaultGraphs = getDefaultGraphs();
+    if (defaultGraphs && defaultGraphs.length === 0) {
+      setStatus('The selected mesh has no indexed graphs.', true);
+      return;
+    }
+
+    remember(query);
+    setStatus('Running…');
+    const accept = view.value === 'table'
+      ? 'application/sparql-results+json, ' + GRAPH_MEDIA_TYPES
+      : rawFormat.value + ', application/sparql-results+json;q=0.5, ' + GRAPH_MEDIA_TYPES +
+        ';q=0.1';
+    const started = performance.now();
+    try {
+      const response = await post(query, accept, defaultGraphs);
+      const elapsed = Math.round(performance.now() - started) + ' ms';
+      const mediaType = (response.headers.get('Content-Type') ?? '').split(';')[0];
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        results.replaceChildren();
+        setStatus((error.message ?? response.statusText) + ' (' + response.status + ')', true);
+        return;
+      }
+      if (view.value === 'table' && mediaType === 'application/sparql-results+json') {
+        setStatus(renderTable(await response.json()) + ' in ' + elapsed);
+      } else {
+        results.replaceChildren(element('pre', await response.text()));
+        setStatus(mediaType + ' in ' + elapsed);
+      }
+    } catch (error) {
+      setStatus('Request failed: ' + error.message, true);
+    }
+  };
+
+  for (const mesh of settings.meshes) {
+    const option = element('option', mesh);
+    option.value = 'mesh:' + mesh;
+    document.getElementById('mesh-options').append(option);
+  }
+  renderQueryList('examples', settings.examples);
+  renderHistory();
+  editor.value = readHistory()[0] ?? settings.examples[0]?.query ?? '';
+
+  document.getElementById('run').addEventListener('click', run);
+  document.getElementById('clear-history').addEventListener('click', () => {
+    localStorage.removeItem(HISTORY_KEY);
+    renderHistory();
+  });
+  view.addEventListener('change', () => {
+    rawFormat.hidden = view.value !== 'raw';
+  });
+  editor.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      run();
+    }
+  });
+
+  if (settings.sparqlEnabled) {
+    loadNamedGraphs().catch(() => setStatus('Could not list the named graphs.', true));
+  }
+})();
+`;
+
+function renderQueryWidgetPage(settings: QueryWidgetSettings): string {
+  // Keeps the settings from closing the script element they are embedded in
+  const settingsJson = JSON.stringify(settings).replaceAll('<', '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Semantic Flow Query</title>
+  <style>${PAGE_STYLE}</style>
+</head>
+<body>
+  <header><h1>Semantic Flow Query</h1></header>
+  <main>
+    <section>
+      ${
+    settings.sparqlEnabled
+      ? ''
+      : `<p class="notice">The SPARQL endpoint is disabled; enable <code>fsvc:sparqlEnabled</code> to run queries.</p>`
+  }
+      <label for="query">SPARQL query (Ctrl+Enter to run)</label>
+      <textarea id="query" spellcheck="false"></textarea>
+      <div class="toolbar">
+        <button id="run" type="button">Run</button>
+        <label for="scope">Graphs</label>
+        <select id="scope">
+          <option value="all:">All graphs</option>
+          <optgroup id="mesh-options" label="Meshes"></optgroup>
+          <optgroup id="graph-options" label="Named graphs"></optgroup>
+        </select>
+        <label for="view">Show</label>
+        <select id="view">
+          <option value="table">Table</option>
+          <option value="raw">Raw output</option>
+        </select>
+        <select id="raw-format" hidden>
+          <option value="application/sparql-results+json">SPARQL JSON</option>
+          <option value="application/sparql-results+xml">SPARQL XML</option>
+          <option value="text/csv">CSV</option>
+          <option value="text/tab-separated-values">TSV</option>
+          <option value="text/turtle">Turtle</option>
+          <option value="application/n-quads">N-Quads</option>
+        </select>
+        <span id="status"></span>
+      </div>
+      <div id="results"></div>
+    </section>
+    <aside>
+      <h2>Examples</h2>
+      <ul id="examples"></ul>
+      <h2>History</h2>
+      <p id="history-empty" class="hint">Queries you run are listed here.</p>
+      <ul id="history"></ul>
+      <button id="clear-history" type="button">Clear history</button>
+    </aside>
+  </main>
+  <script type="application/json" id="query-widget-settings">${settingsJson}</script>
+  <script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export const createQueryWidgetRoutes = (): OpenAPIHono => {
+  const queryWidget = new OpenAPIHono();
+
+  const queryWidgetRoute = createRoute({
+    method: 'get',
+    path: MESH.QUERY_WIDGET_ROUTE,
+    tags: ['SPARQL'],
+    summary: 'Query widget',
+    description:
+      `A browser page for running SPARQL queries against the ${MESH.SPARQL_ROUTE} endpoint, scoped to all graphs, a mesh or a named graph. Results are shown as a table or as raw output; the page keeps a history of queries in the browser and offers example queries.`,
+    responses: {
+      200: {
+        description: 'The query widget page',
+        content: { 'text/html': { schema: z.string() } },
+      },
+    },
+  });
+
+  queryWidget.openapi(queryWidgetRoute, async (c) => {
+    const sparqlEnabled = singletonServiceConfigAccessor.isInitialized()
+      ? await singletonServiceConfigAccessor.isSparqlEnabled()
+      : true;
+
+    return c.html(
+      renderQueryWidgetPage({
+        endpoint: MESH.SPARQL_ROUTE,
+        sparqlEnabled,
+        meshes: Object.keys(meshRegistry).sort(),
+        examples: QUERY_EXAMPLES,
+      }),
+      200,
+    );
+  });
+
+  return queryWidget;
+};
@@ -0,0 +1,386 @@
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
+import { logger } from '../utils/service-logger.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import { serializeQuads } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import {
+  serializeSparqlBindings,
+  serializeSparqlBoolean,
+  SPARQL_BINDINGS_MEDIA_TYPES,
+  SPARQL_BOOLEAN_MEDIA_TYPES,
+} from '../../../flow-core/src/utils/sparql-results-utils.ts';
+import { singletonServiceConfigAccessor } from '../config/resolution/service-config-accessor.ts';
+import { getMeshQuadstoreBundle, isMeshQuadstoreBundleOpen } from '../quadstore-mesh-bundle.ts';
+import { executeSparqlQuery, type SparqlQueryResult } from '../services/sparql-query.ts';
+import { executeSparqlUpdate } from '../services/sparql-update.ts';
+import {
+  MeshNotFoundError,
+  NodeNotFoundError,
+  SparqlQueryTimeoutError,
+  SparqlUpdateTargetError,
+  ValidationError,
+} from '../utils/errors.ts';
+
+const SPARQL_GRAPH_MEDIA_TYPES = ['text/turtle', 'application/n-quads'] as const;
+
+const DEFAULT_QUERY_TIMEOUT_MS = 30000;
+
+type SparqlAnswer =
+  | { status: 200; content: string; mediaType: string }
+  | { status: 400 | 406 | 503; error: string; message: string };
+
+// Picks the offered media type with the highest quality in an Accept header; offers are
+// listed in order of preference, and a missing Accept header accepts the first one
+function negotiateMediaType<T extends string>(
+  accept: string | undefined,
+  offered: readonly T[],
+): T | undefined {
+  if (!accept?.trim()) return offered[0];
+  const ranges = accept.split(',').map((part) => {
+    const [range, ...parameters] = part.split(';').map((piece) => piece.trim());
+    const qParameter = parameters.find((parameter) => parameter.startsWith('q='));
+    const quality = qParameter ? Number(qParameter.slice(2)) : 1;
+    return { range: range.toLowerCase(), quality: isNaN(quality) ? 0 : quality };
+  });
+
+  let best: { type: T; quality: number } | undefined;
+  for (const type of offered) {
+    const [mainType] = type.split('/');
+    const quality = Math.max(
+      0,
+      ...ranges
+        .filter(({ range }) => range === type || range === `${mainType}/*` || range === '*/*')
+        .map(({ quality }) => quality),
+    );
+    if (quality > 0 && (!best || quality > best.quality)) best = { type, quality };
+  }
+  return best?.type;
+}
+
+export const createSparqlRoutes = (): OpenAPIHono => {
+  const sparql = new OpenAPIHono();
+
+  const ErrorResponse = z.object({
+    error: z.string(),
+    message: z.string(),
+  });
+
+  const QueryParameters = z.object({
+    query: z.string().optional().openapi({
+      description: 'The SPARQL query (SELECT, ASK, CONSTRUCT or DESCRIBE).',
+      example: 'SELECT * WHERE { ?s ?p ?o } LIMIT 10',
+    }),
+    'default-graph-uri': z.union([z.string(), z.array(z.string())]).optional().openapi({
+      description:
+        'A graph to include in the default graph of the query, replacing its FROM clauses; may be repeated.',
+      example: 'http://localhost:31415/meshes/test-ns/djradon/_meta-flow/',
+    }),
+  });
+
+  const resultContent = Object.fromEntries(
+    [...SPARQL_BINDINGS_MEDIA_TYPES, ...SPARQL_GRAPH_MEDIA_TYPES].map((mediaType) => [
+      mediaType,
+      { schema: z.string() },
+    ]),
+  );
+
+  const errorResponses = {
+    400: {
+      description: 'Missing or invalid query',
+      content: { 'application/json': { schema: ErrorResponse } },
+    },
+    406: {
+      description: 'None of the accepted media types can represent the query results',
+      content: { 'application/json': { schema: ErrorResponse } },
+    },
+    503: {
+      description: 'The mesh quadstore is not available, or the query timed out',
+      content: { 'application/json': { schema: ErrorResponse } },
+    },
+  };
+
+  const description =
+    'SPARQL 1.1 Protocol query operation over the graphs of the registered meshes; the default graph is the union of all graphs, unless default-graph-uri parameters are given. SELECT results are returned as SPARQL JSON, XML, CSV or TSV and ASK results as SPARQL JSON or XML; CONSTRUCT and DESCRIBE graphs are returned as Turtle or N-Quads. The format is chosen through the Accept header.';
+
+  const queryGetRoute = createRoute({
+    method: 'get',
+    path: MESH.SPARQL_ROUTE,
+    tags: ['SPARQL'],
+    summary: 'Run a SPARQL query',
+    description,
+    request: { query: QueryParameters },
+    responses: {
+      200: { description: 'Query results', content: resultContent },
+      ...errorResponses,
+    },
+  });
+
+  const queryPostRoute = createRoute({
+    method: 'post',
+    path: MESH.SPARQL_ROUTE,
+    tags: ['SPARQL'],
+    summary: 'Run a SPARQL query',
+    description,
+    request: {
+      body: {
+        content: {
+          'application/sparql-query': { schema: z.string() },
+          'application/x-www-form-urlencoded': { schema: QueryParameters },
+        },
+      },
+    },
+    responses: {
+      200: { description: 'Query results', content: resultContent },
+      ...errorResponses,
+      415: {
+        description: 'The query is not sent as application/sparql-query or a form',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+    },
+  });
+
+  // Runs a query and serializes its results in the negotiated media type
+  const answerQuery = async (
+    query: string | undefined,
+    defaultGraphUris: string[],
+    accept: string | undefined,
+  ): Promise<SparqlAnswer> => {
+    if (!query?.trim()) {
+      return {
+        status: 400,
+        error: 'Bad Request',
+        message: "A SPARQL query is required, as the 'query' parameter or as an application/sparql-query body.",
+      };
+    }
+    if (!isMeshQuadstoreBundleOpen()) {
+      return {
+        status: 503,
+        error: 'Service Unavailable',
+        message: 'The mesh quadstore is not open.',
+      };
+    }
+
+    const timeoutMs = (singletonServiceConfigAccessor.isInitialized()
+      ? await singletonServiceConfigAccessor.getSparqlQueryTimeout()
+      : undefined) ?? DEFAULT_QUERY_TIMEOUT_MS;
+    logger.info('SPARQL query requested', {
+      operation: 'sparql-query',
+      sparqlContext: { query },
+    });
+
+    let result: SparqlQueryResult;
+    try {
+      result = await executeSparqlQuery(
+        query,
+        getMeshQuadstoreBundle(),
+        timeoutMs,
+        defaultGraphUris,
+      );
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return { status: 400, error: 'Bad Request', message: error.message };
+      }
+      if (error instanceof SparqlQueryTimeoutError) {
+        return { status: 503, error: 'Service Unavailable', message: error.message };
+      }
+      throw error;
+    }
+
+    const offered = result.type === 'bindings'
+      ? SPARQL_BINDINGS_MEDIA_TYPES
+      : result.type === 'boolean'
+      ? SPARQL_BOOLEAN_MEDIA_TYPES
+      : SPARQL_GRAPH_MEDIA_TYPES;
+    const mediaType = negotiateMediaType(accept, offered);
+    if (!mediaType) {
+      return {
+        status: 406,
+        error: 'Not Acceptable',
+        message: `The query results are available as: ${offered.join(', ')}.`,
+      };
+    }
+
+    let content: string;
+    if (result.type === 'bindings') {
+      content = serializeSparqlBindings(
+        result.variables,
+        result.rows,
+        mediaType as typeof SPARQL_BINDINGS_MEDIA_TYPES[number],
+      );
+    } else if (result.type === 'boolean') {
+      content = serializeSparqlBoolean(
+        result.value,
+        mediaType as typeof SPARQL_BOOLEAN_MEDIA_TYPES[number],
+      );
+    } else {
+      content = await serializeQuads(
+        result.quads,
+        mediaType as typeof SPARQL_GRAPH_MEDIA_TYPES[number],
+      );
+    }
+    return { status: 200, content, mediaType };
+  };
+
+  sparql.openapi(queryGetRoute, async (c) => {
+    const answer = await answerQuery(
+      c.req.valid('query').query,
+      c.req.queries('default-graph-uri') ?? [],
+      c.req.header('Accept'),
+    );
+    if (answer.status !== 200) {
+      return c.json({ error: answer.error, message: answer.message }, answer.status);
+    }
+    return c.body(answer.content, 200, { 'Content-Type': answer.mediaType });
+  });
+
+  sparql.openapi(queryPostRoute, async (c) => {
+    const contentType = c.req.header('Content-Type') ?? '';
+    let query: string | undefined;
+    let defaultGraphUris: string[];
+    if (contentType.startsWith('application/x-www-form-urlencoded')) {
+      const form = await c.req.parseBody({ all: true });
+      query = typeof form.query === 'string' ? form.query : undefined;
+      defaultGraphUris = [form['default-graph-uri'] ?? []].flat()
+        .filter((value): value is string => typeof value === 'string');
+    } else if (contentType.startsWith('application/sparql-query')) {
+      query = await c.req.text();
+      defaultGraphUris = c.req.queries('default-graph-uri') ?? [];
+    } else {
+      return c.json({
+        error: 'Unsupported Media Type',
+        message: 'Send the query as application/sparql-query or application/x-www-form-urlencoded.',
+      }, 415);
+    }
+
+    const answer = await answerQuery(query, defaultGraphUris, c.req.header('Accept'));
+    if (answer.status !== 200) {
+      return c.json({ error: answer.error, message: answer.message }, answer.status);
+    }
+    return c.body(answer.content, 200, { 'Content-Type': answer.mediaType });
+  });
+
+  return sparql;
+};
+
+export const createSparqlUpdateRoutes = (): OpenAPIHono => {
+  const sparqlUpdate = new OpenAPIHono();
+
+  const ErrorResponse = z.object({
+    error: z.string(),
+    message: z.string(),
+  });
+
+  const UpdateResponse = z.object({
+    message: z.string(),
+    graphs: z.array(z.object({
+      graph: z.string(),
+      path: z.string(),
+      quadCount: z.number(),
+    })),
+  });
+
+  const updateRoute = createRoute({
+    method: 'post',
+    path: MESH.SPARQL_UPDATE_ROUTE,
+    tags: ['SPARQL'],
+    summary: 'Run a SPARQL update on _next snapshots',
+    description:
+      "SPARQL 1.1 Protocol update operation. INSERT and DELETE operations are applied to the _next data or meta snapshots of mesh nodes, whose graphs are named like '{serviceUri}/meshes/{meshName}/{nodePath}/_data-flow/_next/', and the results are written back to the _next snapshot files. Every quad pattern must name such a graph through GRAPH or WITH; updates to _current or _vN graphs are refused.",
+    request: {
+      body: {
+        content: {
+          'application/sparql-update': { schema: z.string() },
+          'application/x-www-form-urlencoded': {
+            schema: z.object({
+              update: z.string().openapi({
+                description: 'The SPARQL update.',
+                example:
+                  'INSERT DATA { GRAPH <http://localhost:31415/meshes/test-ns/djradon/_meta-flow/_next/> { <http://example.org/s> <http://example.org/p> "o" } }',
+              }),
+            }),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: 'The update was applied and the _next snapshots were written',
+        content: { 'application/json': { schema: UpdateResponse } },
+      },
+      400: {
+        description: 'Missing or invalid update, or an operation other than INSERT and DELETE',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+      403: {
+        description: 'The update would change a graph other than a _next snapshot graph',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+      404: {
+        description: 'A targeted mesh or node does not exist',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+      415: {
+        description: 'The update is not sent as application/sparql-update or a form',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+      503: {
+        description: 'The mesh quadstore is not available',
+        content: { 'application/json': { schema: ErrorResponse } },
+      },
+    },
+  });
+
+  sparqlUpdate.openapi(updateRoute, async (c) => {
+    const contentType = c.req.header('Content-Type') ?? '';
+    let update: string | undefined;
+    if (contentType.startsWith('application/x-www-form-urlencoded')) {
+      const form = await c.req.parseBody();
+      update = typeof form.update === 'string' ? form.update : undefined;
+    } else if (contentType.startsWith('application/sparql-update')) {
+      update = await c.req.text();
+    } else {
+      return c.json({
+        error: 'Unsupported Media Type',
+        message: 'Send the update as application/sparql-update or application/x-www-form-urlencoded.',
+      }, 415);
+    }
+
+    if (!update?.trim()) {
+      return c.json({
+        error: 'Bad Request',
+        message: "A SPARQL update is required, as the 'update' parameter or as an application/sparql-update body.",
+      }, 400);
+    }
+    if (!isMeshQuadstoreBundleOpen()) {
+      return c.json({
+        error: 'Service Unavailable',
+        message: 'The mesh quadstore is not open.',
+      }, 503);
+    }
+
+    logger.info('SPARQL update requested', {
+      operation: 'sparql-update',
+      sparqlContext: { query: update },
+    });
+
+    try {
+      const graphs = await executeSparqlUpdate(update, getMeshQuadstoreBundle());
+      return c.json({
+        message: `Updated ${graphs.length} _next snapshot(s)`,
+        graphs,
+      }, 200);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      if (error instanceof SparqlUpdateTargetError) {
+        return c.json({ error: 'Forbidden', message: error.message }, 403);
+      }
+      if (error instanceof MeshNotFoundError || error instanceof NodeNotFoundError) {
+        return c.json({ error: 'Not Found', message: error.message }, 404);
+      }
+      throw error;
+    }
+  });
+
+  return sparqlUpdate;
+};
@@ -0,0 +1,166 @@
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
+import { logger } from '../utils/service-logger.ts';
+import {
+  cancelWeaveJob,
+  getWeaveJob,
+  isFinished,
+  type WeaveJob,
+} from '../services/weave-jobs.ts';
+
+// Public representation of a weave job; internal bookkeeping is left out
+export const toWeaveJobResponse = (job: WeaveJob) => ({
+  id: job.id,
+  nodeSpecifier: job.nodeSpecifier,
+  recursive: job.recursive,
+  state: job.state,
+  cancelRequested: job.cancelRequested,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt,
+  endedAt: job.endedAt,
+  nodes: job.nodes,
+  errors: job.errors,
+  links: [{ rel: 'self', href: `/api/weave/jobs/${job.id}` }],
+});
+
+export const createWeaveJobRoutes = (): OpenAPIHono => {
+  const weaveJobs = new OpenAPIHono();
+
+  const JobIdParam = z.object({
+    jobId: z.string().openapi({
+      description: 'The weave job identifier.',
+    }),
+  });
+
+  const WeaveJobResponse = z.object({
+    id: z.string(),
+    nodeSpecifier: z.string(),
+    recursive: z.boolean(),
+    state: z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']),
+    cancelRequested: z.boolean(),
+    createdAt: z.string(),
+    startedAt: z.string().optional(),
+    endedAt: z.string().optional(),
+    nodes: z.array(z.object({
+      nodePath: z.string(),
+      state: z.enum(['pending', 'running', 'succeeded', 'failed', 'cancelled']),
+      filesChanged: z.array(z.string()),
+    })),
+    errors: z.array(z.object({
+      nodePath: z.string().optional(),
+      message: z.string(),
+    })),
+    links: z.array(z.object({
+      rel: z.string(),
+      href: z.string(),
+    })),
+  });
+
+  const ErrorResponse = z.object({
+    error: z.string(),
+    message: z.string(),
+  });
+
+  const getJobRoute = createRoute({
+    method: 'get',
+    path: '/weave/jobs/{jobId}',
+    tags: ['Weave Process'],
+    summary: 'Get the status and progress of a weave job',
+    request: {
+      params: JobIdParam,
+    },
+    responses: {
+      200: {
+        description: 'The weave job.',
+        content: {
+          'application/json': {
+            schema: WeaveJobResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Weave job not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  weaveJobs.openapi(getJobRoute, (c) => {
+    const { jobId } = c.req.valid('param');
+    const job = getWeaveJob(jobId);
+    if (!job) {
+      return c.json({
+        error: 'Not Found',
+        message: `Weave job '${jobId}' not found.`,
+      }, 404);
+    }
+    return c.json(toWeaveJobResponse(job), 200);
+  });
+
+  const cancelJobRoute = createRoute({
+    method: 'delete',
+    path: '/weave/jobs/{jobId}',
+    tags: ['Weave Process'],
+    summary: 'Cancel a weave job',
+    description:
+      'A queued job is cancelled immediately; a running job stops before weaving its next node.',
+    request: {
+      params: JobIdParam,
+    },
+    responses: {
+      200: {
+        description: 'Cancellation requested.',
+        content: {
+          'application/json': {
+            schema: WeaveJobResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Weave job not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+      409: {
+        description: 'The weave job has already finished.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
+          },
+        },
+      },
+    },
+  });
+
+  weaveJobs.openapi(cancelJobRoute, (c) => {
+    const { jobId } = c.req.valid('param');
+    const job = getWeaveJob(jobId);
+    if (!job) {
+      return c.json({
+        error: 'Not Found',
+        message: `Weave job '${jobId}' not found.`,
+      }, 404);
+    }
+    if (isFinished(job)) {
+      return c.json({
+        error: 'Conflict',
+        message: `Weave job '${jobId}' has already finished (${job.state}).`,
+      }, 409);
+    }
+
+    logger.info(`Cancelling weave job ${jobId}`, {
+      operation: 'api-request',
+      operationId: jobId,
+      component: 'weave-jobs',
+    });
+    return c.json(toWeaveJobResponse(cancelWeaveJob(jobId) ?? job), 200);
+  });
+
+  return weaveJobs;
+};
@@ -1,19 +1,47 @@
 import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi';
 import { logger } from '../utils/service-logger.ts';
 import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import { FLOW_SLUGS } from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { resolveNodeSpecifier } from '../utils/mesh-utils.ts';
+import {
+  MeshNotFoundError,
+  NodeNotFoundError,
+  ValidationError,
+} from '../utils/errors.ts';
+import {
+  weaveNode,
+  weaveNodeTree,
+  withMeshWeaveLock,
+} from '../services/weave-processor.ts';
+import {
+  type NodeWeavePlan,
+  planNodeTreeWeave,
+  planNodeWeave,
+} from '../services/weave-planner.ts';
+import { createWeaveJob } from '../services/weave-jobs.ts';
 
-// Utility function to validate node specifier using QName rules (simplified regex for example)
-const isValidNodeSpecifier = (specifier: string): boolean => {
-  // QName characters: letters, digits, underscore, hyphen, dot, and the separator "~"
-  const qnameRegex = new RegExp(
-    `^[\\w.-]+(${MESH.API_IDENTIFIER_PATH_SEPARATOR}[\\w.-]+)*$`,
-  );
-  return qnameRegex.test(specifier);
-};
-
-// Parse node specifier into segments
-const parseNodeSpecifier = (specifier: string): string[] => {
-  return specifier.split(MESH.API_IDENTIFIER_PATH_SEPARATOR);
+// Summarizes the operations of a weave plan
+const summarizeWeavePlans = (plans: NodeWeavePlan[]) => {
+  const flows = plans.flatMap((plan) => plan.flows);
+  const operations = [
+    ...flows.flatMap((flow) => flow.operations),
+    ...plans.flatMap((plan) => plan.datasets),
+    ...plans.flatMap((plan) => plan.resourcePage ? [plan.resourcePage] : []),
+  ];
+  return {
+    filesToCreate: operations.filter((op) => op.action === 'create').length,
+    filesToOverwrite:
+      operations.filter((op) => op.action === 'overwrite').length,
+    versionsToMint: flows.filter((flow) => flow.version !== undefined).length,
+    distributionsToRegenerate:
+      operations.filter((op) => op.type === 'regenerate-distribution').length,
+    datasetsToGenerate: operations.filter((op) =>
+      op.type === 'generate-unified-dataset' ||
+      op.type === 'generate-aggregated-dataset'
+    ).length,
+    resourcePagesToGenerate:
+      operations.filter((op) => op.type === 'generate-resource-page').length,
+  };
 };
 
 export const createWeaveRoutes = (
@@ -30,24 +58,141 @@ export const createWeaveRoutes = (
     }),
   });
 
+  const FlowWeaveResult = z.object({
+    flow: z.string().openapi({
+      description: `The flow slug, one of: ${FLOW_SLUGS.join(', ')}.`,
+    }),
+    status: z.enum(['updated', 'unchanged', 'skipped']),
+    version: z.number().int().optional().openapi({
+      description: 'The version snapshot minted for this flow, if any.',
+    }),
+    filesChanged: z.array(z.string()),
+  });
+
+  const NodeWeaveResult = z.object({
+    nodePath: z.string(),
+    flows: z.array(FlowWeaveResult),
+    datasets: z.array(z.string()).openapi({
+      description: 'The unified and aggregated dataset files that were (re)written.',
+    }),
+    resourcePage: z.string().optional().openapi({
+      description: 'The resource page, if it was (re)generated.',
+    }),
+    filesChanged: z.array(z.string()),
+  });
+
+  const WeaveOperation = z.object({
+    type: z.enum([
+      'mint-version',
+      'regenerate-distribution',
+      'generate-unified-dataset',
+      'generate-aggregated-dataset',
+      'generate-resource-page',
+    ]),
+    action: z.enum(['create', 'overwrite']),
+    path: z.string(),
+    mediaType: z.string(),
+    version: z.number().int().optional(),
+  });
+
+  const NodeWeavePlan = z.object({
+    nodePath: z.string(),
+    flows: z.array(z.object({
+      flow: z.string(),
+      status: z.enum(['updated', 'unchanged', 'skipped']),
+      version: z.number().int().optional(),
+      operations: z.array(WeaveOperation),
+      quadCounts: z.object({
+        current: z.number().int(),
+        next: z.number().int(),
+        added: z.number().int(),
+        removed: z.number().int(),
+      }).optional(),
+    })),
+    datasets: z.array(WeaveOperation),
+    resourcePage: WeaveOperation.optional(),
+  });
+
+  const WeaveResponse = z.object({
+    message: z.string(),
+    nodeSpecifier: z.string(),
+    nodePath: z.string(),
+    flows: z.array(FlowWeaveResult),
+    filesChanged: z.array(z.string()),
+    nodes: z.array(NodeWeaveResult).optional().openapi({
+      description: 'Per-node results of a recursive weave, in weave order.',
+    }),
+  });
+
+  const WeavePlanResponse = z.object({
+    message: z.string(),
+    nodeSpecifier: z.string(),
+    dryRun: z.literal(true),
+    summary: z.object({
+      filesToCreate: z.number().int(),
+      filesToOverwrite: z.number().int(),
+      versionsToMint: z.number().int(),
+      distributionsToRegenerate: z.number().int(),
+      datasetsToGenerate: z.number().int(),
+      resourcePagesToGenerate: z.number().int(),
+    }),
+    nodes: z.array(NodeWeavePlan).openapi({
+      description: 'Per-node plans, in weave order.',
+    }),
+  });
+
+  const WeaveQuery = z.object({
+    recursive: z.enum(['true', 'false']).optional().openapi({
+      description:
+        'If true, also weaves every node below the specified node, children before parents. Use the mesh name as specifier to weave a whole mesh.',
+      example: 'true',
+    }),
+    async: z.enum(['true', 'false']).optional().openapi({
+      description:
+        'If true, queues the weave as a background job and responds with 202 Accepted and a link to the job. Ignored for dry runs.',
+      example: 'true',
+    }),
+    dryRun: z.enum(['true', 'false']).optional().openapi({
+      description:
+        'If true, returns the planned operations and quad count changes without writing anything. In a recursive dry run, every node is planned against the files on disk, so the datasets planned for a parent node do not reflect the changes planned for its children.',
+      example: 'true',
+    }),
+  });
+
+  const ErrorResponse = z.object({
+    error: z.string(),
+    message: z.string(),
+  });
+
   // Route for triggering weave process on a single node
   const weaveNodeRoute = createRoute({
     method: 'post',
     path: '/weave/:nodeSpecifier',
     tags: ['Weave Process'],
-    summary: 'Trigger the weave process for a specific node',
+    summary: 'Trigger the weave process for a specific node or subtree',
     request: {
       params: NodeSpecifierParam,
-      // For now, no request body; can be extended later for interactive modes or options
+      query: WeaveQuery,
     },
     responses: {
       200: {
-        description: 'Weave process completed successfully.',
+        description:
+          'Weave process completed successfully, or the weave plan for a dry run.',
+        content: {
+          'application/json': {
+            schema: z.union([WeaveResponse, WeavePlanResponse]),
+          },
+        },
+      },
+      202: {
+        description: 'Weave job queued.',
         content: {
           'application/json': {
             schema: z.object({
               message: z.string(),
-              nodeSpecifier: z.string(),
+              jobId: z.string(),
+              state: z.string(),
+              links: z.array(z.object({ rel: z.string(), href: z.string() })),
             }),
           },
         },
@@ -56,10 +201,15 @@ export const createWeaveRoutes = (
         description: 'Invalid node specifier.',
         content: {
           'application/json': {
-            schema: z.object({
-              error: z.string(),
-              message: z.string(),
-            }),
+            schema: ErrorResponse,
+          },
+        },
+      },
+      404: {
+        description: 'Mesh or node not found.',
+        content: {
+          'application/json': {
+            schema: ErrorResponse,
           },
         },
       },
@@ -67,48 +217,121 @@ export const createWeaveRoutes = (
         description: 'Internal server error during weave process.',
         content: {
           'application/json': {
-            schema: z.object({
-              error: z.string(),
-              message: z.string(),
-            }),
+            schema: ErrorResponse,
           },
         },
       },
     },
   });
 
-  weave.openapi(weaveNodeRoute, (c) => {
+  weave.openapi(weaveNodeRoute, async (c) => {
     const { nodeSpecifier } = c.req.param();
+    const query = c.req.valid('query');
+    const recursive = query.recursive === 'true';
+    const dryRun = query.dryRun === 'true';
+    const runAsync = query.async === 'true' && !dryRun;
 
-    if (!isValidNodeSpecifier(nodeSpecifier)) {
-      return c.json({
-        error: 'Bad Request',
-        message:
-          `Invalid node specifier '${nodeSpecifier}'. Must use valid QName characters and '${MESH.API_IDENTIFIER_PATH_SEPARATOR}' as separator.`,
-      }, 400);
+    let resolvedNode;
+    try {
+      resolvedNode = await resolveNodeSpecifier(nodeSpecifier);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return c.json({ error: 'Bad Request', message: error.message }, 400);
+      }
+      if (
+        error instanceof MeshNotFoundError || error instanceof NodeNotFoundError
+      ) {
+        return c.json({ error: 'Not Found', message: error.message }, 404);
+      }
+      throw error;
     }
 
-    const nodeSegments = parseNodeSpecifier(nodeSpecifier);
     logger.info(
-      `Starting weave process for node specifier: ${nodeSpecifier} (segments: ${nodeSegments.join(', ')
-      })`,
+      `Starting weave process for node specifier: ${nodeSpecifier} (path: ${resolvedNode.nodePath})`,
       {
         operation: 'weave',
         component: 'weave-processor',
+        meshName: resolvedNode.meshName,
         metadata: {
           nodeSpecifier,
-          nodeSegments,
+          nodePath: resolvedNode.nodePath,
+          recursive,
+          dryRun,
+          async: runAsync,
         },
       },
     );
 
+    if (runAsync) {
+      const job = createWeaveJob(
+        nodeSpecifier,
+        resolvedNode.meshName,
+        resolvedNode.nodePath,
+        recursive,
+      );
+      const jobHref = `/api/weave/jobs/${job.id}`;
+      c.header('Location', jobHref);
+      return c.json({
+        message: `Weave job queued for '${nodeSpecifier}'.`,
+        jobId: job.id,
+        state: job.state,
+        links: [{ rel: 'job', href: jobHref }],
+      }, 202);
+    }
+
     try {
-      // TODO: Implement the actual weave process logic here
-      // For now, simulate success response
+      if (dryRun) {
+        const plans = recursive
+          ? await planNodeTreeWeave(resolvedNode.nodePath, {
+            includeQuadCounts: true,
+          })
+          : [
+            await planNodeWeave(resolvedNode.nodePath, {
+              includeQuadCounts: true,
+            }),
+          ];
+        const message =
+          `Weave plan computed for ${plans.length} node(s) under '${nodeSpecifier}'. Nothing was written.`;
+        return c.json({
+          message: plans.length > 1
+            ? `${message} Parent nodes are planned against the current distributions of their children, so their aggregated datasets do not include the changes planned for the children.`
+            : message,
+          nodeSpecifier,
+          dryRun: true as const,
+          summary: summarizeWeavePlans(plans),
+          nodes: plans,
+        }, 200);
+      }
+
+      if (!recursive) {
+        const result = await withMeshWeaveLock(
+          resolvedNode.meshName,
+          () => weaveNode(resolvedNode.nodePath),
+        );
+        return c.json({
+          message:
+            `Weave process completed successfully for node '${nodeSpecifier}'.`,
+          nodeSpecifier,
+          nodePath: result.nodePath,
+          flows: result.flows,
+          filesChanged: result.filesChanged,
+        }, 200);
+      }
+
+      const results = await withMeshWeaveLock(
+        resolvedNode.meshName,
+        () => weaveNodeTree(resolvedNode.nodePath),
+      );
+      // Post-order: the specified node itself is woven last
+      const result = results[results.length - 1];
       return c.json({
         message:
-          `Weave process completed successfully for node '${nodeSpecifier}'.`,
+          `Weave process completed successfully for ${results.length} node(s) under '${nodeSpecifier}'.`,
         nodeSpecifier,
+        nodePath: result.nodePath,
+        flows: result.flows,
+        filesChanged: results.flatMap((nodeResult) => nodeResult.filesChanged),
+        nodes: results,
       }, 200);
     } catch (error) {
       logger.error(
@@ -0,0 +1,142 @@
+/**
+ * Dataset Composer
+ *
+ * Composes the generated datasets of a node from its flow snapshots:
+ * - the unified dataset merges the node's data flow with its meta flow
+ * - the aggregated dataset unions the data flows of the node and all of its descendants,
+ *   each in a named graph identified by the data flow's `_current` snapshot folder
+ *
+ * Identifiers of each snapshot are resolved against its `_current` distribution, where it
+ * is published, so the composed quads can be serialized to any location.
+ */
+
+import { DataFactory, join, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { NodeObject, RDF } from '../../../flow-core/src/deps.ts';
+import {
+  type FlowSlug,
+  getCurrentDistPath,
+  getCurrentSnapshotPath,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { getContextPrefixes } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import { WeaveError } from '../utils/errors.ts';
+import { discoverMeshNodes } from '../utils/mesh-utils.ts';
+
+const df = new DataFactory();
+
+export interface ComposedDataset {
+  readonly quads: RDF.Quad[];
+  /** Prefixes declared by the contexts of the source snapshots */
+  readonly prefixes: Record<string, string>;
+}
+
+/**
+ * Composes the unified dataset of a node from the data and meta snapshots its weave
+ * publishes.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns The merged quads, or `undefined` if the node has neither a data nor a meta flow
+ * @throws WeaveError if a snapshot cannot be parsed
+ */
+export async function composeUnifiedDataset(
+  nodePath: string,
+): Promise<ComposedDataset | undefined> {
+  const quads: RDF.Quad[] = [];
+  let prefixes: Record<string, string> = {};
+  let found = false;
+
+  for (const flow of ['data', 'meta'] as const) {
+    const snapshot = await readPublishedSnapshot(nodePath, flow, true);
+    if (!snapshot) continue;
+    found = true;
+    quads.push(
+      ...await jsonldToQuads(snapshot.jsonLd, undefined, snapshot.baseUrl),
+    );
+    prefixes = { ...getContextPrefixes(snapshot.jsonLd), ...prefixes };
+  }
+
+  return found ? { quads, prefixes } : undefined;
+}
+
+/**
+ * Composes the aggregated dataset of a node: the data snapshot its weave publishes, and the
+ * published `_current` data distribution of every descendant node, each in its own named
+ * graph.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns The unioned quads, or `undefined` if no node of the subtree has a data flow
+ * @throws WeaveError if a snapshot cannot be parsed
+ */
+export async function composeAggregatedDataset(
+  nodePath: string,
+): Promise<ComposedDataset | undefined> {
+  const quads: RDF.Quad[] = [];
+  let prefixes: Record<string, string> = {};
+  let found = false;
+
+  for (const subtreeNodePath of await discoverMeshNodes(nodePath)) {
+    const snapshot = await readPublishedSnapshot(
+      subtreeNodePath,
+      'data',
+      subtreeNodePath === nodePath,
+    );
+    if (!snapshot) continue;
+    found = true;
+
+    const graph = df.namedNode(
+      `${toFileUrl(resolve(join(getCurrentSnapshotPath(subtreeNodePath, 'data')))).href}/`,
+    );
+    quads.push(
+      ...await jsonldToQuads(snapshot.jsonLd, graph, snapshot.baseUrl),
+    );
+    prefixes = { ...getContextPrefixes(snapshot.jsonLd), ...prefixes };
+  }
+
+  return found ? { quads, prefixes } : undefined;
+}
+
+/**
+ * Parses the content of a JSON-LD snapshot.
+ *
+ * @throws WeaveError if the content is not a JSON object
+ */
+export function parseJsonLdSnapshot(content: string, path: string): NodeObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new WeaveError(
+      `Invalid JSON in snapshot '${path}': ${error instanceof Error ? error.message : String(error)}`,
+      { path },
+    );
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new WeaveError(`Snapshot '${path}' is not a JSON-LD object.`, { path });
+  }
+  return parsed as NodeObject;
+}
+
+// Reads a flow's `_next` snapshot (if `includeNext`) or else its `_current` distribution
+async function readPublishedSnapshot(
+  nodePath: string,
+  flow: FlowSlug,
+  includeNext: boolean,
+): Promise<{ jsonLd: NodeObject; baseUrl: string } | undefined> {
+  const currentDistPath = join(getCurrentDistPath(nodePath, flow));
+  const candidatePaths = includeNext
+    ? [join(getNextDistPath(nodePath, flow)), currentDistPath]
+    : [currentDistPath];
+
+  for (const path of candidatePaths) {
+    const content = await readTextFileIfExists(path);
+    if (content !== undefined) {
+      return {
+        jsonLd: parseJsonLdSnapshot(content, path),
+        baseUrl: toFileUrl(resolve(currentDistPath)).href,
+      };
+    }
+  }
+  return undefined;
+}
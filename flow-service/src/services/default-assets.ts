@@ -0,0 +1,177 @@
+/**
+ * Default Assets
+ *
+ * The platform bundles a default asset set (resource page template, stylesheet, favicon and
+ * README) that is copied into a mesh root node's `_assets` folder. Each copy is recorded with
+ * its content hash in a manifest inside `_assets`, so that later upgrades can tell files that
+ * still hold a previous default (safe to replace) from files the mesh owner customized
+ * (never overwritten).
+ */
+
+import { fromFileUrl, join, relative } from '../../../flow-core/src/deps.ts';
+import { getComponentLogger } from '../../../flow-core/src/utils/logger/component-logger.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+
+const logger = getComponentLogger(import.meta);
+
+/** The bundled default assets, laid out as they are in a mesh's `_assets` folder */
+export const DEFAULT_ASSETS_URL = new URL('../../default-assets/', import.meta.url);
+
+/** Records the hash of every default asset copied into an `_assets` folder */
+export const DEFAULT_ASSETS_MANIFEST_FILE = '.default-assets.json';
+
+/**
+ * State of a default asset in a mesh's `_assets` folder:
+ * - `missing`: not present; it is added
+ * - `up-to-date`: identical to the bundled default
+ * - `outdated`: holds an earlier default that was never customized; it is replaced
+ * - `customized`: changed by the mesh owner; it is kept
+ */
+export type DefaultAssetStatus =
+  | 'missing'
+  | 'up-to-date'
+  | 'outdated'
+  | 'customized';
+
+export interface DefaultAssetChange {
+  /** Path relative to the `_assets` folder */
+  readonly path: string;
+  readonly status: DefaultAssetStatus;
+  readonly action: 'create' | 'overwrite' | 'keep';
+}
+
+interface DefaultAssetsManifest {
+  files: Record<string, string>;
+}
+
+/**
+ * Copies the default assets that are not present yet into an `_assets` folder. Existing
+ * files are never overwritten.
+ *
+ * @param assetsPath - File system path of the `_assets` folder
+ * @returns File system paths of the files that were created
+ */
+export async function copyDefaultAssets(assetsPath: string): Promise<string[]> {
+  const changes = await planDefaultAssetsUpgrade(assetsPath);
+  const missing = changes.filter((change) => change.status === 'missing');
+  return await applyDefaultAssetChanges(assetsPath, missing);
+}
+
+/**
+ * Compares an `_assets` folder with the bundled default assets.
+ *
+ * @param assetsPath - File system path of the `_assets` folder
+ * @returns One entry per bundled asset, sorted by path
+ */
+export async function planDefaultAssetsUpgrade(
+  assetsPath: string,
+): Promise<DefaultAssetChange[]> {
+  const manifest = await readManifest(assetsPath);
+  const changes: DefaultAssetChange[] = [];
+
+  for (const path of await listDefaultAssets()) {
+    const existingContent = await readTextFileIfExists(join(assetsPath, path));
+    if (existingContent === undefined) {
+      changes.push({ path, status: 'missing', action: 'create' });
+      continue;
+    }
+
+    const existingHash = await hashContent(existingContent);
+    if (existingHash === await hashContent(await readDefaultAsset(path))) {
+      changes.push({ path, status: 'up-to-date', action: 'keep' });
+    } else if (existingHash === manifest.files[path]) {
+      changes.push({ path, status: 'outdated', action: 'overwrite' });
+    } else {
+      changes.push({ path, status: 'customized', action: 'keep' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Upgrades an `_assets` folder to the bundled default assets: missing assets are added and
+ * outdated ones replaced, while customized ones are kept.
+ *
+ * @param assetsPath - File system path of the `_assets` folder
+ * @returns The change made for each bundled asset
+ */
+export async function upgradeDefaultAssets(
+  assetsPath: string,
+): Promise<DefaultAssetChange[]> {
+  const changes = await planDefaultAssetsUpgrade(assetsPath);
+  await applyDefaultAssetChanges(
+    assetsPath,
+    changes.filter((change) => change.action !== 'keep'),
+  );
+  return changes;
+}
+
+async function applyDefaultAssetChanges(
+  assetsPath: string,
+  changes: DefaultAssetChange[],
+): Promise<string[]> {
+  if (changes.length === 0) return [];
+
+  const manifest = await readManifest(assetsPath);
+  const filesWritten: string[] = [];
+  for (const { path } of changes) {
+    const content = await readDefaultAsset(path);
+    const targetPath = join(assetsPath, path);
+    await writeTextFileEnsuringDir(targetPath, content);
+    manifest.files[path] = await hashContent(content);
+    filesWritten.push(targetPath);
+  }
+  await writeTextFileEnsuringDir(
+    join(assetsPath, DEFAULT_ASSETS_MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2),
+  );
+
+  logger.info(
+    `Wrote ${filesWritten.length} default asset(s) to '${assetsPath}'`,
+    { operation: 'default-assets', metadata: { assetsPath, filesWritten } },
+  );
+  return filesWritten;
+}
+
+// Relative paths of the bundled assets, sorted
+async function listDefaultAssets(): Promise<string[]> {
+  const rootPath = fromFileUrl(DEFAULT_ASSETS_URL);
+  const paths: string[] = [];
+  const walk = async (dirPath: string) => {
+    for await (const entry of Deno.readDir(dirPath)) {
+      const entryPath = join(dirPath, entry.name);
+      if (entry.isDirectory) await walk(entryPath);
+      else if (entry.isFile) paths.push(relative(rootPath, entryPath));
+    }
+  };
+  await walk(rootPath);
+  return paths.sort();
+}
+
+async function readDefaultAsset(path: string): Promise<string> {
+  return await Deno.readTextFile(new URL(path, DEFAULT_ASSETS_URL));
+}
+
+async function readManifest(assetsPath: string): Promise<DefaultAssetsManifest> {
+  const content = await readTextFileIfExists(
+    join(assetsPath, DEFAULT_ASSETS_MANIFEST_FILE),
+  );
+  if (content === undefined) return { files: {} };
+  try {
+    const manifest = JSON.parse(content);
+    return { files: { ...manifest?.files } };
+  } catch {
+    // A broken manifest only means that no file counts as an unmodified default
+    return { files: {} };
+  }
+}
+
+async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
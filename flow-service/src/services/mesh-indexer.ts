@@ -0,0 +1,310 @@
+/**
+ * Mesh Indexer
+ *
+ * Loads the `_current` distributions of every flow of every node of the registered meshes
+ * into the mesh quadstore, so SPARQL queries can span whole meshes. Each flow goes into its
+ * own named graph, derived from the service URI of the node's flow folder, e.g.
+ * `http://localhost:31415/meshes/test-ns/djradon/_meta-flow/`.
+ *
+ * Meshes are indexed when the service starts and when they are registered; a node's graphs
+ * are refreshed each time the node is woven. For every flow graph, the index records which
+ * `_current` distribution (modification time and size) it was loaded from, next to the graphs
+ * in the quadstore's database. Indexing a mesh only reloads flows whose distribution changed
+ * since, so a persistent backend does not re-parse a whole mesh on every start.
+ */
+
+import { join, relative, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { QuadstoreBundle } from '../../../flow-core/src/types.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import type { LogContext } from '../../../flow-core/src/utils/logger/logger-types.ts';
+import { getComponentLogger } from '../../../flow-core/src/utils/logger/component-logger.ts';
+import { handleCaughtError } from '../../../flow-core/src/utils/logger/error-handlers.ts';
+import { mergeLogContext } from '../../../flow-core/src/utils/logger/formatters.ts';
+import {
+  FLOW_SLUGS,
+  type FlowSlug,
+  getCurrentDistPath,
+  getFlowDir,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { clearGraph } from '../../../flow-core/src/utils/quadstore/quadstore-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { queryMultipleValues } from '../../../flow-core/src/utils/sparql-utils.ts';
+import { getMeshQuadstoreBundle, isMeshQuadstoreBundleOpen } from '../quadstore-mesh-bundle.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import {
+  discoverMeshNodes,
+  findNodeMesh,
+  getMeshPath,
+  meshRegistry,
+} from '../utils/mesh-utils.ts';
+import { getCurrentServiceUri } from '../utils/service-uri-builder.ts';
+import { parseJsonLdSnapshot } from './dataset-composer.ts';
+
+const logger = getComponentLogger(import.meta);
+
+export interface MeshIndexResult {
+  readonly nodeCount: number;
+  /** Number of quads loaded; flows that were already current are not counted */
+  readonly quadCount: number;
+}
+
+// Sublevel of the quadstore's database mapping flow graph names to the signature of the
+// distribution they were loaded from
+const INDEX_STATE_SUBLEVEL = 'mesh-index';
+
+// Signature recorded for flows without a `_current` distribution
+const NO_DISTRIBUTION = 'none';
+
+/**
+ * Returns the name of the graph holding a node's flow.
+ *
+ * @param relativeNodePath - Node path relative to the mesh root ('' for the root node)
+ */
+export function getFlowGraphUri(
+  meshName: string,
+  relativeNodePath: string,
+  flow: FlowSlug,
+): string {
+  const segments = ['meshes', meshName, relativeNodePath, getFlowDir(flow)];
+  return getCurrentServiceUri(segments.filter((segment) => segment).join('/'));
+}
+
+/**
+ * Returns the name of the graph a node's `_next` snapshot is loaded into while a SPARQL
+ * update is applied to it, e.g. `http://localhost:31415/meshes/test-ns/djradon/_data-flow/_next/`.
+ *
+ * @param relativeNodePath - Node path relative to the mesh root ('' for the root node)
+ */
+export function getNextSnapshotGraphUri(
+  meshName: string,
+  relativeNodePath: string,
+  flow: FlowSlug,
+): string {
+  const segments = [
+    'meshes',
+    meshName,
+    relativeNodePath,
+    getFlowDir(flow),
+    MESH.NEXT_SNAPSHOT_DIR,
+  ];
+  return getCurrentServiceUri(segments.filter((segment) => segment).join('/'));
+}
+
+/**
+ * Returns the prefix shared by the names of all graphs of a mesh.
+ */
+export function getMeshGraphUriPrefix(meshName: string): string {
+  return getCurrentServiceUri(`meshes/${meshName}`);
+}
+
+/**
+ * Replaces the graphs of a node's flows with the quads of their `_current` JSON-LD
+ * distributions. Flows without a `_current` distribution are left with an empty graph.
+ *
+ * @param relativeNodePath - Node path relative to the mesh root ('' for the root node)
+ * @param onlyChanged - Skip flows whose distribution is unchanged since it was last indexed
+ * @returns The number of quads loaded
+ * @throws MeshNotFoundError if the mesh is not registered
+ * @throws WeaveError if a distribution cannot be parsed
+ */
+export async function indexMeshNode(
+  meshName: string,
+  relativeNodePath: string,
+  bundle: QuadstoreBundle = getMeshQuadstoreBundle(),
+  onlyChanged = false,
+): Promise<number> {
+  const meshPath = getMeshPath(meshName);
+  const nodePath = relativeNodePath ? join(meshPath, relativeNodePath) : meshPath;
+  const indexState = getIndexState(bundle);
+
+  let quadCount = 0;
+  for (const flow of FLOW_SLUGS) {
+    const graphUri = getFlowGraphUri(meshName, relativeNodePath, flow);
+    const distPath = join(getCurrentDistPath(nodePath, flow));
+    const signature = await getDistributionSignature(distPath);
+    if (onlyChanged && await indexState.get(graphUri) === signature) continue;
+
+    const graph = bundle.df.namedNode(graphUri);
+    await clearGraph(graph, bundle);
+
+    const content = await readTextFileIfExists(distPath);
+    if (content !== undefined) {
+      const quads = await jsonldToQuads(
+        parseJsonLdSnapshot(content, distPath),
+        graph,
+        toFileUrl(resolve(distPath)).href,
+      );
+      await bundle.store.multiPut(quads);
+      quadCount += quads.length;
+    }
+    await indexState.put(graphUri, signature);
+  }
+  return quadCount;
+}
+
+/**
+ * Brings the graphs of every node of a mesh up to date: flows whose `_current` distribution
+ * changed since they were indexed are reloaded, and the graphs of nodes that no longer exist
+ * are dropped.
+ *
+ * @throws MeshNotFoundError if the mesh is not registered
+ * @throws WeaveError if a distribution cannot be parsed
+ */
+export async function indexMesh(
+  meshName: string,
+  bundle: QuadstoreBundle = getMeshQuadstoreBundle(),
+): Promise<MeshIndexResult> {
+  const meshPath = getMeshPath(meshName);
+  const relativeNodePaths = (await discoverMeshNodes(meshPath)).map((nodePath) =>
+    relative(meshPath, nodePath)
+  );
+  await removeMeshIndex(
+    meshName,
+    bundle,
+    new Set(
+      relativeNodePaths.flatMap((relativeNodePath) =>
+        FLOW_SLUGS.map((flow) => getFlowGraphUri(meshName, relativeNodePath, flow))
+      ),
+    ),
+  );
+
+  let quadCount = 0;
+  for (const relativeNodePath of relativeNodePaths) {
+    quadCount += await indexMeshNode(meshName, relativeNodePath, bundle, true);
+  }
+
+  logger.info(
+    `Indexed mesh '${meshName}': ${quadCount} quads loaded from ${relativeNodePaths.length} node(s)`,
+    {
+      operation: 'mesh-index',
+      meshName,
+      metadata: { nodeCount: relativeNodePaths.length, quadCount },
+    },
+  );
+  return { nodeCount: relativeNodePaths.length, quadCount };
+}
+
+/**
+ * Drops the graphs of a mesh, together with what the index recorded about them.
+ *
+ * @param keptGraphUris - Graphs to keep; all graphs of the mesh are dropped by default
+ * @returns The number of graphs dropped
+ */
+export async function removeMeshIndex(
+  meshName: string,
+  bundle: QuadstoreBundle = getMeshQuadstoreBundle(),
+  keptGraphUris: ReadonlySet<string> = new Set(),
+): Promise<number> {
+  const meshGraphUriPrefix = getMeshGraphUriPrefix(meshName);
+  const graphUris = (await queryMultipleValues(
+    bundle,
+    `SELECT DISTINCT ?value WHERE {
+      GRAPH ?value { ?s ?p ?o }
+      FILTER(STRSTARTS(STR(?value), ${JSON.stringify(meshGraphUriPrefix)}))
+    }`,
+  )).filter((graphUri) => !keptGraphUris.has(graphUri));
+  for (const graphUri of graphUris) {
+    await clearGraph(bundle.df.namedNode(graphUri), bundle);
+  }
+
+  const indexState = getIndexState(bundle);
+  for await (
+    const graphUri of indexState.keys({
+      gte: meshGraphUriPrefix,
+      lt: `${meshGraphUriPrefix}\uffff`,
+    })
+  ) {
+    if (!keptGraphUris.has(graphUri)) await indexState.del(graphUri);
+  }
+  return graphUris.length;
+}
+
+function getIndexState(bundle: QuadstoreBundle) {
+  return bundle.backend.sublevel<string, string>(INDEX_STATE_SUBLEVEL, {
+    valueEncoding: 'utf8',
+  });
+}
+
+// Identifies a distribution by modification time and size, so unchanged files are not re-parsed
+async function getDistributionSignature(distPath: string): Promise<string> {
+  try {
+    const { mtime, size } = await Deno.stat(distPath);
+    return `${mtime?.getTime() ?? 0}:${size}`;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return NO_DISTRIBUTION;
+    throw error;
+  }
+}
+
+/**
+ * Indexes every registered mesh. A mesh that fails to index is logged and skipped.
+ */
+export async function indexRegisteredMeshes(): Promise<void> {
+  for (const meshName of Object.keys(meshRegistry)) {
+    try {
+      await indexMesh(meshName);
+    } catch (error) {
+      await handleCaughtError(error, `Failed to index mesh '${meshName}'`, {
+        operation: 'mesh-index',
+        meshName,
+      });
+    }
+  }
+}
+
+/**
+ * Brings the index of a mesh in line with the registry: a registered mesh is (re)indexed,
+ * the graphs of an unregistered one are dropped. Does nothing while the mesh quadstore is
+ * not open; failures are logged, not thrown.
+ */
+export async function refreshMeshIndex(meshName: string): Promise<void> {
+  if (!isMeshQuadstoreBundleOpen()) return;
+  try {
+    if (meshRegistry[meshName]) {
+      await indexMesh(meshName);
+    } else {
+      await removeMeshIndex(meshName);
+    }
+  } catch (error) {
+    await handleCaughtError(error, `Failed to refresh the index of mesh '${meshName}'`, {
+      operation: 'mesh-index',
+      meshName,
+    });
+  }
+}
+
+/**
+ * Reloads the graphs of a node after it was woven. Does nothing while the mesh quadstore is
+ * not open or if the node is not in a registered mesh; failures are logged, not thrown.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param logContext - Optional context added to log entries, e.g. a job's operationId
+ */
+export async function refreshNodeIndex(
+  nodePath: string,
+  logContext?: LogContext,
+): Promise<void> {
+  if (!isMeshQuadstoreBundleOpen()) return;
+
+  const node = findNodeMesh(nodePath);
+  if (!node) return;
+
+  const { meshName, relativeNodePath } = node;
+  try {
+    const quadCount = await indexMeshNode(meshName, relativeNodePath);
+    logger.debug(
+      `Reindexed node at '${nodePath}': ${quadCount} quads`,
+      mergeLogContext(
+        { operation: 'mesh-index', meshName },
+        logContext,
+        { metadata: { nodePath, quadCount } },
+      ),
+    );
+  } catch (error) {
+    await handleCaughtError(
+      error,
+      `Failed to reindex node at '${nodePath}'`,
+      mergeLogContext({ operation: 'mesh-index', meshName }, logContext),
+    );
+  }
+}
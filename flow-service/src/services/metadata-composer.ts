@@ -2,6 +2,34 @@ import { singletonServiceConfigAccessor as config } from "../config/resolution/s
 
 //import { MESH } from '../../../flow-core/src/mesh-constants.ts';
 
+// Prefixes shared by the snapshots scaffolded on node creation
+const NODE_CONTENT_CONTEXT = {
+  "owl": "http://www.w3.org/2002/07/owl#",
+  "rdf": "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  "rdfs": "http://www.w3.org/2000/01/rdf-schema#",
+  "xsd": "http://www.w3.org/2001/XMLSchema#",
+  "dcterms": "http://purl.org/dc/terms/",
+  "prov": "http://www.w3.org/ns/prov#",
+  "dcat": "http://www.w3.org/ns/dcat#",
+  "meta": "https://semantic-flow.github.io/ontology/meta-flow/",
+  "mesh": "https://semantic-flow.github.io/ontology/mesh/",
+  "node": "https://semantic-flow.github.io/ontology/node/",
+  "flow": "https://semantic-flow.github.io/ontology/flow/",
+};
+
+// Snapshots sit two folders below their node (`<flow>/<snapshot>/`), so this resolves to the
+// node's own handle whatever the depth of the node in the mesh
+const NODE_HANDLE_IRI = "../../_handle/";
+
+const DEFAULT_ATTRIBUTED_TO = "https://djradon.github.io/ns/djradon/";  // TODO: Use config or a default value
+
+/**
+ * Returns the RDF class recording a node's type, e.g. `node:DatasetNode`.
+ */
+export function getNodeTypeClass(nodeType: string): string {
+  return `node:${nodeType}Node`;
+}
+
 /**
  * Composes the metadata content JSON object for a node creation event.
  *
@@ -22,7 +50,7 @@ export function composeMetadataContent(
   const description = typeof initialData.description === "string"
     ? initialData.description
     : `Node created for ${slug}`;
-  const attributedTo = "https://djradon.github.io/ns/djradon/";  // TODO: Use config or a default value
+  const attributedTo = DEFAULT_ATTRIBUTED_TO;
   //const attributedTo = config.defaultAttributedTo;
   //const delegationChain = config.defaultDelegationChain;
 
@@ -30,36 +58,24 @@ export function composeMetadataContent(
   const endTime = new Date().toISOString();
 
   return {
-    "@context": {
-      "owl": "http://www.w3.org/2002/07/owl#",
-      "rdf": "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
-      "rdfs": "http://www.w3.org/2000/01/rdf-schema#",
-      "xsd": "http://www.w3.org/2001/XMLSchema#",
-      "dcterms": "http://purl.org/dc/terms/",
-      "prov": "http://www.w3.org/ns/prov#",
-      "dcat": "http://www.w3.org/ns/dcat#",
-      "meta": "https://semantic-flow.github.io/ontology/meta-flow/",
-      "mesh": "https://semantic-flow.github.io/ontology/mesh/",
-      "node": "https://semantic-flow.github.io/ontology/node/",
-      "flow": "https://semantic-flow.github.io/ontology/flow/",
-    },
+    "@context": NODE_CONTENT_CONTEXT,
     "@graph": [
       {
-        "@id": `../../${slug}/_handle/`,
-        "@type": "mesh:Node",
+        "@id": NODE_HANDLE_IRI,
+        "@type": ["mesh:Node", getNodeTypeClass(nodeType)],
         "node:hasSlug": slug,
         "dcterms:title": title,
         "dcterms:description": description,
         "prov:wasAttributedTo": attributedTo,
       },
       {
-        "@id": `../../${slug}/_handle/#`,
+        "@id": `${NODE_HANDLE_IRI}#`,
         "@type": "node:Handle",
-        "mesh:relativeIdentifier": `../../${slug}/_handle/`,
+        "mesh:relativeIdentifier": NODE_HANDLE_IRI,
         "dcterms:title": `${title} Handle`,
         "dcterms:description": `Handle for the ${slug} ${nodeType} node.`,
         "node:isHandleFor": {
-          "@id": `../../${slug}/_handle/`,
+          "@id": NODE_HANDLE_IRI,
         },
       },
       {
@@ -79,3 +95,153 @@ export function composeMetadataContent(
     ],
   };
 }
+
+/**
+ * Composes the reference flow content of a Reference node, describing its referent.
+ *
+ * @param referent - The IRI of the referenced resource, with an optional title and description
+ * @returns The reference content JSON object
+ */
+export function composeReferenceContent(
+  referent: { iri: string; title?: string; description?: string },
+): Record<string, unknown> {
+  const referentEntry: Record<string, unknown> = { "@id": referent.iri };
+  if (referent.title !== undefined) {
+    referentEntry["dcterms:title"] = referent.title;
+  }
+  if (referent.description !== undefined) {
+    referentEntry["dcterms:description"] = referent.description;
+  }
+
+  return {
+    "@context": NODE_CONTENT_CONTEXT,
+    "@graph": [
+      {
+        "@id": NODE_HANDLE_IRI,
+        "node:hasReferent": { "@id": referent.iri },
+      },
+      referentEntry,
+    ],
+  };
+}
+
+/**
+ * Composes the initial data flow content of a Dataset node.
+ *
+ * @param initialPayload - JSON-LD to seed the data flow with; an empty graph if omitted
+ * @returns The data content JSON object
+ */
+export function composeDataContent(
+  initialPayload?: Record<string, unknown>,
+): Record<string, unknown> {
+  return initialPayload ?? {
+    "@context": NODE_CONTENT_CONTEXT,
+    "@graph": [],
+  };
+}
+
+/**
+ * Composes the provenance activity recording the deletion of a child node, for the meta
+ * flow of its parent node.
+ *
+ * @param slug - The slug of the deleted child node
+ * @param startedAtTime - When the deletion started
+ * @returns The activity JSON-LD node object
+ */
+export function composeNodeDeletionActivity(
+  slug: string,
+  startedAtTime?: string,
+): Record<string, unknown> {
+  const startTime = startedAtTime ?? new Date().toISOString();
+  const endTime = new Date().toISOString();
+
+  return {
+    "@id": `#${slug}-deletion-activity-${Date.parse(endTime)}`,
+    "@type": "meta:NodeDeletion",
+    "dcterms:title": `${slug} Node Deletion`,
+    "dcterms:description": `Deletion of the ${slug} child node.`,
+    "prov:startedAtTime": startTime,
+    "prov:endedAtTime": endTime,
+    "prov:wasAssociatedWith": DEFAULT_ATTRIBUTED_TO,
+    "prov:invalidated": { "@id": `../../${slug}/_handle/` },
+  };
+}
+
+/**
+ * Composes the provenance activity recording an update of a node's metadata.
+ *
+ * @param slug - The slug of the updated node
+ * @param startedAtTime - When the update started
+ * @returns The activity JSON-LD node object
+ */
+export function composeNodeUpdateActivity(
+  slug: string,
+  startedAtTime?: string,
+): Record<string, unknown> {
+  const startTime = startedAtTime ?? new Date().toISOString();
+  const endTime = new Date().toISOString();
+
+  return {
+    "@id": `#update-activity-${Date.parse(endTime)}`,
+    "@type": "meta:NodeUpdate",
+    "dcterms:title": `${slug} Node Update`,
+    "dcterms:description": `Update of the ${slug} node metadata.`,
+    "prov:startedAtTime": startTime,
+    "prov:endedAtTime": endTime,
+    "prov:wasAssociatedWith": DEFAULT_ATTRIBUTED_TO,
+  };
+}
+
+/**
+ * Adds node objects to the `@graph` of a meta snapshot, declaring the prefixes used by the
+ * composed metadata if the snapshot's context lacks them.
+ *
+ * @param metadataContent - The parsed meta snapshot
+ * @param entries - The node objects to add
+ * @returns The updated meta snapshot
+ */
+export function appendMetadataEntries(
+  metadataContent: Record<string, unknown>,
+  entries: Record<string, unknown>[],
+): Record<string, unknown> {
+  const { "@context": context, "@graph": graph, ...topLevelNode } = metadataContent;
+
+  const existingEntries = Array.isArray(graph)
+    ? graph
+    : graph !== undefined
+    ? [graph]
+    : Object.keys(topLevelNode).length > 0
+    ? [topLevelNode]
+    : [];
+
+  return {
+    ...(graph !== undefined ? topLevelNode : {}),
+    "@context": context && typeof context === "object" && !Array.isArray(context)
+      ? { ...NODE_CONTENT_CONTEXT, ...context }
+      : context === undefined
+      ? NODE_CONTENT_CONTEXT
+      : [NODE_CONTENT_CONTEXT, ...(Array.isArray(context) ? context : [context])],
+    "@graph": [...existingEntries, ...entries],
+  };
+}
+
+/**
+ * Composes the tombstone left in the handle of a node that was moved, pointing to the
+ * node's new handle.
+ *
+ * @param replacementHandle - The new handle, relative to the old handle folder
+ * @param invalidatedAtTime - When the node was moved
+ * @returns The tombstone JSON-LD content
+ */
+export function composeTombstoneContent(
+  replacementHandle: string,
+  invalidatedAtTime: string,
+): Record<string, unknown> {
+  return {
+    "@context": NODE_CONTENT_CONTEXT,
+    "@id": "./",
+    "@type": "node:Tombstone",
+    "dcterms:isReplacedBy": { "@id": replacementHandle },
+    "prov:invalidatedAtTime": invalidatedAtTime,
+  };
+}
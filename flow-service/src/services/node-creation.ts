@@ -0,0 +1,105 @@
+/**
+ * Node Creation
+ *
+ * Scaffolds the folders and initial snapshots of a new node. Every node gets a handle and a
+ * meta flow; Dataset nodes also get a data flow and Reference nodes a ref flow.
+ */
+
+import { basename, join } from '../../../flow-core/src/deps.ts';
+import { MESH, type NodeType } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  type FlowSlug,
+  getCurrentDistPath,
+  getFlowPath,
+  getHandlePath,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { isTombstone } from '../utils/mesh-utils.ts';
+import {
+  composeDataContent,
+  composeMetadataContent,
+  composeReferenceContent,
+} from './metadata-composer.ts';
+
+export interface NodeReferent {
+  readonly iri: string;
+  readonly title?: string;
+  readonly description?: string;
+}
+
+export interface NodeScaffoldingOptions {
+  readonly nodeType: NodeType;
+  /** Initial metadata, e.g. title and description */
+  readonly initialData: Record<string, unknown>;
+  /** JSON-LD seeding the data flow of a Dataset node */
+  readonly initialPayload?: Record<string, unknown>;
+  /** The resource a Reference node refers to */
+  readonly referent?: NodeReferent;
+  readonly startedAtTime?: string;
+}
+
+/**
+ * Scaffolds a node in a folder that is not a node yet, replacing the tombstone of a node
+ * that was moved away from it, if any.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param options - The node type and initial content
+ * @returns The created folders and files
+ */
+export async function scaffoldNode(
+  nodePath: string,
+  options: NodeScaffoldingOptions,
+): Promise<string[]> {
+  const slug = basename(nodePath);
+  const filesCreated: string[] = [];
+
+  const handleDir = join(getHandlePath(nodePath));
+  if (await isTombstone(nodePath)) {
+    await Deno.remove(handleDir, { recursive: true });
+  }
+  await Deno.mkdir(handleDir, { recursive: true });
+  filesCreated.push(handleDir);
+
+  const flowContents: { flow: FlowSlug; content: Record<string, unknown> }[] = [
+    {
+      flow: MESH.META,
+      content: composeMetadataContent(
+        slug,
+        options.nodeType,
+        options.initialData,
+        options.startedAtTime,
+      ),
+    },
+  ];
+  // Dataset nodes carry a data flow and Reference nodes a ref flow; Namespace nodes neither
+  if (options.nodeType === 'Dataset') {
+    flowContents.push({
+      flow: MESH.DATA,
+      content: composeDataContent(options.initialPayload),
+    });
+  } else if (options.nodeType === 'Reference' && options.referent) {
+    flowContents.push({
+      flow: MESH.REF,
+      content: composeReferenceContent(options.referent),
+    });
+  }
+
+  for (const { flow, content } of flowContents) {
+    const flowDir = join(getFlowPath(nodePath, flow));
+    await Deno.mkdir(flowDir, { recursive: true });
+    filesCreated.push(flowDir);
+
+    for (
+      const distPath of [
+        join(getCurrentDistPath(nodePath, flow)),
+        join(getNextDistPath(nodePath, flow)),
+      ]
+    ) {
+      await writeTextFileEnsuringDir(distPath, JSON.stringify(content, null, 2));
+      filesCreated.push(distPath);
+    }
+  }
+
+  return filesCreated;
+}
@@ -0,0 +1,113 @@
+/**
+ * Node Data Update
+ *
+ * Replaces the data of a Dataset node with an uploaded RDF document. The document is parsed
+ * into quads to validate it, then written to the `_next` data snapshot as JSON-LD; the
+ * `_current` snapshot is only updated by the next weave.
+ *
+ * JSON-LD documents are written as uploaded, except that a top-level array is wrapped in a
+ * `@graph` object, since snapshots must be JSON-LD objects to be woven. Documents in the other
+ * formats are converted to expanded JSON-LD, with IRIs on the snapshot's host written relative
+ * to it.
+ */
+
+import { join, N3Parser, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { NodeObject, RDF } from '../../../flow-core/src/deps.ts';
+import { getNextDistPath } from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { quadsToJsonLdSnapshot } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { ValidationError } from '../utils/errors.ts';
+import { composeNodeListing } from './node-summary.ts';
+
+// Formats accepted for uploads besides JSON-LD: media type -> N3 parser format
+const N3_UPLOAD_FORMATS = {
+  'text/turtle': 'Turtle',
+  'application/trig': 'TriG',
+  'application/n-triples': 'N-Triples',
+  'application/n-quads': 'N-Quads',
+} as const;
+
+export const NODE_DATA_MEDIA_TYPES = [
+  'application/ld+json',
+  ...Object.keys(N3_UPLOAD_FORMATS) as (keyof typeof N3_UPLOAD_FORMATS)[],
+] as const;
+
+export type NodeDataMediaType = typeof NODE_DATA_MEDIA_TYPES[number];
+
+export interface NodeDataUpdateResult {
+  /** Path of the written `_next` data snapshot */
+  readonly path: string;
+  readonly quadCount: number;
+  /** A warning for each quad with a blank node subject or object */
+  readonly blankNodeWarnings: string[];
+}
+
+/**
+ * Parses an RDF document and writes it as the `_next` data snapshot of a Dataset node.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param body - The uploaded document
+ * @param mediaType - The media type of the document
+ * @throws ValidationError if the node is not a Dataset node or the document cannot be parsed
+ */
+export async function updateNodeData(
+  nodePath: string,
+  body: string,
+  mediaType: NodeDataMediaType,
+): Promise<NodeDataUpdateResult> {
+  const { nodeType } = await composeNodeListing(nodePath);
+  if (nodeType !== 'Dataset') {
+    throw new ValidationError(
+      `Node at '${nodePath}' is a ${nodeType} node; only Dataset nodes carry data.`,
+      'nodePath',
+    );
+  }
+
+  const nextDataPath = join(getNextDistPath(nodePath, 'data'));
+  const documentUrl = toFileUrl(resolve(nextDataPath)).href;
+
+  let quads: RDF.Quad[];
+  let content: string;
+  try {
+    if (mediaType === 'application/ld+json') {
+      const parsed: unknown = JSON.parse(body);
+      if (!parsed || typeof parsed !== 'object') {
+        throw new Error('expected a JSON-LD object or array');
+      }
+      const jsonLd = (Array.isArray(parsed) ? { '@graph': parsed } : parsed) as NodeObject;
+      quads = await jsonldToQuads(jsonLd, undefined, documentUrl);
+      content = JSON.stringify(jsonLd, null, 2);
+    } else {
+      quads = new N3Parser({ format: N3_UPLOAD_FORMATS[mediaType], baseIRI: documentUrl })
+        .parse(body);
+      content = JSON.stringify(await quadsToJsonLdSnapshot(quads, documentUrl), null, 2);
+    }
+  } catch (error) {
+    throw new ValidationError(
+      `The ${mediaType} document could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+      'body',
+    );
+  }
+
+  await writeTextFileEnsuringDir(nextDataPath, content);
+
+  return {
+    path: nextDataPath,
+    quadCount: quads.length,
+    blankNodeWarnings: quads
+      .filter((quad) =>
+        quad.subject.termType === 'BlankNode' || quad.object.termType === 'BlankNode'
+      )
+      .map((quad) =>
+        `Quad with blank node: ${formatTerm(quad.subject)} ${quad.predicate.value} ${formatTerm(quad.object)} in graph ${quad.graph.value}`
+      ),
+  };
+}
+
+// jsonld.js labels blank nodes `_:b0`, while N3 leaves out the `_:`
+function formatTerm(term: RDF.Term): string {
+  return term.termType === 'BlankNode' && !term.value.startsWith('_:')
+    ? `_:${term.value}`
+    : term.value;
+}
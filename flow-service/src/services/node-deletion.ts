@@ -0,0 +1,102 @@
+/**
+ * Node Deletion
+ *
+ * Removes nodes from a mesh. Only a node's own elements are removed (its handle, flows,
+ * assets, generated datasets and resource page); a node folder is removed only once it is
+ * empty, so folders that are not mesh nodes, and anything else they hold, are never touched.
+ */
+
+import { basename, dirname, join } from '../../../flow-core/src/deps.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  FLOW_SLUGS,
+  getCurrentDistPath,
+  getFlowDir,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { discoverMeshNodes, hasNodeSignature } from '../utils/mesh-utils.ts';
+import { appendMetadataEntries, composeNodeDeletionActivity } from './metadata-composer.ts';
+import { parseJsonLdSnapshot } from './dataset-composer.ts';
+import { RESOURCE_PAGE_FILE } from './resource-page-generator.ts';
+
+// The entries of a node folder that belong to the node itself
+const NODE_ELEMENTS = [
+  MESH.HANDLE_DIR,
+  ...FLOW_SLUGS.map(getFlowDir),
+  MESH.ASSETS_DIR,
+  MESH.UNIFIED_DATASET_DIR,
+  MESH.AGGREGATED_DATASET_DIR,
+  RESOURCE_PAGE_FILE,
+];
+
+/**
+ * Deletes a node and all nodes below it, children before parents.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns The removed paths, in removal order
+ */
+export async function deleteNodeTree(nodePath: string): Promise<string[]> {
+  const removedPaths: string[] = [];
+  for (const subtreeNodePath of await discoverMeshNodes(nodePath)) {
+    removedPaths.push(...await deleteNodeElements(subtreeNodePath));
+  }
+  return removedPaths;
+}
+
+/**
+ * Records the deletion of a node as a provenance activity in the `_next` meta snapshot of
+ * its parent node, so the next weave publishes it.
+ *
+ * @param nodePath - File system path of the deleted node folder
+ * @param startedAtTime - When the deletion started
+ * @returns The path of the updated snapshot, or `undefined` if the parent is not a node or
+ *   has no meta snapshot
+ * @throws WeaveError if the parent's meta snapshot cannot be parsed
+ */
+export async function recordNodeDeletion(
+  nodePath: string,
+  startedAtTime: string,
+): Promise<string | undefined> {
+  const parentPath = dirname(nodePath);
+  if (!await hasNodeSignature(parentPath)) return undefined;
+
+  const nextMetaPath = join(getNextDistPath(parentPath, 'meta'));
+  for (const path of [nextMetaPath, join(getCurrentDistPath(parentPath, 'meta'))]) {
+    const content = await readTextFileIfExists(path);
+    if (content === undefined) continue;
+
+    const metadata = appendMetadataEntries(
+      parseJsonLdSnapshot(content, path) as Record<string, unknown>,
+      [composeNodeDeletionActivity(basename(nodePath), startedAtTime)],
+    );
+    await writeTextFileEnsuringDir(nextMetaPath, JSON.stringify(metadata, null, 2));
+    return nextMetaPath;
+  }
+  return undefined;
+}
+
+// Removes the elements of a single node, then its folder if nothing else is left in it
+async function deleteNodeElements(nodePath: string): Promise<string[]> {
+  const removedPaths: string[] = [];
+  for (const element of NODE_ELEMENTS) {
+    const elementPath = join(nodePath, element);
+    try {
+      await Deno.remove(elementPath, { recursive: true });
+      removedPaths.push(elementPath);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  let isEmpty = true;
+  for await (const _entry of Deno.readDir(nodePath)) {
+    isEmpty = false;
+    break;
+  }
+  if (isEmpty) {
+    await Deno.remove(nodePath);
+    removedPaths.push(nodePath);
+  }
+  return removedPaths;
+}
@@ -0,0 +1,215 @@
+/**
+ * Node Meta Update
+ *
+ * Applies changes to a node's metadata. Changes go into the `_next` meta snapshot, together
+ * with a provenance activity recording them; the `_current` snapshot is only updated by the
+ * next weave.
+ *
+ * Two kinds of changes are supported:
+ * - a JSON merge patch (RFC 7396), applied to the node's `mesh:Node` entry
+ * - a JSON-LD fragment, whose node objects are merged into the entries with the same `@id`
+ *   or added to the snapshot's `@graph`
+ */
+
+import { basename, join, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { NodeObject } from '../../../flow-core/src/deps.ts';
+import {
+  getCurrentDistPath,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { ValidationError } from '../utils/errors.ts';
+import { appendMetadataEntries, composeNodeUpdateActivity } from './metadata-composer.ts';
+import { parseJsonLdSnapshot } from './dataset-composer.ts';
+
+export type NodeMetaChangeFormat = 'merge-patch' | 'json-ld';
+
+// Keys of the node entry that identify the node and cannot be changed
+const PROTECTED_NODE_KEYS = ['@id', '@type', 'node:hasSlug'];
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Applies a change to the metadata of a node and records it as a `meta:NodeUpdate` activity.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param change - The merge patch or JSON-LD fragment
+ * @param format - How to apply the change
+ * @param startedAtTime - When the update started
+ * @returns The path of the updated `_next` meta snapshot
+ * @throws ValidationError if the change is empty or invalid, the result is not valid JSON-LD,
+ *   or the node has no meta snapshot
+ * @throws WeaveError if the meta snapshot cannot be parsed
+ */
+export async function updateNodeMeta(
+  nodePath: string,
+  change: JsonObject,
+  format: NodeMetaChangeFormat,
+  startedAtTime: string,
+): Promise<string> {
+  if (Object.keys(change).length === 0) {
+    throw new ValidationError('The change is empty; there is nothing to update.', 'body');
+  }
+  const nextMetaPath = join(getNextDistPath(nodePath, 'meta'));
+  const metadata = await readNextMetadata(nodePath, nextMetaPath);
+
+  const updated = format === 'merge-patch'
+    ? patchNodeEntry(metadata, change)
+    : mergeJsonLdFragment(metadata, change);
+
+  try {
+    await jsonldToQuads(
+      updated as NodeObject,
+      undefined,
+      toFileUrl(resolve(nextMetaPath)).href,
+    );
+  } catch (error) {
+    throw new ValidationError(
+      `The updated metadata is not valid JSON-LD: ${error instanceof Error ? error.message : String(error)}`,
+      'body',
+    );
+  }
+
+  const recorded = appendMetadataEntries(updated, [
+    composeNodeUpdateActivity(basename(nodePath), startedAtTime),
+  ]);
+  await writeTextFileEnsuringDir(nextMetaPath, JSON.stringify(recorded, null, 2));
+  return nextMetaPath;
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7396): `null` members remove, objects merge recursively,
+ * and anything else replaces.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isJsonObject(patch)) return patch;
+  const result: JsonObject = isJsonObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+}
+
+// Reads the `_next` meta snapshot, or `_current` if the node has no pending changes yet
+async function readNextMetadata(
+  nodePath: string,
+  nextMetaPath: string,
+): Promise<JsonObject> {
+  for (const path of [nextMetaPath, join(getCurrentDistPath(nodePath, 'meta'))]) {
+    const content = await readTextFileIfExists(path);
+    if (content !== undefined) return parseJsonLdSnapshot(content, path) as JsonObject;
+  }
+  throw new ValidationError(
+    `Node at '${nodePath}' has no meta snapshot to update.`,
+    'nodePath',
+  );
+}
+
+function patchNodeEntry(metadata: JsonObject, patch: JsonObject): JsonObject {
+  const protectedKeys = Object.keys(patch).filter((key) =>
+    PROTECTED_NODE_KEYS.includes(key) || key === '@context'
+  );
+  if (protectedKeys.length > 0) {
+    throw new ValidationError(
+      `The merge patch cannot change ${protectedKeys.map((key) => `'${key}'`).join(', ')}.`,
+      'body',
+    );
+  }
+
+  const entries = getGraphEntries(metadata);
+  const nodeIndex = entries.findIndex(isMeshNodeEntry);
+  if (nodeIndex === -1) {
+    throw new ValidationError('The meta snapshot has no mesh:Node entry to patch.', 'body');
+  }
+  entries[nodeIndex] = applyMergePatch(entries[nodeIndex], patch) as JsonObject;
+  return withGraphEntries(metadata, entries);
+}
+
+function mergeJsonLdFragment(metadata: JsonObject, fragment: JsonObject): JsonObject {
+  const { '@context': fragmentContext, '@graph': fragmentGraph, ...fragmentNode } = fragment;
+  const fragmentEntries = fragmentGraph === undefined
+    ? [fragmentNode]
+    : Array.isArray(fragmentGraph)
+    ? fragmentGraph
+    : [fragmentGraph];
+
+  if (fragmentEntries.some((entry) => !isJsonObject(entry) || typeof entry['@id'] !== 'string')) {
+    throw new ValidationError(
+      'Every node object of the JSON-LD fragment needs an @id.',
+      'body',
+    );
+  }
+
+  const entries = getGraphEntries(metadata);
+  for (const fragmentEntry of fragmentEntries as JsonObject[]) {
+    const index = entries.findIndex((entry) => entry['@id'] === fragmentEntry['@id']);
+    if (index === -1) {
+      entries.push(fragmentEntry);
+      continue;
+    }
+    if (isMeshNodeEntry(entries[index])) {
+      const changedKeys = PROTECTED_NODE_KEYS.filter((key) =>
+        key in fragmentEntry &&
+        JSON.stringify(fragmentEntry[key]) !== JSON.stringify(entries[index][key])
+      );
+      if (changedKeys.length > 0) {
+        throw new ValidationError(
+          `The JSON-LD fragment cannot change ${changedKeys.map((key) => `'${key}'`).join(', ')} of the node.`,
+          'body',
+        );
+      }
+    }
+    entries[index] = { ...entries[index], ...fragmentEntry };
+  }
+
+  return withGraphEntries(
+    { ...metadata, '@context': mergeContexts(metadata['@context'], fragmentContext) },
+    entries,
+  );
+}
+
+// Adds the fragment's term definitions to the snapshot context, refusing redefinitions
+function mergeContexts(context: unknown, fragmentContext: unknown): unknown {
+  if (fragmentContext === undefined) return context;
+  if (!isJsonObject(fragmentContext) || (context !== undefined && !isJsonObject(context))) {
+    throw new ValidationError(
+      'The JSON-LD fragment @context must be an object, and can only be merged into an object @context.',
+      'body',
+    );
+  }
+  const merged: JsonObject = { ...context };
+  for (const [term, definition] of Object.entries(fragmentContext)) {
+    if (term in merged && JSON.stringify(merged[term]) !== JSON.stringify(definition)) {
+      throw new ValidationError(
+        `The JSON-LD fragment redefines the term '${term}'.`,
+        'body',
+      );
+    }
+    merged[term] = definition;
+  }
+  return merged;
+}
+
+function getGraphEntries(metadata: JsonObject): JsonObject[] {
+  const { '@context': _context, '@graph': graph, ...topLevelNode } = metadata;
+  if (graph === undefined) return Object.keys(topLevelNode).length > 0 ? [topLevelNode] : [];
+  return (Array.isArray(graph) ? graph : [graph]).filter(isJsonObject);
+}
+
+function withGraphEntries(metadata: JsonObject, entries: JsonObject[]): JsonObject {
+  const { '@graph': graph, ...rest } = metadata;
+  return graph === undefined
+    ? { '@context': metadata['@context'], '@graph': entries }
+    : { ...rest, '@graph': entries };
+}
+
+function isMeshNodeEntry(entry: JsonObject): boolean {
+  const types = Array.isArray(entry['@type']) ? entry['@type'] : [entry['@type']];
+  return types.includes('mesh:Node');
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,312 @@
+/**
+ * Node Move
+ *
+ * Relocates a node subtree inside its mesh, renaming the node if the last path segment
+ * changes. Because snapshots identify nodes with relative IRIs, the `_next` and `_current`
+ * JSON-LD snapshots of the mesh are rewritten so their identifiers keep pointing at the same
+ * resources, and the other distribution formats next to a rewritten snapshot are regenerated
+ * from it. Published `_vN` snapshots are never rewritten; their references to moved nodes
+ * resolve through the tombstones.
+ *
+ * Each moved node leaves a tombstone in its old handle folder: a JSON-LD record of the new
+ * handle and an `index.html` redirecting to it, so published IRIs keep resolving.
+ * Generated datasets and resource pages are brought up to date by the next weave.
+ */
+
+import {
+  basename,
+  dirname,
+  join,
+  relative,
+  resolve,
+  toFileUrl,
+} from '../../../flow-core/src/deps.ts';
+import type { NodeObject } from '../../../flow-core/src/deps.ts';
+import {
+  DISTRIBUTION_FORMAT_EXTENSIONS,
+  type DistributionMediaType,
+  MESH,
+} from '../../../flow-core/src/mesh-constants.ts';
+import {
+  FLOW_SLUGS,
+  getFlowPath,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { relativizeIri, serializeJsonLdAs } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { discoverMeshNodes, isTombstone } from '../utils/mesh-utils.ts';
+import { composeTombstoneContent } from './metadata-composer.ts';
+import { parseJsonLdSnapshot } from './dataset-composer.ts';
+
+// Keys whose values are (possibly relative) IRIs
+const IDENTIFIER_KEYS = ['@id', 'mesh:relativeIdentifier'];
+
+// Snapshot folders whose identifiers are rewritten; `_vN` versions are immutable
+const REWRITTEN_SNAPSHOT_DIRS = [MESH.NEXT_SNAPSHOT_DIR, MESH.CURRENT_SNAPSHOT_DIR];
+
+export interface NodeMoveResult {
+  /** The moved node folder and renamed files, as pairs of old and new paths */
+  readonly moved: { from: string; to: string }[];
+  /** Snapshots whose identifiers were rewritten, and the distributions regenerated from them */
+  readonly filesUpdated: string[];
+  /** Tombstone files left in the old handle folders */
+  readonly tombstonesCreated: string[];
+}
+
+/**
+ * Moves a node and all nodes below it to a new folder in the same mesh.
+ *
+ * The target folder must not exist, or hold nothing but a tombstone; its parent folder is
+ * created if needed.
+ *
+ * @param meshPath - File system path of the mesh root node folder
+ * @param nodePath - File system path of the node folder to move
+ * @param targetNodePath - File system path the node folder is moved to
+ * @throws WeaveError if a snapshot cannot be parsed
+ */
+export async function moveNode(
+  meshPath: string,
+  nodePath: string,
+  targetNodePath: string,
+): Promise<NodeMoveResult> {
+  const movedAt = new Date().toISOString();
+  const mapPath = createPathMapper(
+    resolve(nodePath),
+    resolve(targetNodePath),
+    basename(nodePath),
+    basename(targetNodePath),
+  );
+
+  // Collect everything that needs rewriting while it is still at its old location
+  const movedNodePaths = await discoverMeshNodes(nodePath);
+  const snapshotPaths: string[] = [];
+  for (const meshNodePath of await discoverMeshNodes(meshPath)) {
+    for (const flow of FLOW_SLUGS) {
+      for (const snapshotDir of REWRITTEN_SNAPSHOT_DIRS) {
+        snapshotPaths.push(
+          ...(await listFilesRecursively(join(getFlowPath(meshNodePath, flow), snapshotDir)))
+            .filter((path) =>
+              path.endsWith(`.${DISTRIBUTION_FORMAT_EXTENSIONS['application/ld+json']}`)
+            ),
+        );
+      }
+    }
+  }
+
+  const moved: { from: string; to: string }[] = [];
+  if (await isTombstone(targetNodePath)) {
+    await Deno.remove(join(targetNodePath, MESH.HANDLE_DIR), { recursive: true });
+    await Deno.remove(targetNodePath);
+  }
+  await Deno.mkdir(dirname(targetNodePath), { recursive: true });
+  await Deno.rename(nodePath, targetNodePath);
+  moved.push({ from: nodePath, to: targetNodePath });
+
+  // Files of the node's own elements are named after its slug
+  if (basename(nodePath) !== basename(targetNodePath)) {
+    for await (const entry of Deno.readDir(targetNodePath)) {
+      if (!entry.isDirectory || !entry.name.startsWith('_')) continue;
+      for (const path of await listFilesRecursively(join(targetNodePath, entry.name))) {
+        const newPath = mapPath(resolve(join(nodePath, relative(targetNodePath, path))));
+        if (newPath !== resolve(path)) {
+          await Deno.rename(path, newPath);
+          moved.push({ from: path, to: newPath });
+        }
+      }
+    }
+  }
+
+  const filesUpdated: string[] = [];
+  const movedNextMetaPath = resolve(getNextDistPath(targetNodePath, 'meta'));
+  for (const oldPath of snapshotPaths) {
+    const newPath = mapPath(resolve(oldPath));
+    const content = await readTextFileIfExists(newPath);
+    if (content === undefined) continue;
+
+    let jsonLd = rewriteIdentifiers(
+      parseJsonLdSnapshot(content, newPath),
+      toFileUrl(resolve(oldPath)).href,
+      toFileUrl(newPath).href,
+      mapPath,
+    );
+    if (newPath === movedNextMetaPath) {
+      jsonLd = replaceSlug(jsonLd, basename(nodePath), basename(targetNodePath));
+    }
+    if (JSON.stringify(jsonLd) === JSON.stringify(JSON.parse(content))) continue;
+
+    await Deno.writeTextFile(newPath, JSON.stringify(jsonLd, null, 2));
+    filesUpdated.push(newPath);
+    filesUpdated.push(...await regenerateSiblingDistributions(newPath, jsonLd));
+  }
+
+  const tombstonesCreated: string[] = [];
+  for (const movedNodePath of movedNodePaths) {
+    tombstonesCreated.push(
+      ...await writeTombstone(
+        join(movedNodePath, MESH.HANDLE_DIR),
+        join(mapPath(resolve(movedNodePath)), MESH.HANDLE_DIR),
+        movedAt,
+      ),
+    );
+  }
+
+  return { moved, filesUpdated, tombstonesCreated };
+}
+
+/**
+ * Creates the function mapping a path (or file URL path) from before a move to after it.
+ * Paths in the moved subtree are relocated; files of the moved node's own elements that are
+ * named after its slug are renamed after the new slug.
+ */
+function createPathMapper(
+  sourceRoot: string,
+  targetRoot: string,
+  oldSlug: string,
+  newSlug: string,
+): (path: string) => string {
+  const sourceUrlRoot = toFileUrl(sourceRoot).pathname;
+  const targetUrlRoot = toFileUrl(targetRoot).pathname;
+
+  const mapRoot = (path: string, from: string, to: string): string | undefined => {
+    if (path !== from && !path.startsWith(`${from}/`)) return undefined;
+    const rest = path.slice(from.length);
+    const segments = rest.split('/');
+    // segments[0] is '' since rest starts with '/', so segments[1] is the first child entry
+    if (
+      oldSlug !== newSlug && segments.length > 2 && segments[1].startsWith('_') &&
+      segments[segments.length - 1].startsWith(`${oldSlug}_`)
+    ) {
+      segments[segments.length - 1] = `${newSlug}_${
+        segments[segments.length - 1].slice(oldSlug.length + 1)
+      }`;
+    }
+    return `${to}${segments.join('/')}`;
+  };
+
+  return (path) =>
+    mapRoot(path, sourceRoot, targetRoot) ??
+      mapRoot(path, sourceUrlRoot, targetUrlRoot) ?? path;
+}
+
+// Rewrites the relative identifiers of a snapshot so they resolve, from the snapshot's new
+// location, to the (possibly moved) resources they resolved to from its old location
+function rewriteIdentifiers<T>(
+  value: T,
+  oldDocumentUrl: string,
+  newDocumentUrl: string,
+  mapUrlPath: (urlPath: string) => string,
+): T {
+  const rewriteIri = (iri: string): string => {
+    if (URL.canParse(iri) || iri.startsWith('_:')) return iri;
+    const target = new URL(iri, oldDocumentUrl);
+    target.pathname = mapUrlPath(target.pathname);
+    if (new URL(iri, newDocumentUrl).href === target.href) return iri;
+    return relativizeIri(target.href, newDocumentUrl);
+  };
+
+  const rewrite = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(rewrite);
+    if (!node || typeof node !== 'object') return node;
+    return Object.fromEntries(
+      Object.entries(node).map(([key, entry]) => {
+        if (key === '@context') return [key, entry];
+        if (IDENTIFIER_KEYS.includes(key) && typeof entry === 'string') {
+          return [key, rewriteIri(entry)];
+        }
+        return [key, rewrite(entry)];
+      }),
+    );
+  };
+
+  return rewrite(value) as T;
+}
+
+// Replaces the `node:hasSlug` values recording the old slug
+function replaceSlug<T>(value: T, oldSlug: string, newSlug: string): T {
+  const replace = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(replace);
+    if (!node || typeof node !== 'object') return node;
+    return Object.fromEntries(
+      Object.entries(node).map(([key, entry]) =>
+        key === 'node:hasSlug' && entry === oldSlug ? [key, newSlug] : [key, replace(entry)]
+      ),
+    );
+  };
+  return replace(value) as T;
+}
+
+// Regenerates the other distribution formats present next to a JSON-LD snapshot
+async function regenerateSiblingDistributions(
+  jsonLdPath: string,
+  jsonLd: NodeObject,
+): Promise<string[]> {
+  const regenerated: string[] = [];
+  const stem = jsonLdPath.slice(0, jsonLdPath.lastIndexOf('.'));
+  for (
+    const [mediaType, extension] of Object.entries(DISTRIBUTION_FORMAT_EXTENSIONS) as [
+      DistributionMediaType,
+      string,
+    ][]
+  ) {
+    const siblingPath = `${stem}.${extension}`;
+    if (siblingPath === jsonLdPath || await readTextFileIfExists(siblingPath) === undefined) {
+      continue;
+    }
+    await Deno.writeTextFile(
+      siblingPath,
+      await serializeJsonLdAs(jsonLd, mediaType, toFileUrl(siblingPath).href),
+    );
+    regenerated.push(siblingPath);
+  }
+  return regenerated;
+}
+
+// Writes the tombstone record and redirect page into an old handle folder
+async function writeTombstone(
+  handlePath: string,
+  newHandlePath: string,
+  movedAt: string,
+): Promise<string[]> {
+  const tombstonePath = join(handlePath, MESH.TOMBSTONE_FILE);
+  const redirectPath = join(handlePath, 'index.html');
+  const replacement = relativizeIri(
+    `${toFileUrl(resolve(newHandlePath)).href}/`,
+    toFileUrl(resolve(tombstonePath)).href,
+  );
+
+  await writeTextFileEnsuringDir(
+    tombstonePath,
+    JSON.stringify(composeTombstoneContent(replacement, movedAt), null, 2),
+  );
+  await Deno.writeTextFile(
+    redirectPath,
+    `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="refresh" content="0; url=${replacement}">
+    <link rel="canonical" href="${replacement}">
+    <title>Moved</title>
+  </head>
+  <body>
+    <p>This node has moved to <a href="${replacement}">${replacement}</a>.</p>
+  </body>
+</html>
+`,
+  );
+  return [tombstonePath, redirectPath];
+}
+
+async function listFilesRecursively(dirPath: string): Promise<string[]> {
+  const paths: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dirPath)) {
+      const path = join(dirPath, entry.name);
+      if (entry.isDirectory) paths.push(...await listFilesRecursively(path));
+      else if (entry.isFile) paths.push(path);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return paths.sort();
+}
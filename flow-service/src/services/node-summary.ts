@@ -0,0 +1,209 @@
+/**
+ * Node Summary
+ *
+ * Describes a node as it is currently published: its type and description from the
+ * `_current` meta distribution, the flows it carries, their versions, and the distribution
+ * files of its `_current` snapshots and generated datasets.
+ */
+
+import { basename, join, relative, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { NodeObject } from '../../../flow-core/src/deps.ts';
+import { MESH, NODE_TYPES, type NodeType } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  FLOW_SLUGS,
+  type FlowSlug,
+  getAggregatedDatasetPath,
+  getCurrentDistPath,
+  getCurrentSnapshotPath,
+  getDistributionMediaType,
+  getFlowPath,
+  getUnifiedDatasetPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import { listChildNodes, listVersions } from '../utils/mesh-utils.ts';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const DCTERMS_TITLE = 'http://purl.org/dc/terms/title';
+const DCTERMS_DESCRIPTION = 'http://purl.org/dc/terms/description';
+const MESH_NODE = `${MESH.MESH_ONTOLOGY}Node`;
+
+export interface NodeMetadata {
+  /** The node type recorded as `node:<type>Node`, if any */
+  readonly nodeType?: NodeType;
+  readonly title?: string;
+  readonly description?: string;
+}
+
+export interface NodeDistribution {
+  /** Path of the file relative to the node folder */
+  readonly path: string;
+  readonly mediaType: string;
+  readonly size: number;
+}
+
+export interface NodeListing {
+  readonly slug: string;
+  readonly nodeType: NodeType;
+  readonly title: string;
+}
+
+export interface NodeSummary {
+  readonly slug: string;
+  readonly nodeType: NodeType;
+  readonly title: string;
+  readonly description: string;
+  readonly flows: FlowSlug[];
+  /** Version numbers of each flow's `_vN` snapshots, in ascending order */
+  readonly versions: Partial<Record<FlowSlug, number[]>>;
+  readonly distributions: NodeDistribution[];
+  /** File system paths of the child nodes */
+  readonly childNodePaths: string[];
+}
+
+/**
+ * Reads the type, title and description of the node described by a JSON-LD meta
+ * distribution, preferring the subject typed `mesh:Node`.
+ *
+ * @param distPath - File system path of the meta distribution
+ * @returns The metadata, or `undefined` if the file does not exist or cannot be parsed
+ */
+export async function readNodeMetadata(
+  distPath: string,
+): Promise<NodeMetadata | undefined> {
+  const content = await readTextFileIfExists(distPath);
+  if (content === undefined) return undefined;
+
+  let quads;
+  try {
+    quads = await jsonldToQuads(
+      JSON.parse(content) as NodeObject,
+      undefined,
+      toFileUrl(resolve(distPath)).href,
+    );
+  } catch {
+    return undefined;
+  }
+
+  const nodeIri = quads.find((quad) =>
+    quad.predicate.value === RDF_TYPE && quad.object.value === MESH_NODE
+  )?.subject.value;
+  const findLiteral = (predicate: string) =>
+    (quads.find((quad) =>
+      quad.predicate.value === predicate && quad.subject.value === nodeIri
+    ) ?? quads.find((quad) => quad.predicate.value === predicate))
+      ?.object.value;
+
+  const nodeType = NODE_TYPES.find((type) =>
+    quads.some((quad) =>
+      quad.subject.value === nodeIri && quad.predicate.value === RDF_TYPE &&
+      quad.object.value === `${MESH.NODE_ONTOLOGY}${type}Node`
+    )
+  );
+
+  return {
+    nodeType,
+    title: findLiteral(DCTERMS_TITLE),
+    description: findLiteral(DCTERMS_DESCRIPTION),
+  };
+}
+
+/**
+ * Reads the slug, type and title of a node, as needed to list it.
+ *
+ * @param nodePath - File system path of the node folder
+ */
+export async function composeNodeListing(nodePath: string): Promise<NodeListing> {
+  const slug = basename(nodePath);
+  const metadata = await readNodeMetadata(join(getCurrentDistPath(nodePath, 'meta')));
+
+  let nodeType = metadata?.nodeType;
+  if (!nodeType) {
+    const flows: FlowSlug[] = [];
+    for (const flow of ['ref', 'data'] as const) {
+      if (await isDirectory(join(getFlowPath(nodePath, flow)))) flows.push(flow);
+    }
+    nodeType = inferNodeType(flows);
+  }
+
+  return { slug, nodeType, title: metadata?.title ?? slug };
+}
+
+/**
+ * Summarizes a node from its `_current` meta distribution and the contents of its folder.
+ *
+ * @param nodePath - File system path of the node folder
+ */
+export async function composeNodeSummary(nodePath: string): Promise<NodeSummary> {
+  const slug = basename(nodePath);
+  const metadata = await readNodeMetadata(join(getCurrentDistPath(nodePath, 'meta')));
+
+  const flows: FlowSlug[] = [];
+  const versions: Partial<Record<FlowSlug, number[]>> = {};
+  for (const flow of FLOW_SLUGS) {
+    if (!await isDirectory(join(getFlowPath(nodePath, flow)))) continue;
+    flows.push(flow);
+    versions[flow] = await listVersions(nodePath, flow);
+  }
+
+  const distributions: NodeDistribution[] = [];
+  const distributionDirs = [
+    ...flows.map((flow) => join(getCurrentSnapshotPath(nodePath, flow))),
+    join(getUnifiedDatasetPath(nodePath)),
+    join(getAggregatedDatasetPath(nodePath)),
+  ];
+  for (const dirPath of distributionDirs) {
+    distributions.push(...await listDistributions(nodePath, dirPath));
+  }
+
+  return {
+    slug,
+    nodeType: metadata?.nodeType ?? inferNodeType(flows),
+    title: metadata?.title ?? slug,
+    description: metadata?.description ?? '',
+    flows,
+    versions,
+    distributions,
+    childNodePaths: await listChildNodes(nodePath),
+  };
+}
+
+// Types nodes whose meta does not record a type by their flows: a data flow makes a Dataset
+// node, a ref flow a Reference node, and neither a Namespace node
+function inferNodeType(flows: FlowSlug[]): NodeType {
+  if (flows.includes('data')) return 'Dataset';
+  if (flows.includes('ref')) return 'Reference';
+  return 'Namespace';
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await Deno.stat(path)).isDirectory;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+// Lists the distribution files of a folder (if it exists), sorted by path
+async function listDistributions(
+  nodePath: string,
+  dirPath: string,
+): Promise<NodeDistribution[]> {
+  const distributions: NodeDistribution[] = [];
+  try {
+    for await (const entry of Deno.readDir(dirPath)) {
+      const mediaType = entry.isFile ? getDistributionMediaType(entry.name) : undefined;
+      if (!mediaType) continue;
+      const filePath = join(dirPath, entry.name);
+      distributions.push({
+        path: relative(nodePath, filePath),
+        mediaType,
+        size: (await Deno.stat(filePath)).size,
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return distributions.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,256 @@
+/**
+ * Resource Page Generator
+ *
+ * Renders a node's static `index.html` resource page from its mapped template, so that a
+ * published mesh can be browsed by humans. A page shows the node's title and description
+ * from its meta flow, links to its distributions and versions, its child nodes, and
+ * breadcrumbs up to the mesh root. All links are relative, so pages work wherever the mesh
+ * is hosted.
+ *
+ * Templates use `{{name}}` placeholders for text and `{{{name}}}` placeholders for the
+ * generated link lists.
+ */
+
+import {
+  basename,
+  dirname,
+  join,
+  relative,
+  resolve,
+} from '../../../flow-core/src/deps.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  FLOW_SLUGS,
+  getAggregatedDatasetPath,
+  getCurrentDistPath,
+  getCurrentSnapshotPath,
+  getNextDistPath,
+  getUnifiedDatasetPath,
+  getVersionSnapshotPath,
+  parseVersionSnapshotDir,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { getComponentLogger } from '../../../flow-core/src/utils/logger/component-logger.ts';
+import type { ResourcePageSettings } from '../config/resolution/node-config-resolver.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import { getNodeAncestry, listChildNodes, listVersions } from '../utils/mesh-utils.ts';
+import { DEFAULT_ASSETS_URL } from './default-assets.ts';
+import { readNodeMetadata } from './node-summary.ts';
+
+const logger = getComponentLogger(import.meta);
+
+export const RESOURCE_PAGE_FILE = 'index.html';
+
+// Used when the template mapped in the config does not exist in the mesh
+const DEFAULT_TEMPLATE_URL = new URL(
+  '_templates/default-resource-page.html',
+  DEFAULT_ASSETS_URL,
+);
+
+
+export interface ResourcePageLink {
+  readonly href: string;
+  readonly label: string;
+}
+
+export interface ResourcePageContent {
+  readonly title: string;
+  readonly description: string;
+  readonly stylesheetHref: string;
+  /** The mesh root's `_assets` folder, with a trailing slash */
+  readonly assetsHref: string;
+  readonly breadcrumbs: ResourcePageLink[];
+  readonly distributions: ResourcePageLink[];
+  readonly versions: ResourcePageLink[];
+  readonly children: ResourcePageLink[];
+}
+
+export function getResourcePagePath(nodePath: string): string {
+  return join(nodePath, RESOURCE_PAGE_FILE);
+}
+
+/**
+ * Generates the resource page of a node as it will be once a weave has completed.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param settings - The node's resource page settings
+ * @param plannedPaths - Distribution files the weave is about to write, linked even though
+ *   they may not exist yet
+ * @returns The rendered HTML
+ */
+export async function generateResourcePage(
+  nodePath: string,
+  settings: ResourcePageSettings,
+  plannedPaths: string[] = [],
+): Promise<string> {
+  const ancestry = await getNodeAncestry(nodePath);
+  const meshPath = ancestry[0];
+  const depth = ancestry.length - 1;
+
+  const { title, description } = await readNodeDescription(nodePath);
+  const { distributions, versions } = await collectDistributionLinks(
+    nodePath,
+    plannedPaths,
+  );
+  const children = (await listChildNodes(nodePath)).map((childPath) => ({
+    href: `${basename(childPath)}/${RESOURCE_PAGE_FILE}`,
+    label: basename(childPath),
+  }));
+  const breadcrumbs = ancestry.map((ancestorPath, index) => ({
+    href: `${'../'.repeat(depth - index)}${RESOURCE_PAGE_FILE}`,
+    label: basename(ancestorPath),
+  }));
+
+  const template = await loadTemplate(meshPath, nodePath, settings.templatePath);
+  return renderResourcePage(template, {
+    title,
+    description,
+    stylesheetHref: resolveMeshHref(settings.stylesheetPath, depth),
+    assetsHref: resolveMeshHref(`/${MESH.ASSETS_DIR}/`, depth),
+    breadcrumbs,
+    distributions,
+    versions,
+    children,
+  });
+}
+
+/**
+ * Renders a resource page template: `{{name}}` placeholders are replaced with the escaped
+ * text of the content property, `{{{name}}}` placeholders with a list of its links. Unknown
+ * placeholders are removed.
+ */
+export function renderResourcePage(
+  template: string,
+  content: ResourcePageContent,
+): string {
+  const values = content as unknown as Record<string, unknown>;
+  return template.replace(
+    /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g,
+    (_match, listName: string | undefined, textName: string | undefined) => {
+      if (listName) {
+        const links = values[listName];
+        return Array.isArray(links)
+          ? renderLinkList(links, listName === 'breadcrumbs' ? 'ol' : 'ul')
+          : '';
+      }
+      const text = values[textName ?? ''];
+      return typeof text === 'string' ? escapeHtml(text) : '';
+    },
+  );
+}
+
+function renderLinkList(links: ResourcePageLink[], tag: 'ol' | 'ul'): string {
+  if (links.length === 0) return '<p>None.</p>';
+  const items = links.map(({ href, label }) =>
+    `<li><a href="${escapeHtml(href)}">${escapeHtml(label)}</a></li>`
+  );
+  return `<${tag}>${items.join('')}</${tag}>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Paths starting with '/' are relative to the mesh root
+function resolveMeshHref(path: string, depth: number): string {
+  return path.startsWith('/') ? `${'../'.repeat(depth)}${path.slice(1)}` : path;
+}
+
+async function loadTemplate(
+  meshPath: string,
+  nodePath: string,
+  templatePath: string,
+): Promise<string> {
+  const path = templatePath.startsWith('/')
+    ? join(meshPath, templatePath.slice(1))
+    : join(nodePath, templatePath);
+  const template = await readTextFileIfExists(path);
+  if (template !== undefined) return template;
+
+  logger.debug(
+    `Resource page template '${path}' not found, using the default template`,
+  );
+  return await Deno.readTextFile(DEFAULT_TEMPLATE_URL);
+}
+
+/**
+ * Reads the title and description of the node from the meta flow snapshot the weave
+ * publishes (`_next`, or `_current` if there is none), falling back to the node's slug.
+ */
+async function readNodeDescription(
+  nodePath: string,
+): Promise<{ title: string; description: string }> {
+  const slug = basename(nodePath);
+
+  for (const path of [getNextDistPath(nodePath, 'meta'), getCurrentDistPath(nodePath, 'meta')]) {
+    const metadata = await readNodeMetadata(join(path));
+    if (!metadata) continue;
+    return {
+      title: metadata.title ?? slug,
+      description: metadata.description ?? '',
+    };
+  }
+  return { title: slug, description: '' };
+}
+
+/**
+ * Collects links to the files of every flow's `_current` and `_vN` snapshot folders and of
+ * the generated dataset folders, both existing and planned.
+ */
+async function collectDistributionLinks(
+  nodePath: string,
+  plannedPaths: string[],
+): Promise<{ distributions: ResourcePageLink[]; versions: ResourcePageLink[] }> {
+  const currentPaths = new Set<string>();
+  const versionPaths = new Set<string>();
+
+  const distributionDirs = [
+    ...FLOW_SLUGS.map((flow) => resolve(getCurrentSnapshotPath(nodePath, flow))),
+    resolve(getUnifiedDatasetPath(nodePath)),
+    resolve(getAggregatedDatasetPath(nodePath)),
+  ];
+  for (const dirPath of distributionDirs) {
+    for (const path of await listFiles(dirPath)) currentPaths.add(path);
+  }
+
+  for (const flow of FLOW_SLUGS) {
+    for (const version of await listVersions(nodePath, flow)) {
+      const versionDir = join(getVersionSnapshotPath(nodePath, flow, version));
+      for (const path of await listFiles(versionDir)) versionPaths.add(path);
+    }
+  }
+
+  for (const path of plannedPaths) {
+    if (distributionDirs.includes(resolve(dirname(path)))) currentPaths.add(path);
+    else if (parseVersionSnapshotDir(basename(dirname(path))) !== undefined) {
+      versionPaths.add(path);
+    }
+  }
+
+  // Existing and planned paths may differ in form, so they are deduplicated once relative
+  const toLinks = (paths: Set<string>) =>
+    [...new Set([...paths].map((path) => relative(nodePath, path)))]
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map((href) => ({ href, label: basename(href) }));
+
+  return {
+    distributions: toLinks(currentPaths),
+    versions: toLinks(versionPaths),
+  };
+}
+
+async function listFiles(dirPath: string): Promise<string[]> {
+  const paths: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dirPath)) {
+      if (entry.isFile) paths.push(join(dirPath, entry.name));
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return paths;
+}
@@ -0,0 +1,139 @@
+/**
+ * SPARQL Query
+ *
+ * Runs SPARQL 1.1 queries against a quadstore with its Comunica engine. The default graph is
+ * the union of all named graphs, so queries without GRAPH clauses span every indexed mesh.
+ *
+ * As in the SPARQL 1.1 Protocol, a query can instead be given a list of default graph URIs,
+ * which replace the FROM clauses of the query.
+ *
+ * Results are collected in memory, and a query that takes longer than the timeout is
+ * abandoned.
+ */
+
+import { DataFactory, SparqlGenerator, SparqlParser } from '../../../flow-core/src/deps.ts';
+import type { RDF } from '../../../flow-core/src/deps.ts';
+import type { QuadstoreBundle } from '../../../flow-core/src/types.ts';
+import type { SparqlBindingsRow } from '../../../flow-core/src/utils/sparql-results-utils.ts';
+import { SparqlQueryTimeoutError, ValidationError } from '../utils/errors.ts';
+
+export type SparqlQueryResult =
+  | { readonly type: 'bindings'; readonly variables: string[]; readonly rows: SparqlBindingsRow[] }
+  | { readonly type: 'boolean'; readonly value: boolean }
+  | { readonly type: 'quads'; readonly quads: RDF.Quad[] };
+
+// The parts of Comunica's query results used here
+interface ComunicaQuery {
+  resultType: 'bindings' | 'boolean' | 'quads' | 'void';
+  execute(): Promise<unknown>;
+  metadata?(): Promise<{ variables: unknown[] }>;
+}
+
+interface ComunicaBindings {
+  get(variable: string): RDF.Term | undefined;
+}
+
+interface ResultStream<T> extends AsyncIterable<T> {
+  destroy?(): void;
+}
+
+/**
+ * Runs a SELECT, ASK, CONSTRUCT or DESCRIBE query.
+ *
+ * @param query - The query string
+ * @param bundle - The quadstore to query
+ * @param timeoutMs - Milliseconds after which the query is abandoned
+ * @param defaultGraphUris - Graphs whose merge is the default graph of the query, replacing
+ *   its FROM clauses; by default the query's own dataset is used
+ * @throws ValidationError if the query cannot be parsed or is an update
+ * @throws SparqlQueryTimeoutError if the query does not complete in time
+ */
+export async function executeSparqlQuery(
+  query: string,
+  bundle: QuadstoreBundle,
+  timeoutMs: number,
+  defaultGraphUris: readonly string[] = [],
+): Promise<SparqlQueryResult> {
+  if (!bundle.engine) {
+    throw new Error('SPARQL engine not initialized in Quadstore bundle');
+  }
+
+  let prepared: ComunicaQuery;
+  try {
+    if (defaultGraphUris.length > 0) query = setDefaultGraphs(query, defaultGraphUris);
+    prepared = await bundle.engine.query(query, {
+      unionDefaultGraph: true,
+    }) as unknown as ComunicaQuery;
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid SPARQL query: ${error instanceof Error ? error.message : String(error)}`,
+      'query',
+    );
+  }
+  if (prepared.resultType === 'void') {
+    throw new ValidationError(
+      'SPARQL updates are not accepted by the query operation.',
+      'query',
+    );
+  }
+
+  let stream: ResultStream<unknown> | undefined;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      stream?.destroy?.();
+      reject(new SparqlQueryTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  const collect = async (): Promise<SparqlQueryResult> => {
+    if (prepared.resultType === 'boolean') {
+      return { type: 'boolean', value: await prepared.execute() as boolean };
+    }
+    stream = await prepared.execute() as ResultStream<unknown>;
+    if (prepared.resultType === 'quads') {
+      const quads: RDF.Quad[] = [];
+      for await (const quad of stream as ResultStream<RDF.Quad>) quads.push(quad);
+      return { type: 'quads', quads };
+    }
+
+    const variables = (await prepared.metadata?.())?.variables.map(getVariableName) ?? [];
+    const rows: SparqlBindingsRow[] = [];
+    for await (const bindings of stream as ResultStream<ComunicaBindings>) {
+      const row: SparqlBindingsRow = {};
+      for (const variable of variables) {
+        const term = bindings.get(variable);
+        if (term) row[variable] = term;
+      }
+      rows.push(row);
+    }
+    return { type: 'bindings', variables, rows };
+  };
+
+  const collecting = collect();
+  // Once the query has timed out, a late failure has nobody left to report to
+  collecting.catch(() => {});
+  try {
+    return await Promise.race([collecting, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Rewrites a query so its default graph is the merge of the given graphs
+function setDefaultGraphs(query: string, defaultGraphUris: readonly string[]): string {
+  const parsed = new SparqlParser().parse(query);
+  if (parsed.type !== 'query') return query;
+  const df = new DataFactory();
+  parsed.from = {
+    default: defaultGraphUris.map((uri) => df.namedNode(uri)),
+    named: parsed.from?.named ?? [],
+  };
+  return new SparqlGenerator().stringify(parsed);
+}
+
+// Comunica lists projected variables as terms, or as `{ variable, canBeUndef }` entries
+function getVariableName(entry: unknown): string {
+  const term = (entry as { variable?: RDF.Variable }).variable ?? entry as RDF.Variable;
+  return term.value;
+}
@@ -0,0 +1,299 @@
+/**
+ * SPARQL Update
+ *
+ * Applies SPARQL 1.1 INSERT and DELETE operations to the `_next` data and meta snapshots of
+ * mesh nodes. The update runs in a temporary in-memory quadstore holding the indexed graphs
+ * of the meshes it targets and each targeted snapshot, loaded into its own graph (see
+ * `getNextSnapshotGraphUri`). The resulting graphs are written back to the snapshot files as
+ * JSON-LD objects, compacted with the snapshots' own `@context`. Queries on the mesh quadstore
+ * never see the snapshots being updated.
+ *
+ * Every quad pattern of an update must name a `_next` snapshot graph, through GRAPH or WITH.
+ * Updates that would touch `_current` or `_vN` graphs, or any other graph, are refused, so
+ * published versions stay immutable. WHERE clauses may read any graph of the targeted meshes.
+ *
+ * Updates run under the weave lock of every mesh they target (see `withMeshWeaveLock`), so
+ * they never interleave with each other, with weaves, or with the node routes writing the
+ * same `_next` snapshots.
+ */
+
+import {
+  DataFactory,
+  join,
+  resolve,
+  SparqlParser,
+  toFileUrl,
+} from '../../../flow-core/src/deps.ts';
+import type {
+  NodeObject,
+  RDF,
+  SparqlQuads,
+  SparqlUpdateOperation,
+} from '../../../flow-core/src/deps.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import type { QuadstoreBundle } from '../../../flow-core/src/types.ts';
+import {
+  type FlowSlug,
+  getCurrentDistPath,
+  getFlowDir,
+  getNextDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import {
+  closeQuadstoreBundle,
+  createQuadstoreBundle,
+} from '../../../flow-core/src/utils/quadstore/quadstore-factory.ts';
+import { quadsToJsonLdSnapshot } from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import { jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { getMeshPath, hasNodeSignature, resolveMeshNodePath } from '../utils/mesh-utils.ts';
+import {
+  NodeNotFoundError,
+  SparqlUpdateTargetError,
+  ValidationError,
+} from '../utils/errors.ts';
+import { getCurrentServiceUri } from '../utils/service-uri-builder.ts';
+import { getMeshGraphUriPrefix, getNextSnapshotGraphUri } from './mesh-indexer.ts';
+import { withMeshWeaveLock } from './weave-processor.ts';
+import { parseJsonLdSnapshot } from './dataset-composer.ts';
+import { composeNodeListing } from './node-summary.ts';
+
+// Flows whose `_next` snapshots can be updated
+const UPDATABLE_FLOWS: readonly FlowSlug[] = [MESH.DATA, MESH.META];
+
+export interface SnapshotUpdateResult {
+  /** Name of the `_next` snapshot graph */
+  readonly graph: string;
+  /** Path of the written `_next` snapshot */
+  readonly path: string;
+  readonly quadCount: number;
+}
+
+interface SnapshotTarget {
+  readonly graph: string;
+  readonly meshName: string;
+  readonly nodePath: string;
+  readonly flow: FlowSlug;
+}
+
+interface LoadedSnapshot {
+  readonly quads: RDF.Quad[];
+  readonly context?: NodeObject['@context'];
+}
+
+/**
+ * Runs a SPARQL update against the `_next` snapshots it targets.
+ *
+ * @param update - The update request string
+ * @param meshBundle - The mesh quadstore, from which the graphs of the targeted meshes are read
+ * @returns The snapshots that were written
+ * @throws ValidationError if the update cannot be parsed, contains operations other than
+ *   INSERT and DELETE, or targets data of a node that is not a Dataset node
+ * @throws SparqlUpdateTargetError if the update would change a graph other than a `_next`
+ *   snapshot graph
+ * @throws MeshNotFoundError if a targeted mesh is not registered
+ * @throws NodeNotFoundError if a targeted node does not exist
+ */
+export async function executeSparqlUpdate(
+  update: string,
+  meshBundle: QuadstoreBundle,
+): Promise<SnapshotUpdateResult[]> {
+  const targets = await resolveTargets(collectTargetGraphs(update));
+  const meshNames = [...new Set(targets.map((target) => target.meshName))].sort();
+
+  // Locks are taken in mesh name order, so two updates never wait for each other's meshes
+  const run = meshNames.reduceRight(
+    (next: () => Promise<SnapshotUpdateResult[]>, meshName) => () =>
+      withMeshWeaveLock(meshName, next),
+    () => applyUpdate(update, targets, meshNames, meshBundle),
+  );
+  return await run();
+}
+
+async function applyUpdate(
+  update: string,
+  targets: SnapshotTarget[],
+  meshNames: string[],
+  meshBundle: QuadstoreBundle,
+): Promise<SnapshotUpdateResult[]> {
+  const bundle = await createQuadstoreBundle({ backend: 'memory' });
+  try {
+    if (!bundle.engine) {
+      throw new Error('SPARQL engine not initialized in Quadstore bundle');
+    }
+    await copyMeshGraphs(meshBundle, bundle, meshNames);
+
+    const graphs = targets.map((target) => bundle.df.namedNode(target.graph));
+    const contexts: LoadedSnapshot['context'][] = [];
+    for (const [index, target] of targets.entries()) {
+      const { quads, context } = await loadNextSnapshot(target, graphs[index]);
+      await bundle.store.multiPut(quads);
+      contexts.push(context);
+    }
+
+    await bundle.engine.queryVoid(update, { unionDefaultGraph: true } as never);
+
+    const results: SnapshotUpdateResult[] = [];
+    for (const [index, target] of targets.entries()) {
+      results.push(await writeNextSnapshot(target, graphs[index], bundle, contexts[index]));
+    }
+    return results;
+  } finally {
+    await closeQuadstoreBundle(bundle);
+  }
+}
+
+// Copies the indexed graphs of the meshes into the store the update runs in, for its WHERE
+// clauses to read
+async function copyMeshGraphs(
+  source: QuadstoreBundle,
+  target: QuadstoreBundle,
+  meshNames: string[],
+): Promise<void> {
+  const prefixes = meshNames.map(getMeshGraphUriPrefix);
+  const { items } = await source.store.get({});
+  await target.store.multiPut(
+    items.filter((quad) => prefixes.some((prefix) => quad.graph.value.startsWith(prefix))),
+  );
+}
+
+// Lists the graphs the update would change, refusing operations other than INSERT and DELETE
+function collectTargetGraphs(update: string): string[] {
+  let parsed;
+  try {
+    parsed = new SparqlParser().parse(update);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid SPARQL update: ${error instanceof Error ? error.message : String(error)}`,
+      'update',
+    );
+  }
+  if (parsed.type !== 'update') {
+    throw new ValidationError(
+      'Expected a SPARQL update; send queries to the query endpoint.',
+      'update',
+    );
+  }
+
+  const graphs = new Set<string>();
+  for (const operation of parsed.updates) {
+    if (!('updateType' in operation)) {
+      throw new ValidationError(
+        `SPARQL ${operation.type.toUpperCase()} operations are not accepted; use INSERT and DELETE.`,
+        'update',
+      );
+    }
+    // WITH only exists in DELETE/INSERT ... WHERE operations
+    const withGraph = operation.updateType === 'insertdelete' ? operation.graph : undefined;
+    for (const pattern of getQuadPatterns(operation)) {
+      const graph = pattern.type === 'graph' ? pattern.name : withGraph;
+      if (!graph || graph.termType !== 'NamedNode') {
+        throw new SparqlUpdateTargetError(
+          'Every quad pattern of an update must name a _next snapshot graph, using GRAPH <...> or WITH <...>.',
+        );
+      }
+      graphs.add(graph.value);
+    }
+  }
+  if (graphs.size === 0) {
+    throw new ValidationError('The SPARQL update changes no graph.', 'update');
+  }
+  return [...graphs];
+}
+
+function getQuadPatterns(operation: SparqlUpdateOperation): SparqlQuads[] {
+  if (!('updateType' in operation)) return [];
+  return [
+    ...('insert' in operation ? operation.insert ?? [] : []),
+    ...('delete' in operation ? operation.delete ?? [] : []),
+  ];
+}
+
+// Maps `_next` snapshot graph names to the snapshots, refusing every other graph
+async function resolveTargets(graphs: string[]): Promise<SnapshotTarget[]> {
+  const targets: SnapshotTarget[] = [];
+  for (const graph of graphs) {
+    const meshesPrefix = getCurrentServiceUri('meshes');
+    const segments = graph.startsWith(meshesPrefix)
+      ? graph.slice(meshesPrefix.length).split('/').filter((segment) => segment)
+      : [];
+    const snapshotDir = segments.at(-1);
+    const flow = UPDATABLE_FLOWS.find((flow) => getFlowDir(flow) === segments.at(-2));
+
+    if (segments.length < 3 || snapshotDir !== MESH.NEXT_SNAPSHOT_DIR || !flow) {
+      const immutable = snapshotDir === MESH.CURRENT_SNAPSHOT_DIR ||
+        snapshotDir?.startsWith(MESH.VERSION_SNAPSHOT_PREFIX) ||
+        segments.at(-1)?.endsWith('-flow');
+      throw new SparqlUpdateTargetError(
+        immutable
+          ? `Graph <${graph}> holds a published snapshot, which cannot be changed; update the _next snapshot instead.`
+          : `Graph <${graph}> is not a _next data or meta snapshot graph.`,
+        graph,
+      );
+    }
+
+    const [meshName, ...nodeSegments] = segments.slice(0, -2);
+    const meshPath = getMeshPath(meshName);
+    const relativeNodePath = nodeSegments.join('/');
+    const nodePath = resolveMeshNodePath(meshPath, relativeNodePath);
+    if (!await hasNodeSignature(nodePath)) {
+      throw new NodeNotFoundError(
+        `No mesh node found for graph <${graph}> at path '${nodePath}'.`,
+        { graph, nodePath },
+      );
+    }
+    if (flow === MESH.DATA) {
+      const { nodeType } = await composeNodeListing(nodePath);
+      if (nodeType !== 'Dataset') {
+        throw new ValidationError(
+          `Node at '${nodePath}' is a ${nodeType} node; only Dataset nodes carry data.`,
+          'update',
+        );
+      }
+    }
+    // Normalized, so the update and the loaded snapshot use the same graph name
+    if (graph !== getNextSnapshotGraphUri(meshName, relativeNodePath, flow)) {
+      throw new SparqlUpdateTargetError(
+        `Graph <${graph}> is not a _next snapshot graph; use <${getNextSnapshotGraphUri(meshName, relativeNodePath, flow)}>.`,
+        graph,
+      );
+    }
+    targets.push({ graph, meshName, nodePath, flow });
+  }
+  return targets;
+}
+
+// Reads the `_next` snapshot, or `_current` if the node has no pending changes yet
+async function loadNextSnapshot(
+  target: SnapshotTarget,
+  graph: RDF.NamedNode,
+): Promise<LoadedSnapshot> {
+  const nextPath = join(getNextDistPath(target.nodePath, target.flow));
+  for (const path of [nextPath, join(getCurrentDistPath(target.nodePath, target.flow))]) {
+    const content = await readTextFileIfExists(path);
+    if (content === undefined) continue;
+    const snapshot = parseJsonLdSnapshot(content, path);
+    return {
+      quads: await jsonldToQuads(snapshot, graph, toFileUrl(resolve(nextPath)).href),
+      context: snapshot['@context'],
+    };
+  }
+  return { quads: [] };
+}
+
+async function writeNextSnapshot(
+  target: SnapshotTarget,
+  graph: RDF.NamedNode,
+  bundle: QuadstoreBundle,
+  context?: NodeObject['@context'],
+): Promise<SnapshotUpdateResult> {
+  const df = new DataFactory();
+  const { items } = await bundle.store.get({ graph });
+  const quads = items.map((quad) =>
+    df.quad(quad.subject, quad.predicate, quad.object, df.defaultGraph())
+  );
+
+  const path = join(getNextDistPath(target.nodePath, target.flow));
+  const snapshot = await quadsToJsonLdSnapshot(quads, toFileUrl(resolve(path)).href, context);
+  await writeTextFileEnsuringDir(path, JSON.stringify(snapshot, null, 2));
+  return { graph: target.graph, path, quadCount: quads.length };
+}
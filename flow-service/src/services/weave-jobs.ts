@@ -0,0 +1,201 @@
+/**
+ * Weave Jobs
+ *
+ * Runs weaves in the background, so that large meshes can be woven without holding an HTTP
+ * request open. Jobs are kept in memory and can be polled and cancelled; cancellation takes
+ * effect between nodes.
+ *
+ * Jobs behave like direct weaves: they take the same per-mesh lock (see
+ * `withMeshWeaveLock`), and a job stops at the first node that fails to weave, leaving the
+ * nodes after it pending.
+ *
+ * Every log entry of a job run carries the job id as its `operationId`.
+ */
+
+import type { LogContext } from '../../../flow-core/src/utils/logger/logger-types.ts';
+import { getComponentLogger } from '../../../flow-core/src/utils/logger/component-logger.ts';
+import { handleCaughtError } from '../../../flow-core/src/utils/logger/error-handlers.ts';
+import { createServiceLogContext } from '../utils/service-log-context.ts';
+import { discoverMeshNodes } from '../utils/mesh-utils.ts';
+import { weaveNode, withMeshWeaveLock } from './weave-processor.ts';
+
+const logger = getComponentLogger(import.meta);
+
+export type WeaveJobState =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled';
+
+export interface WeaveJobNodeProgress {
+  readonly nodePath: string;
+  state: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  filesChanged: string[];
+}
+
+export interface WeaveJobError {
+  readonly nodePath?: string;
+  readonly message: string;
+}
+
+export interface WeaveJob {
+  readonly id: string;
+  readonly nodeSpecifier: string;
+  readonly meshName: string;
+  readonly nodePath: string;
+  readonly recursive: boolean;
+  state: WeaveJobState;
+  readonly createdAt: string;
+  startedAt?: string;
+  endedAt?: string;
+  nodes: WeaveJobNodeProgress[];
+  errors: WeaveJobError[];
+  cancelRequested: boolean;
+}
+
+/** Finished jobs beyond this number are forgotten, oldest first */
+const MAX_FINISHED_JOBS = 100;
+
+const weaveJobs = new Map<string, WeaveJob>();
+
+/**
+ * Creates a weave job and queues it for execution.
+ *
+ * @param nodeSpecifier - The node specifier the job was requested for
+ * @param meshName - The mesh the node belongs to
+ * @param nodePath - File system path of the node folder
+ * @param recursive - Whether to also weave every node below the node
+ * @returns The queued job
+ */
+export function createWeaveJob(
+  nodeSpecifier: string,
+  meshName: string,
+  nodePath: string,
+  recursive: boolean,
+): WeaveJob {
+  const job: WeaveJob = {
+    id: crypto.randomUUID(),
+    nodeSpecifier,
+    meshName,
+    nodePath,
+    recursive,
+    state: 'queued',
+    createdAt: new Date().toISOString(),
+    nodes: [],
+    errors: [],
+    cancelRequested: false,
+  };
+  weaveJobs.set(job.id, job);
+  pruneFinishedJobs();
+
+  logger.info(
+    `Queued weave job ${job.id} for '${nodeSpecifier}'`,
+    getJobLogContext(job),
+  );
+  withMeshWeaveLock(meshName, () => runWeaveJob(job));
+  return job;
+}
+
+export function getWeaveJob(id: string): WeaveJob | undefined {
+  return weaveJobs.get(id);
+}
+
+/**
+ * Requests cancellation of a job. A queued job is cancelled immediately; a running job
+ * stops before weaving its next node.
+ *
+ * @returns The job, or `undefined` if there is no job with this id
+ */
+export function cancelWeaveJob(id: string): WeaveJob | undefined {
+  const job = weaveJobs.get(id);
+  if (!job || isFinished(job)) return job;
+
+  job.cancelRequested = true;
+  if (job.state === 'queued') {
+    job.state = 'cancelled';
+    job.endedAt = new Date().toISOString();
+  }
+  logger.info(`Cancellation requested for weave job ${job.id}`, getJobLogContext(job));
+  return job;
+}
+
+export function isFinished(job: WeaveJob): boolean {
+  return job.state === 'succeeded' || job.state === 'failed' ||
+    job.state === 'cancelled';
+}
+
+async function runWeaveJob(job: WeaveJob): Promise<void> {
+  if (job.state === 'cancelled') return;
+
+  const logContext = getJobLogContext(job);
+  job.state = 'running';
+  job.startedAt = new Date().toISOString();
+  logger.info(`Started weave job ${job.id}`, logContext);
+
+  try {
+    const nodePaths = job.recursive
+      ? await discoverMeshNodes(job.nodePath)
+      : [job.nodePath];
+    job.nodes = nodePaths.map((nodePath) => ({
+      nodePath,
+      state: 'pending',
+      filesChanged: [],
+    }));
+
+    for (const progress of job.nodes) {
+      if (job.cancelRequested) {
+        progress.state = 'cancelled';
+        continue;
+      }
+      progress.state = 'running';
+      try {
+        const result = await weaveNode(progress.nodePath, logContext);
+        progress.filesChanged = result.filesChanged;
+        progress.state = 'succeeded';
+      } catch (error) {
+        progress.state = 'failed';
+        job.errors.push({
+          nodePath: progress.nodePath,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        await handleCaughtError(
+          error,
+          `Weave job ${job.id} failed to weave node '${progress.nodePath}'`,
+          logContext,
+        );
+        // Like a direct weave, parents are not woven against a failed descendant
+        break;
+      }
+    }
+  } catch (error) {
+    job.errors.push({
+      message: error instanceof Error ? error.message : String(error),
+    });
+    await handleCaughtError(error, `Weave job ${job.id} failed`, logContext);
+  }
+
+  job.state = job.cancelRequested
+    ? 'cancelled'
+    : job.errors.length > 0
+    ? 'failed'
+    : 'succeeded';
+  job.endedAt = new Date().toISOString();
+  logger.info(`Weave job ${job.id} ended: ${job.state}`, logContext);
+}
+
+function getJobLogContext(job: WeaveJob): LogContext {
+  return createServiceLogContext({
+    operation: 'weave-job',
+    operationId: job.id,
+    component: 'weave-jobs',
+    metadata: { nodeSpecifier: job.nodeSpecifier, nodePath: job.nodePath },
+  });
+}
+
+function pruneFinishedJobs(): void {
+  const finishedJobs = [...weaveJobs.values()].filter(isFinished);
+  for (const job of finishedJobs.slice(0, finishedJobs.length - MAX_FINISHED_JOBS)) {
+    weaveJobs.delete(job.id);
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Weave Planner
+ *
+ * Computes the file operations a weave would perform on a node without touching the file
+ * system. The weave processor executes these same plans, so a dry run always matches a
+ * real run.
+ */
+
+import { join, resolve, toFileUrl } from '../../../flow-core/src/deps.ts';
+import type { NodeObject } from '../../../flow-core/src/deps.ts';
+import {
+  FLOW_SLUGS,
+  type FlowSlug,
+  getAggregatedDatasetDistPath,
+  getCurrentDistPath,
+  getNextDistPath,
+  getUnifiedDatasetDistPath,
+  getVersionDistPath,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import { diffQuads, jsonldToQuads } from '../../../flow-core/src/utils/rdfjs-utils.ts';
+import {
+  serializeJsonLdAs,
+  serializeQuadsAs,
+} from '../../../flow-core/src/utils/rdf-format-utils.ts';
+import type { DistributionMediaType } from '../../../flow-core/src/mesh-constants.ts';
+import { readTextFileIfExists } from '../utils/fs-utils.ts';
+import { WeaveError } from '../utils/errors.ts';
+import type { MeshRootNodeConfig } from '../config/config-types.ts';
+import {
+  getDatasetGenerationSettings,
+  getDistributionFormats,
+  getResourcePageSettings,
+  isVersioningEnabled,
+  resolveNodeConfigAtPath,
+} from '../config/resolution/node-config-resolver.ts';
+import {
+  generateResourcePage,
+  getResourcePagePath,
+} from './resource-page-generator.ts';
+import {
+  composeAggregatedDataset,
+  composeUnifiedDataset,
+  parseJsonLdSnapshot,
+} from './dataset-composer.ts';
+import { discoverMeshNodes, listVersions } from '../utils/mesh-utils.ts';
+
+/**
+ * Outcome of weaving a single flow:
+ * - `updated`: a version snapshot was minted and/or the `_current` distribution was (re)written
+ * - `unchanged`: the `_current` distribution already matched the `_next` snapshot
+ * - `skipped`: the node has no `_next` snapshot for this flow
+ */
+export type FlowWeaveStatus = 'updated' | 'unchanged' | 'skipped';
+
+/**
+ * A single file write planned by a weave:
+ * - `mint-version`: freezes the `_next` snapshot as a new `_vN` snapshot, in one format
+ * - `regenerate-distribution`: rewrites a `_current` distribution, in one format
+ * - `generate-unified-dataset`: rewrites the node's unified dataset, in one format
+ * - `generate-aggregated-dataset`: rewrites the node's aggregated dataset, in one format
+ * - `generate-resource-page`: rewrites the node's HTML resource page
+ */
+export interface WeaveOperation {
+  readonly type:
+    | 'mint-version'
+    | 'regenerate-distribution'
+    | 'generate-unified-dataset'
+    | 'generate-aggregated-dataset'
+    | 'generate-resource-page';
+  readonly action: 'create' | 'overwrite';
+  readonly path: string;
+  readonly mediaType: DistributionMediaType | 'text/html';
+  readonly version?: number;
+}
+
+/** Quad counts of a flow's `_current` distribution before and after the weave */
+export interface QuadCountSummary {
+  readonly current: number;
+  readonly next: number;
+  readonly added: number;
+  readonly removed: number;
+}
+
+export interface FlowWeavePlan {
+  readonly flow: FlowSlug;
+  readonly status: FlowWeaveStatus;
+  /** The version snapshot the weave mints, if any */
+  readonly version?: number;
+  readonly operations: WeaveOperation[];
+  /** Only computed when requested, as it requires parsing both distributions */
+  readonly quadCounts?: QuadCountSummary;
+}
+
+export interface NodeWeavePlan {
+  readonly nodePath: string;
+  readonly flows: FlowWeavePlan[];
+  /** Unified and aggregated dataset files to (re)write */
+  readonly datasets: WeaveOperation[];
+  /** Absent if the resource page is disabled or already up to date */
+  readonly resourcePage?: WeaveOperation;
+}
+
+export interface WeavePlanOptions {
+  /** Whether to compute quad count summaries for each flow */
+  readonly includeQuadCounts?: boolean;
+}
+
+/**
+ * A flow plan together with the serialized content each of its operations writes, keyed by
+ * the operation's path.
+ */
+export interface ExecutableFlowWeavePlan {
+  readonly plan: FlowWeavePlan;
+  readonly contents: Readonly<Record<string, string>>;
+}
+
+/** An operation together with the content it writes */
+export interface ExecutableWeaveOperation {
+  readonly operation: WeaveOperation;
+  readonly content: string;
+}
+
+/**
+ * A node plan whose operations carry the content they write, for execution by the weave
+ * processor.
+ */
+export interface ExecutableNodeWeavePlan {
+  readonly flows: ExecutableFlowWeavePlan[];
+  readonly datasets: ExecutableWeaveOperation[];
+  readonly resourcePage?: ExecutableWeaveOperation;
+}
+
+/**
+ * Plans the weave of every flow of the node at the given path.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param options - Planning options
+ * @returns The plan, with one entry per flow
+ * @throws WeaveError if a `_next` snapshot cannot be parsed
+ */
+export async function planNodeWeave(
+  nodePath: string,
+  options: WeavePlanOptions = {},
+): Promise<NodeWeavePlan> {
+  const { flows, datasets, resourcePage } = await planExecutableNodeWeave(
+    nodePath,
+    options,
+  );
+  return {
+    nodePath,
+    flows: flows.map(({ plan }) => plan),
+    datasets: datasets.map(({ operation }) => operation),
+    resourcePage: resourcePage?.operation,
+  };
+}
+
+/**
+ * Plans the weave of the node at the given path and every node below it, in weave order
+ * (children before parents).
+ *
+ * Every node is planned against the files on disk: the datasets planned for a parent are
+ * composed from the children's current distributions, not from the children's planned ones.
+ */
+export async function planNodeTreeWeave(
+  nodePath: string,
+  options: WeavePlanOptions = {},
+): Promise<NodeWeavePlan[]> {
+  const plans: NodeWeavePlan[] = [];
+  for (const path of await discoverMeshNodes(nodePath)) {
+    plans.push(await planNodeWeave(path, options));
+  }
+  return plans;
+}
+
+/**
+ * Plans the weave of every flow of a node, of its generated datasets and of its resource
+ * page, keeping the content to write, for execution by the weave processor.
+ */
+export async function planExecutableNodeWeave(
+  nodePath: string,
+  options: WeavePlanOptions = {},
+): Promise<ExecutableNodeWeavePlan> {
+  const config = await resolveNodeConfigAtPath(nodePath);
+  const versioningEnabled = isVersioningEnabled(config);
+  const formats = getDistributionFormats(config);
+  const flows: ExecutableFlowWeavePlan[] = [];
+  for (const flow of FLOW_SLUGS) {
+    flows.push(
+      await planFlowWeave(nodePath, flow, versioningEnabled, formats, options),
+    );
+  }
+  const datasets = await planDatasets(nodePath, config, formats);
+  return {
+    flows,
+    datasets,
+    resourcePage: await planResourcePage(nodePath, config, [
+      ...flows.flatMap(({ plan }) => plan.operations.map(({ path }) => path)),
+      ...datasets.map(({ operation }) => operation.path),
+    ]),
+  };
+}
+
+/**
+ * Plans the regeneration of the node's unified and aggregated datasets, as enabled by its
+ * config, in every configured format.
+ */
+async function planDatasets(
+  nodePath: string,
+  config: MeshRootNodeConfig,
+  formats: DistributionMediaType[],
+): Promise<ExecutableWeaveOperation[]> {
+  const settings = getDatasetGenerationSettings(config);
+  const datasets = [
+    {
+      type: 'generate-unified-dataset' as const,
+      enabled: settings.unified,
+      compose: composeUnifiedDataset,
+      getPath: getUnifiedDatasetDistPath,
+    },
+    {
+      type: 'generate-aggregated-dataset' as const,
+      enabled: settings.aggregated,
+      compose: composeAggregatedDataset,
+      getPath: getAggregatedDatasetDistPath,
+    },
+  ];
+
+  const operations: ExecutableWeaveOperation[] = [];
+  for (const { type, enabled, compose, getPath } of datasets) {
+    const dataset = enabled ? await compose(nodePath) : undefined;
+    if (!dataset) continue;
+
+    for (const mediaType of formats) {
+      const path = join(getPath(nodePath, mediaType));
+      const content = await serializeQuadsAs(
+        dataset.quads,
+        mediaType,
+        toFileUrl(resolve(path)).href,
+        dataset.prefixes,
+      );
+      const existingContent = await readTextFileIfExists(path);
+      if (existingContent === content) continue;
+      operations.push({
+        operation: {
+          type,
+          action: existingContent === undefined ? 'create' : 'overwrite',
+          path,
+          mediaType,
+        },
+        content,
+      });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Plans the regeneration of the node's resource page, which links to the distributions the
+ * flow operations are about to write.
+ */
+async function planResourcePage(
+  nodePath: string,
+  config: MeshRootNodeConfig,
+  plannedPaths: string[],
+): Promise<ExecutableWeaveOperation | undefined> {
+  const settings = getResourcePageSettings(config);
+  if (!settings.enabled) return undefined;
+
+  const path = getResourcePagePath(nodePath);
+  const content = await generateResourcePage(nodePath, settings, plannedPaths);
+  const existingContent = await readTextFileIfExists(path);
+  if (existingContent === content) return undefined;
+
+  return {
+    operation: {
+      type: 'generate-resource-page',
+      action: existingContent === undefined ? 'create' : 'overwrite',
+      path,
+      mediaType: 'text/html',
+    },
+    content,
+  };
+}
+
+/**
+ * Plans the regeneration of one flow's `_current` distributions from its `_next` snapshot,
+ * minting a new version snapshot first if versioning is enabled and the snapshot changed
+ * since the latest version. Every configured distribution format is written; changes are
+ * detected on the canonical JSON-LD serialization.
+ */
+async function planFlowWeave(
+  nodePath: string,
+  flow: FlowSlug,
+  versioningEnabled: boolean,
+  formats: DistributionMediaType[],
+  options: WeavePlanOptions,
+): Promise<ExecutableFlowWeavePlan> {
+  const nextDistPath = join(getNextDistPath(nodePath, flow));
+  const nextContent = await readTextFileIfExists(nextDistPath);
+  if (nextContent === undefined) {
+    return { plan: { flow, status: 'skipped', operations: [] }, contents: {} };
+  }
+
+  const nextJsonLd = parseJsonLdSnapshot(nextContent, nextDistPath);
+  const canonicalContent = serializeJsonLd(nextJsonLd);
+  const operations: WeaveOperation[] = [];
+  const contents: Record<string, string> = {};
+
+  let version: number | undefined;
+  if (versioningEnabled) {
+    const versions = await listVersions(nodePath, flow);
+    const latestVersion = versions[versions.length - 1];
+    const latestContent = latestVersion === undefined
+      ? undefined
+      : await readTextFileIfExists(
+        join(getVersionDistPath(nodePath, flow, latestVersion)),
+      );
+    if (latestContent !== canonicalContent) {
+      version = (latestVersion ?? 0) + 1;
+      for (const mediaType of formats) {
+        const path = join(
+          getVersionDistPath(nodePath, flow, version, mediaType),
+        );
+        contents[path] = await serializeDistribution(nextJsonLd, mediaType, path);
+        operations.push({
+          type: 'mint-version',
+          action: 'create',
+          path,
+          mediaType,
+          version,
+        });
+      }
+    }
+  }
+
+  for (const mediaType of formats) {
+    const path = join(getCurrentDistPath(nodePath, flow, mediaType));
+    const content = await serializeDistribution(nextJsonLd, mediaType, path);
+    const existingContent = await readTextFileIfExists(path);
+    if (existingContent !== content) {
+      contents[path] = content;
+      operations.push({
+        type: 'regenerate-distribution',
+        action: existingContent === undefined ? 'create' : 'overwrite',
+        path,
+        mediaType,
+      });
+    }
+  }
+
+  let quadCounts: QuadCountSummary | undefined;
+  if (options.includeQuadCounts) {
+    const currentDistPath = join(getCurrentDistPath(nodePath, flow));
+    const existingContent = await readTextFileIfExists(currentDistPath);
+    quadCounts = await countQuadChanges(
+      currentDistPath,
+      existingContent === undefined
+        ? undefined
+        : parseJsonLdSnapshot(existingContent, currentDistPath),
+      nextJsonLd,
+    );
+  }
+
+  return {
+    plan: {
+      flow,
+      status: operations.length > 0 ? 'updated' : 'unchanged',
+      version,
+      operations,
+      quadCounts,
+    },
+    contents,
+  };
+}
+
+/**
+ * Counts the quads of the existing and the regenerated `_current` distribution. Both are
+ * parsed against the `_current` distribution's URL, so relative identifiers compare equal.
+ */
+async function countQuadChanges(
+  currentDistPath: string,
+  currentJsonLd: NodeObject | undefined,
+  nextJsonLd: NodeObject,
+): Promise<QuadCountSummary> {
+  const base = toFileUrl(resolve(currentDistPath)).href;
+  const currentQuads = currentJsonLd
+    ? await jsonldToQuads(currentJsonLd, undefined, base)
+    : [];
+  const nextQuads = await jsonldToQuads(nextJsonLd, undefined, base);
+  const { added, removed } = diffQuads(currentQuads, nextQuads);
+  return {
+    current: currentQuads.length,
+    next: nextQuads.length,
+    added: added.length,
+    removed: removed.length,
+  };
+}
+
+function serializeJsonLd(content: NodeObject): string {
+  return JSON.stringify(content, null, 2);
+}
+
+// Relative identifiers are resolved against the file being written, as a reader of it would
+async function serializeDistribution(
+  content: NodeObject,
+  mediaType: DistributionMediaType,
+  path: string,
+): Promise<string> {
+  try {
+    return await serializeJsonLdAs(
+      content,
+      mediaType,
+      toFileUrl(resolve(path)).href,
+    );
+  } catch (error) {
+    throw new WeaveError(
+      `Failed to serialize '${path}' as ${mediaType}: ${error instanceof Error ? error.message : String(error)}`,
+      { path, mediaType },
+    );
+  }
+}
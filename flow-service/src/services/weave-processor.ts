@@ -0,0 +1,163 @@
+/**
+ * Weave Processor
+ *
+ * Publishes a node's pending changes by regenerating the `_current` distributions of each
+ * flow, in every configured format, from its `_next` snapshot. When versioning is enabled
+ * for the node, each changed `_next` snapshot is first frozen as the next `_vN` snapshot.
+ * Then the node's unified and aggregated datasets and its HTML resource page are
+ * regenerated, if enabled.
+ *
+ * The operations to perform are computed by the weave planner. Once written, the node's
+ * graphs in the mesh quadstore are refreshed.
+ *
+ * Weaves of the same mesh, whether requested directly or run as jobs, go through
+ * `withMeshWeaveLock`, so they never write to the same files at the same time. SPARQL updates
+ * and the node routes writing `_next` snapshots take the same lock.
+ */
+
+import type { FlowSlug } from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import type { LogContext } from '../../../flow-core/src/utils/logger/logger-types.ts';
+import { getComponentLogger } from '../../../flow-core/src/utils/logger/component-logger.ts';
+import { mergeLogContext } from '../../../flow-core/src/utils/logger/formatters.ts';
+import { writeTextFileEnsuringDir } from '../utils/fs-utils.ts';
+import { discoverMeshNodes } from '../utils/mesh-utils.ts';
+import { type FlowWeaveStatus, planExecutableNodeWeave } from './weave-planner.ts';
+import { refreshNodeIndex } from './mesh-indexer.ts';
+
+const logger = getComponentLogger(import.meta);
+
+export type { FlowWeaveStatus } from './weave-planner.ts';
+
+// Per mesh, the weave that currently holds the lock, settled or not
+const meshWeaveQueues = new Map<string, Promise<unknown>>();
+
+export interface FlowWeaveResult {
+  readonly flow: FlowSlug;
+  readonly status: FlowWeaveStatus;
+  /** The version snapshot minted by this weave, if any */
+  readonly version?: number;
+  readonly filesChanged: string[];
+}
+
+export interface NodeWeaveResult {
+  readonly nodePath: string;
+  readonly flows: FlowWeaveResult[];
+  /** The unified and aggregated dataset files that were (re)written */
+  readonly datasets: string[];
+  /** The resource page, if it was (re)generated */
+  readonly resourcePage?: string;
+  readonly filesChanged: string[];
+}
+
+/**
+ * Weaves every flow of the node at the given path.
+ *
+ * @param nodePath - File system path of the node folder
+ * @param logContext - Optional context added to every log entry, e.g. a job's operationId
+ * @returns Per-flow results and the list of files that were written
+ * @throws WeaveError if a `_next` snapshot cannot be parsed
+ */
+export async function weaveNode(
+  nodePath: string,
+  logContext?: LogContext,
+): Promise<NodeWeaveResult> {
+  const nodePlan = await planExecutableNodeWeave(nodePath);
+  const flows: FlowWeaveResult[] = [];
+  for (const { plan, contents } of nodePlan.flows) {
+    const filesChanged: string[] = [];
+    for (const operation of plan.operations) {
+      await writeTextFileEnsuringDir(operation.path, contents[operation.path]);
+      filesChanged.push(operation.path);
+      logger.debug(
+        `${operation.type} (${plan.flow}): ${operation.path}`,
+        logContext,
+      );
+    }
+    flows.push({
+      flow: plan.flow,
+      status: plan.status,
+      version: plan.version,
+      filesChanged,
+    });
+  }
+
+  const datasets: string[] = [];
+  for (const { operation, content } of nodePlan.datasets) {
+    await writeTextFileEnsuringDir(operation.path, content);
+    datasets.push(operation.path);
+    logger.debug(`${operation.type}: ${operation.path}`, logContext);
+  }
+
+  // Written last, as it links to the distributions written above
+  let resourcePage: string | undefined;
+  if (nodePlan.resourcePage) {
+    const { operation, content } = nodePlan.resourcePage;
+    await writeTextFileEnsuringDir(operation.path, content);
+    resourcePage = operation.path;
+    logger.debug(`${operation.type}: ${operation.path}`, logContext);
+  }
+
+  const filesChanged = [
+    ...flows.flatMap((result) => result.filesChanged),
+    ...datasets,
+    ...(resourcePage ? [resourcePage] : []),
+  ];
+  if (flows.some((result) => result.filesChanged.length > 0)) {
+    await refreshNodeIndex(nodePath, logContext);
+  }
+  logger.info(
+    `Wove node at '${nodePath}': ${filesChanged.length} file(s) changed`,
+    mergeLogContext(
+      { operation: 'weave' },
+      logContext,
+      { metadata: { nodePath, filesChanged } },
+    ),
+  );
+
+  return { nodePath, flows, datasets, resourcePage, filesChanged };
+}
+
+/**
+ * Weaves the node at the given path and every node below it, children before parents, so
+ * that a parent is always woven against its descendants' fresh `_current` distributions.
+ *
+ * @param nodePath - File system path of the subtree's root node folder
+ * @returns One result per woven node, in weave order
+ * @throws WeaveError if a `_next` snapshot cannot be parsed; nodes after the failing one are not woven
+ */
+export async function weaveNodeTree(
+  nodePath: string,
+): Promise<NodeWeaveResult[]> {
+  const nodePaths = await discoverMeshNodes(nodePath);
+  logger.info(
+    `Weaving ${nodePaths.length} node(s) under '${nodePath}'`,
+    { operation: 'weave', metadata: { nodePath, nodeCount: nodePaths.length } },
+  );
+
+  const results: NodeWeaveResult[] = [];
+  for (const path of nodePaths) {
+    results.push(await weaveNode(path));
+  }
+  return results;
+}
+
+/**
+ * Runs a weave of a mesh, or another write to its snapshots, once every weave or write of
+ * that mesh started before it has ended.
+ *
+ * @param meshName - The mesh the weave writes to
+ * @param weave - The weave to run
+ * @returns The result of the weave
+ */
+export function withMeshWeaveLock<T>(
+  meshName: string,
+  weave: () => Promise<T>,
+): Promise<T> {
+  const run = (meshWeaveQueues.get(meshName) ?? Promise.resolve()).then(weave);
+  const settled = run.catch(() => {});
+  meshWeaveQueues.set(meshName, settled);
+  settled.then(() => {
+    if (meshWeaveQueues.get(meshName) === settled) meshWeaveQueues.delete(meshName);
+  });
+  return run;
+}
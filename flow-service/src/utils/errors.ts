@@ -31,7 +31,44 @@ export class ConfigurationError extends FlowServiceError {
   }
 }
 
-// Enhanced error handler 
+export class MeshNotFoundError extends FlowServiceError {
+  constructor(public readonly meshName: string) {
+    super(`Mesh '${meshName}' not found.`, 'MESH_NOT_FOUND', { meshName });
+    this.name = 'MeshNotFoundError';
+  }
+}
+
+export class NodeNotFoundError extends FlowServiceError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'NODE_NOT_FOUND', context);
+    this.name = 'NodeNotFoundError';
+  }
+}
+
+export class WeaveError extends FlowServiceError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'WEAVE_ERROR', context);
+    this.name = 'WeaveError';
+  }
+}
+
+export class SparqlQueryTimeoutError extends FlowServiceError {
+  constructor(public readonly timeoutMs: number) {
+    super(`SPARQL query did not complete within ${timeoutMs} ms.`, 'SPARQL_QUERY_TIMEOUT', {
+      timeoutMs,
+    });
+    this.name = 'SparqlQueryTimeoutError';
+  }
+}
+
+export class SparqlUpdateTargetError extends FlowServiceError {
+  constructor(message: string, public readonly graph?: string) {
+    super(message, 'SPARQL_UPDATE_TARGET_REFUSED', { graph });
+    this.name = 'SparqlUpdateTargetError';
+  }
+}
+
+// Enhanced error handler
 export function handleServiceError(
   error: unknown,
   context?: string,
@@ -0,0 +1,40 @@
+/**
+ * File System Utilities
+ *
+ * Small helpers around Deno file APIs shared by mesh-processing services.
+ */
+
+import { dirname } from '../../../flow-core/src/deps.ts';
+
+/**
+ * Reads a text file, returning `undefined` instead of throwing when it does not exist.
+ *
+ * @param path - Path to the file
+ * @returns The file content, or `undefined` if the file is missing
+ */
+export async function readTextFileIfExists(
+  path: string,
+): Promise<string | undefined> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a text file, creating its parent directory first if needed.
+ *
+ * @param path - Path to the file
+ * @param content - Text content to write
+ */
+export async function writeTextFileEnsuringDir(
+  path: string,
+  content: string,
+): Promise<void> {
+  await Deno.mkdir(dirname(path), { recursive: true });
+  await Deno.writeTextFile(path, content);
+}
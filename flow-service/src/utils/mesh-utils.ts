@@ -1,11 +1,44 @@
 import { logger } from './service-logger.ts';
-import { basename, dirname, existsSync } from '../../../flow-core/src/deps.ts';
+import {
+  basename,
+  dirname,
+  existsSync,
+  join,
+  relative,
+  resolve,
+} from '../../../flow-core/src/deps.ts';
 import { singletonServiceConfigAccessor as config } from '../config/resolution/service-config-accessor.ts';
+import { MESH } from '../../../flow-core/src/mesh-constants.ts';
+import {
+  type FlowSlug,
+  getFlowPath,
+  parseVersionSnapshotDir,
+} from '../../../flow-core/src/utils/mesh-path-utils.ts';
+import {
+  isValidApiNodePath,
+  parseApiNodePath,
+} from '../../../flow-core/src/utils/api-param-path-utils.ts';
+import { MeshNotFoundError, NodeNotFoundError, ValidationError } from './errors.ts';
+import { readTextFileIfExists, writeTextFileEnsuringDir } from './fs-utils.ts';
 
 // Global mesh registry
 export const meshRegistry: Record<string, string> = {};
 
-export const initializeMeshRegistry = async () => {
+// Names of the meshes registered at runtime, which are persisted to the registry file
+const runtimeRegisteredMeshes = new Set<string>();
+
+// The registry file, once the registry is initialized; before that, registrations are kept
+// in memory only
+let meshRegistryFilePath: string | undefined;
+
+/**
+ * Registers the meshes listed in `fsvc:meshPaths`, then the meshes registered at runtime in
+ * earlier runs, from the registry file. Meshes configured in `fsvc:meshPaths` take precedence
+ * on name collisions.
+ *
+ * @param registryFilePath - The registry file; `fsvc:meshRegistryPath` by default
+ */
+export const initializeMeshRegistry = async (registryFilePath?: string) => {
   const meshPaths = await config.getMeshPaths();
   if (meshPaths && Array.isArray(meshPaths)) {
     for (const meshPath of meshPaths) {
@@ -63,4 +96,333 @@ export const initializeMeshRegistry = async () => {
       );
     }
   }
+
+  meshRegistryFilePath = registryFilePath ?? await config.getMeshRegistryPath();
+  if (!meshRegistryFilePath) return;
+
+  const persistedMeshes = await readMeshRegistryFile(meshRegistryFilePath);
+  for (const [meshName, parentDir] of Object.entries(persistedMeshes)) {
+    if (meshRegistry[meshName]) {
+      logger.warn(
+        `Mesh '${meshName}' registered at runtime collides with a configured mesh at path '${meshRegistry[meshName]}'. Skipping '${parentDir}'.`,
+        {
+          operation: 'mesh-scan',
+          component: 'mesh-scanner',
+          metadata: { meshName, existingPath: meshRegistry[meshName], skippedPath: parentDir },
+        },
+      );
+      continue;
+    }
+    if (!existsSync(join(parentDir, meshName))) {
+      logger.info(
+        `Registered mesh path '${join(parentDir, meshName)}' does not exist. Keeping the registration.`,
+        {
+          operation: 'mesh-scan',
+          component: 'mesh-scanner',
+          metadata: { meshName, parentDir },
+        },
+      );
+    }
+    // Missing meshes stay registered, in case their folder is only temporarily unavailable
+    meshRegistry[meshName] = parentDir;
+    runtimeRegisteredMeshes.add(meshName);
+  }
+  logger.info(
+    `Restored ${runtimeRegisteredMeshes.size} runtime mesh registrations from ${meshRegistryFilePath}`,
+    {
+      operation: 'mesh-scan',
+      component: 'mesh-scanner',
+      metadata: { meshRegistryFilePath, meshNames: [...runtimeRegisteredMeshes] },
+    },
+  );
 };
+
+// Reads the runtime registrations from the registry file; an unreadable file is logged and
+// treated as empty, so that the configured meshes are still served
+async function readMeshRegistryFile(
+  registryFilePath: string,
+): Promise<Record<string, string>> {
+  const content = await readTextFileIfExists(registryFilePath);
+  if (content === undefined) return {};
+  try {
+    return JSON.parse(content).meshes ?? {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(
+      `Mesh registry file '${registryFilePath}' is not valid JSON (${message}). Skipping its registrations.`,
+      {
+        operation: 'mesh-scan',
+        component: 'mesh-scanner',
+        metadata: { meshRegistryFilePath: registryFilePath },
+      },
+    );
+    return {};
+  }
+}
+
+/**
+ * Registers a mesh at runtime, persisting the registration once the registry is initialized.
+ *
+ * @param meshName - The logical name of the mesh, which is also its folder name
+ * @param parentPath - File system path of the folder containing the mesh folder
+ */
+export async function registerMesh(meshName: string, parentPath: string): Promise<void> {
+  meshRegistry[meshName] = parentPath;
+  runtimeRegisteredMeshes.add(meshName);
+  await saveMeshRegistry();
+}
+
+/**
+ * Unregisters a mesh, leaving its files untouched. Meshes listed in `fsvc:meshPaths` are
+ * registered again at the next startup.
+ *
+ * @param meshName - The logical name of the mesh
+ * @returns The parent path the mesh was registered with
+ * @throws MeshNotFoundError if no mesh with that name is registered
+ */
+export async function unregisterMesh(meshName: string): Promise<string> {
+  const parentPath = meshRegistry[meshName];
+  if (!parentPath) {
+    throw new MeshNotFoundError(meshName);
+  }
+  delete meshRegistry[meshName];
+  runtimeRegisteredMeshes.delete(meshName);
+  await saveMeshRegistry();
+  return parentPath;
+}
+
+// Writes the runtime registrations to the registry file, replacing it atomically
+async function saveMeshRegistry(): Promise<void> {
+  if (!meshRegistryFilePath) return;
+  const meshes = Object.fromEntries(
+    [...runtimeRegisteredMeshes].sort().map((meshName) => [meshName, meshRegistry[meshName]]),
+  );
+  const temporaryPath = `${meshRegistryFilePath}.tmp`;
+  await writeTextFileEnsuringDir(temporaryPath, JSON.stringify({ meshes }, null, 2));
+  await Deno.rename(temporaryPath, meshRegistryFilePath);
+}
+
+/**
+ * A node specifier resolved against the mesh registry and the file system.
+ */
+export interface ResolvedNode {
+  readonly meshName: string;
+  /** File system path of the mesh root node folder */
+  readonly meshPath: string;
+  /** File system path of the node folder */
+  readonly nodePath: string;
+  /** Node path relative to the mesh root, using '/' as separator ('' for the root node) */
+  readonly relativeNodePath: string;
+}
+
+/**
+ * Returns the file system path of a registered mesh's root folder.
+ *
+ * @throws MeshNotFoundError if the mesh is not registered
+ */
+export function getMeshPath(meshName: string): string {
+  const meshParentPath = meshRegistry[meshName];
+  if (!meshParentPath) {
+    throw new MeshNotFoundError(meshName);
+  }
+  return join(meshParentPath, meshName);
+}
+
+/**
+ * Finds the registered mesh whose folder contains a node folder.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns The node resolved against its mesh, or `undefined` if no registered mesh contains it
+ */
+export function findNodeMesh(nodePath: string): ResolvedNode | undefined {
+  for (const meshName of Object.keys(meshRegistry)) {
+    const meshPath = getMeshPath(meshName);
+    if (!isPathWithin(meshPath, nodePath)) continue;
+    const relativeNodePath = relative(resolve(meshPath), resolve(nodePath));
+    return { meshName, meshPath, nodePath, relativeNodePath };
+  }
+  return undefined;
+}
+
+/**
+ * Determines whether a folder carries a node signature, i.e. a meta flow folder or a handle
+ * folder that is not a tombstone.
+ */
+export async function hasNodeSignature(folderPath: string): Promise<boolean> {
+  if (await pathExists(join(folderPath, MESH.META_FLOW_DIR))) return true;
+  return await pathExists(join(folderPath, MESH.HANDLE_DIR)) &&
+    !await isTombstone(folderPath);
+}
+
+/**
+ * Determines whether a folder only holds the tombstone left behind by a moved node.
+ */
+export async function isTombstone(folderPath: string): Promise<boolean> {
+  return await pathExists(join(folderPath, MESH.HANDLE_DIR, MESH.TOMBSTONE_FILE)) &&
+    !await pathExists(join(folderPath, MESH.META_FLOW_DIR));
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await Deno.stat(path);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+/**
+ * Determines whether a path is a folder or lies below it, after resolving '.' and '..'
+ * segments.
+ */
+export function isPathWithin(folderPath: string, path: string): boolean {
+  const relativePath = relative(resolve(folderPath), resolve(path));
+  return relativePath !== '..' && !relativePath.startsWith('../') &&
+    !relativePath.startsWith('/');
+}
+
+/**
+ * Joins a node path relative to the mesh root onto the mesh folder.
+ *
+ * @param relativeNodePath - Node path relative to the mesh root ('' for the root node)
+ * @returns File system path of the node folder
+ * @throws ValidationError if the node path leads outside the mesh folder
+ */
+export function resolveMeshNodePath(meshPath: string, relativeNodePath: string): string {
+  const nodePath = relativeNodePath ? join(meshPath, relativeNodePath) : meshPath;
+  if (!isPathWithin(meshPath, nodePath)) {
+    throw new ValidationError(
+      `Node path '${relativeNodePath}' leads outside the mesh folder.`,
+      'nodePath',
+      { meshPath, relativeNodePath },
+    );
+  }
+  return nodePath;
+}
+
+/**
+ * Resolves a node specifier such as "test-ns~djradon~underbrush", whose first segment is
+ * the mesh name (i.e. the root node), to the node's folder on disk.
+ *
+ * @throws ValidationError if the specifier is malformed or leads outside the mesh
+ * @throws MeshNotFoundError if the mesh is not registered
+ * @throws NodeNotFoundError if the folder does not exist or is not a mesh node
+ */
+export async function resolveNodeSpecifier(
+  nodeSpecifier: string,
+): Promise<ResolvedNode> {
+  if (!isValidApiNodePath(nodeSpecifier)) {
+    throw new ValidationError(
+      `Invalid node specifier '${nodeSpecifier}'. Must use valid QName characters and '${MESH.API_IDENTIFIER_PATH_SEPARATOR}' as separator.`,
+      'nodeSpecifier',
+    );
+  }
+
+  const [meshName, ...nodeSegments] = parseApiNodePath(nodeSpecifier);
+  const meshPath = getMeshPath(meshName);
+  const relativeNodePath = nodeSegments.join('/');
+  const nodePath = resolveMeshNodePath(meshPath, relativeNodePath);
+
+  if (!existsSync(nodePath) || !(await hasNodeSignature(nodePath))) {
+    throw new NodeNotFoundError(
+      `No mesh node found for '${nodeSpecifier}' at path '${nodePath}'.`,
+      { nodeSpecifier, nodePath },
+    );
+  }
+
+  return { meshName, meshPath, nodePath, relativeNodePath };
+}
+
+/**
+ * Discovers every mesh node in the folder tree rooted at `folderPath` (including the folder
+ * itself), by their handle or meta flow signature.
+ *
+ * Folders whose names start with '_' (flows, handles, assets) or '.' (e.g. '.git') are not
+ * descended into. Nodes are returned in post-order, so each node comes after all of its
+ * descendants.
+ *
+ * @param folderPath - File system path of the folder to scan
+ * @returns File system paths of the discovered nodes, children before parents
+ */
+export async function discoverMeshNodes(folderPath: string): Promise<string[]> {
+  const nodePaths: string[] = [];
+
+  const childFolders: string[] = [];
+  for await (const entry of Deno.readDir(folderPath)) {
+    if (
+      entry.isDirectory && !entry.name.startsWith('_') &&
+      !entry.name.startsWith('.')
+    ) {
+      childFolders.push(entry.name);
+    }
+  }
+
+  for (const childFolder of childFolders.sort()) {
+    nodePaths.push(...await discoverMeshNodes(join(folderPath, childFolder)));
+  }
+
+  if (await hasNodeSignature(folderPath)) {
+    nodePaths.push(folderPath);
+  }
+
+  return nodePaths;
+}
+
+/**
+ * Lists the nodes directly below a node (skipping '_' and '.' folders), sorted by slug.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns File system paths of the child nodes
+ */
+export async function listChildNodes(nodePath: string): Promise<string[]> {
+  const childNodePaths: string[] = [];
+  for await (const entry of Deno.readDir(nodePath)) {
+    if (
+      entry.isDirectory && !entry.name.startsWith('_') &&
+      !entry.name.startsWith('.') &&
+      await hasNodeSignature(join(nodePath, entry.name))
+    ) {
+      childNodePaths.push(join(nodePath, entry.name));
+    }
+  }
+  return childNodePaths.sort();
+}
+
+/**
+ * Returns the chain of nodes from the mesh root down to the given node, by walking up the
+ * folder tree as long as the parent folder is a node.
+ *
+ * @param nodePath - File system path of the node folder
+ * @returns File system paths of the node's ancestors and the node itself, mesh root first
+ */
+export async function getNodeAncestry(nodePath: string): Promise<string[]> {
+  const ancestry = [nodePath];
+  let parentPath = dirname(nodePath);
+  while (parentPath !== ancestry[0] && await hasNodeSignature(parentPath)) {
+    ancestry.unshift(parentPath);
+    parentPath = dirname(parentPath);
+  }
+  return ancestry;
+}
+
+/**
+ * Lists the version numbers of a flow's existing `_vN` snapshot folders, in ascending order.
+ */
+export async function listVersions(
+  nodePath: string,
+  flow: FlowSlug,
+): Promise<number[]> {
+  const versions: number[] = [];
+  try {
+    for await (const entry of Deno.readDir(join(getFlowPath(nodePath, flow)))) {
+      const version = entry.isDirectory
+        ? parseVersionSnapshotDir(entry.name)
+        : undefined;
+      if (version !== undefined) versions.push(version);
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return versions.sort((a, b) => a - b);
+}
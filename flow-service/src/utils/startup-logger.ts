@@ -61,8 +61,9 @@ export async function logStartupConfiguration(): Promise<void> {
   const enabledServices: string[] = [];
   // TODO: Query service enablement flags from config
   // if (await config.apiEnabled()) enabledServices.push('API');
-  // if (await config.sparqlEnabled()) enabledServices.push('SPARQL Endpoint');
-  // if (await config.queryWidgetEnabled()) enabledServices.push('SPARQL GUI');
+  if (await config.isSparqlEnabled()) enabledServices.push('SPARQL Endpoint');
+  if (await config.isSparqlUpdateEnabled()) enabledServices.push('SPARQL Update');
+  if (await config.isQueryWidgetEnabled()) enabledServices.push('Query Widget');
 
   logger.info(
     `   Services: ${enabledServices.length > 0 ? enabledServices.join(', ') : 'none'}`,
@@ -81,4 +82,7 @@ export async function logStartupUrls(): Promise<void> {
 
   logger.info(`📍 Root: ${baseUrl}/`);
   logger.info(`📍 API documentation: ${baseUrl}${MESH.API_PORTAL_ROUTE}`);
+  if (await config.isQueryWidgetEnabled()) {
+    logger.info(`📍 Query widget: ${baseUrl}${MESH.QUERY_WIDGET_ROUTE}`);
+  }
 }
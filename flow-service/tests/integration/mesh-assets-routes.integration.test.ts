@@ -0,0 +1,98 @@
+import { assertEquals, existsSync, join } from '../../../flow-core/src/deps.ts';
+import { createMeshAssetsRoutes } from '../../src/routes/mesh-assets.ts';
+import { DEFAULT_ASSETS_MANIFEST_FILE } from '../../src/services/default-assets.ts';
+import { meshRegistry } from '../../src/utils/mesh-utils.ts';
+
+// Test meshes are created under the repository's meshes folder, which tests may write to
+const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+
+// The parts of the upgrade response that the tests look at
+interface AssetsUpgradeBody {
+  readonly dryRun?: boolean;
+  readonly summary: { readonly added: number; readonly updated: number; readonly kept: number };
+  readonly changes: { readonly path: string; readonly status: string }[];
+}
+
+async function sha256(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+Deno.test('POST /meshes/{meshName}/assets/upgrade keeps customized assets', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const assetsPath = join(parentPath, 'assets-test', '_assets');
+  await Deno.mkdir(assetsPath, { recursive: true });
+  meshRegistry['assets-test'] = parentPath;
+
+  try {
+    const meshAssets = createMeshAssetsRoutes();
+    const upgrade = async (query = ''): Promise<AssetsUpgradeBody> => {
+      const response = await meshAssets.request(
+        `/meshes/assets-test/assets/upgrade${query}`,
+        { method: 'POST' },
+      );
+      assertEquals(response.status, 200);
+      return await response.json();
+    };
+
+    const initial = await upgrade();
+    assertEquals(initial.summary, { added: 4, updated: 0, kept: 0 });
+    assertEquals(
+      existsSync(join(assetsPath, 'css', 'default-resource-page.css')),
+      true,
+    );
+
+    // A customized stylesheet, and a template still holding an earlier default
+    await Deno.writeTextFile(
+      join(assetsPath, 'css', 'default-resource-page.css'),
+      'body { color: red; }',
+    );
+    const templatePath = '_templates/default-resource-page.html';
+    await Deno.writeTextFile(join(assetsPath, templatePath), '<html></html>');
+    const manifestPath = join(assetsPath, DEFAULT_ASSETS_MANIFEST_FILE);
+    const manifest = JSON.parse(await Deno.readTextFile(manifestPath));
+    manifest.files[templatePath] = await sha256('<html></html>');
+    await Deno.writeTextFile(manifestPath, JSON.stringify(manifest));
+
+    const plan = await upgrade('?dryRun=true');
+    assertEquals(plan.dryRun, true);
+    assertEquals(
+      plan.changes.map((change) => [change.path, change.status]),
+      [
+        ['README.md', 'up-to-date'],
+        [templatePath, 'outdated'],
+        ['css/default-resource-page.css', 'customized'],
+        ['favicon.svg', 'up-to-date'],
+      ],
+    );
+    assertEquals(
+      await Deno.readTextFile(join(assetsPath, templatePath)),
+      '<html></html>',
+    );
+
+    const result = await upgrade();
+    assertEquals(result.summary, { added: 0, updated: 1, kept: 3 });
+    assertEquals(
+      await Deno.readTextFile(join(assetsPath, 'css', 'default-resource-page.css')),
+      'body { color: red; }',
+    );
+  } finally {
+    delete meshRegistry['assets-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /meshes/{meshName}/assets/upgrade returns 404 for unknown meshes', async () => {
+  const response = await createMeshAssetsRoutes().request(
+    '/meshes/no-such-mesh/assets/upgrade',
+    { method: 'POST' },
+  );
+  assertEquals(response.status, 404);
+  await response.body?.cancel();
+});
@@ -0,0 +1,72 @@
+import { assertEquals, join } from '../../../flow-core/src/deps.ts';
+import { createWeaveRoutes } from '../../src/routes/weave.ts';
+import { meshRegistry } from '../../src/utils/mesh-utils.ts';
+import {
+  closeMeshQuadstoreBundle,
+  getMeshQuadstoreBundle,
+  initializeMeshQuadstoreBundle,
+} from '../../src/quadstore-mesh-bundle.ts';
+import { indexMesh } from '../../src/services/mesh-indexer.ts';
+import { serviceUriConfigManager } from '../../src/utils/service-uri-builder.ts';
+import { queryMultipleValues } from '../../../flow-core/src/utils/sparql-utils.ts';
+
+// Run by the test:classic-level task, the only one granting FFI
+
+// Test meshes are created under the repository's meshes folder, which tests may write to
+const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+
+async function createTestNode(nodePath: string, title: string): Promise<void> {
+  const slug = nodePath.split('/').pop();
+  await Deno.mkdir(join(nodePath, '_handle'), { recursive: true });
+  await Deno.mkdir(join(nodePath, '_meta-flow', '_next'), { recursive: true });
+  await Deno.writeTextFile(
+    join(nodePath, '_meta-flow', '_next', `${slug}_meta_next.jsonld`),
+    JSON.stringify({
+      '@context': { 'dcterms': 'http://purl.org/dc/terms/' },
+      '@id': `../../${slug}/_handle/`,
+      'dcterms:title': title,
+    }),
+  );
+}
+
+Deno.test('a persisted mesh index is not reloaded while its distributions are unchanged', {
+  // The classic-level native binding needs FFI
+  ignore: (await Deno.permissions.query({ name: 'ffi' })).state !== 'granted',
+}, async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'persisted-index-test');
+  const dataDirectory = join(parentPath, 'quadstore');
+  await createTestNode(meshPath, 'Root');
+  meshRegistry['persisted-index-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+
+  try {
+    await initializeMeshQuadstoreBundle({ backend: 'memory' });
+    const weaved = await createWeaveRoutes().request('/weave/persisted-index-test', {
+      method: 'POST',
+    });
+    assertEquals(weaved.status, 200);
+    await weaved.body?.cancel();
+
+    await initializeMeshQuadstoreBundle({ backend: 'classic-level', dataDirectory });
+    const { quadCount } = await indexMesh('persisted-index-test');
+    assertEquals(quadCount > 0, true);
+
+    await initializeMeshQuadstoreBundle({ backend: 'classic-level', dataDirectory });
+    assertEquals(await indexMesh('persisted-index-test'), { nodeCount: 1, quadCount: 0 });
+    const titles = await queryMultipleValues(
+      getMeshQuadstoreBundle(),
+      'SELECT ?value WHERE { GRAPH ?g { ?node <http://purl.org/dc/terms/title> ?value } }',
+    );
+    assertEquals(titles, ['Root']);
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['persisted-index-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
@@ -1,14 +1,45 @@
-import { assertEquals } from '../../../flow-core/src/deps.ts';
+import { assertEquals, dirname, existsSync, join } from '../../../flow-core/src/deps.ts';
+import { createMeshesRoutes } from '../../src/routes/meshes.ts';
+import { createWeaveRoutes } from '../../src/routes/weave.ts';
+import { initializeMeshRegistry, meshRegistry } from '../../src/utils/mesh-utils.ts';
 import { singletonServiceConfigAccessor } from '../../src/config/resolution/service-config-accessor.ts';
 import { createServiceConfig } from '../../src/config/index.ts';
 import { buildServiceBaseUri } from '../../src/utils/service-uri-builder.ts';
 
 let baseUrl: string;
+let registryDir: string | undefined;
+
+// Test meshes are created under the repository's meshes folder, which tests may write to
+const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+
+// The parts of the response bodies and snapshots that the tests look at
+interface LinkBody {
+  readonly rel: string;
+  readonly href: string;
+}
+
+interface NodeListBody {
+  readonly total: number;
+  readonly items: { readonly apiNodePath: string }[];
+  readonly links: LinkBody[];
+}
+
+interface JsonLdGraphDocument {
+  readonly '@graph': Record<string, unknown>[];
+}
 
 Deno.test({
   name: 'Setup service base URL',
   fn: async () => {
+    // Keep runtime mesh registrations out of the service's own registry file
+    await Deno.mkdir(meshesRoot, { recursive: true });
+    registryDir = await Deno.makeTempDir({ dir: meshesRoot, prefix: '.tmp-registry-' });
+    Deno.env.set('FLOW_MESH_REGISTRY_PATH', join(registryDir, 'mesh-registry.json'));
     await createServiceConfig();
+    assertEquals(
+      await singletonServiceConfigAccessor.getMeshRegistryPath(),
+      join(registryDir, 'mesh-registry.json'),
+    );
     const host = await singletonServiceConfigAccessor.getHost();
     const port = await singletonServiceConfigAccessor.getPort();
     const scheme = await singletonServiceConfigAccessor.getScheme() ?? 'http';
@@ -29,3 +60,917 @@ Deno.test('Health endpoint is reachable', async () => {
   assertEquals(response.status, 200);
   await response.text(); // consume the body to avoid leaks
 });
+
+Deno.test('POST /meshes/{meshName}/nodes scaffolds the flows of each node type', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshNames = ['namespace-test', 'reference-test', 'dataset-test'];
+  for (const meshName of meshNames) {
+    await Deno.mkdir(join(parentPath, meshName));
+    meshRegistry[meshName] = parentPath;
+  }
+
+  try {
+    const meshes = createMeshesRoutes();
+    const createNode = (meshName: string, body: Record<string, unknown>) =>
+      meshes.request(`/meshes/${meshName}/nodes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiNodePath: '', initialData: {}, ...body }),
+      });
+    const readJson = async (path: string) =>
+      JSON.parse(await Deno.readTextFile(join(parentPath, path)));
+
+    const namespace = await createNode('namespace-test', {
+      nodeType: 'Namespace',
+    });
+    assertEquals(namespace.status, 201);
+    await namespace.body?.cancel();
+    assertEquals(
+      (await readJson(
+        'namespace-test/_meta-flow/_current/namespace-test_meta_current.jsonld',
+      ))['@graph'][0]['@type'],
+      ['mesh:Node', 'node:NamespaceNode'],
+    );
+    assertEquals(existsSync(join(parentPath, 'namespace-test', '_data-flow')), false);
+    assertEquals(existsSync(join(parentPath, 'namespace-test', '_ref-flow')), false);
+
+    const missingReferent = await createNode('reference-test', {
+      nodeType: 'Reference',
+    });
+    assertEquals(missingReferent.status, 400);
+    await missingReferent.body?.cancel();
+
+    const reference = await createNode('reference-test', {
+      nodeType: 'Reference',
+      referent: { iri: 'https://example.org/thing', title: 'Thing' },
+    });
+    assertEquals(reference.status, 201);
+    await reference.body?.cancel();
+    assertEquals(
+      (await readJson(
+        'reference-test/_ref-flow/_next/reference-test_ref_next.jsonld',
+      ))['@graph'],
+      [
+        {
+          '@id': '../../_handle/',
+          'node:hasReferent': { '@id': 'https://example.org/thing' },
+        },
+        { '@id': 'https://example.org/thing', 'dcterms:title': 'Thing' },
+      ],
+    );
+    assertEquals(existsSync(join(parentPath, 'reference-test', '_data-flow')), false);
+
+    const initialPayload = {
+      '@context': { dcterms: 'http://purl.org/dc/terms/' },
+      '@id': 'https://example.org/dataset',
+      'dcterms:title': 'Dataset',
+    };
+    const dataset = await createNode('dataset-test', {
+      nodeType: 'Dataset',
+      initialPayload,
+    });
+    assertEquals(dataset.status, 201);
+    await dataset.body?.cancel();
+    for (const snapshot of ['current', 'next']) {
+      assertEquals(
+        await readJson(
+          `dataset-test/_data-flow/_${snapshot}/dataset-test_data_${snapshot}.jsonld`,
+        ),
+        initialPayload,
+      );
+    }
+    assertEquals(existsSync(join(parentPath, 'dataset-test', '_ref-flow')), false);
+  } finally {
+    for (const meshName of meshNames) delete meshRegistry[meshName];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('GET /meshes/{meshName}/nodes/{apiNodePath} summarizes a node', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'summary-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['summary-test'] = parentPath;
+
+  try {
+    const meshes = createMeshesRoutes();
+    const created = await meshes.request('/meshes/summary-test/nodes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        apiNodePath: '',
+        nodeType: 'Dataset',
+        initialData: { title: 'Summary Test', description: 'A test mesh' },
+      }),
+    });
+    assertEquals(
+      (await created.json()).links[0].href,
+      '/api/meshes/summary-test/nodes/~',
+    );
+    await Deno.mkdir(join(meshPath, '_meta-flow', '_v1'));
+    await Deno.mkdir(join(meshPath, 'child', '_handle'), { recursive: true });
+
+    const response = await meshes.request('/meshes/summary-test/nodes/~');
+    assertEquals(response.status, 200);
+    const summary: {
+      apiNodePath: string;
+      slug: string;
+      nodeType: string;
+      title: string;
+      description: string;
+      flows: string[];
+      versions: Record<string, number[]>;
+      distributions: { path: string; mediaType: string }[];
+      links: LinkBody[];
+    } = await response.json();
+    assertEquals(summary.apiNodePath, '~');
+    assertEquals(summary.slug, 'summary-test');
+    assertEquals(summary.nodeType, 'Dataset');
+    assertEquals(summary.title, 'Summary Test');
+    assertEquals(summary.description, 'A test mesh');
+    assertEquals(summary.flows, ['meta', 'data']);
+    assertEquals(summary.versions, { meta: [1], data: [] });
+    assertEquals(
+      summary.distributions.map((dist) => [dist.path, dist.mediaType]),
+      [
+        ['_meta-flow/_current/summary-test_meta_current.jsonld', 'application/ld+json'],
+        ['_data-flow/_current/summary-test_data_current.jsonld', 'application/ld+json'],
+      ],
+    );
+    assertEquals(
+      summary.links.map((link) => [link.rel, link.href]),
+      [
+        ['self', '/api/meshes/summary-test/nodes/~'],
+        ['mesh', '/api/meshes/summary-test'],
+        ['child', '/api/meshes/summary-test/nodes/child'],
+      ],
+    );
+
+    const child = await (await meshes.request('/meshes/summary-test/nodes/child')).json();
+    assertEquals(child.nodeType, 'Namespace');
+    assertEquals(child.links[2], {
+      rel: 'parent',
+      href: '/api/meshes/summary-test/nodes/~',
+    });
+
+    const trig = await meshes.request('/meshes/summary-test/nodes/~', {
+      headers: { Accept: 'application/trig' },
+    });
+    assertEquals(trig.headers.get('Content-Type'), 'application/trig');
+    assertEquals((await trig.text()).includes('"Summary Test"'), true);
+
+    await Deno.writeTextFile(
+      join(meshPath, '_meta-flow', '_current', 'summary-test_meta_current.jsonld'),
+      '{ "@graph": ',
+    );
+    for (const accept of ['application/ld+json', 'application/trig']) {
+      const corrupt = await meshes.request('/meshes/summary-test/nodes/~', {
+        headers: { Accept: accept },
+      });
+      assertEquals(corrupt.status, 500);
+      assertEquals((await corrupt.json()).error, 'Internal Server Error');
+    }
+
+    const missing = await meshes.request('/meshes/summary-test/nodes/missing');
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  } finally {
+    delete meshRegistry['summary-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('GET /meshes/{meshName}/nodes lists nodes with filters and pagination', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'list-test');
+  for (const path of ['_handle', 'b/_handle', 'a/_handle', 'a/deep/_data-flow', 'a/deep/_handle']) {
+    await Deno.mkdir(join(meshPath, path), { recursive: true });
+  }
+  // Not a node: no handle or meta flow
+  await Deno.mkdir(join(meshPath, 'plain-folder'));
+  meshRegistry['list-test'] = parentPath;
+
+  try {
+    const meshes = createMeshesRoutes();
+    const list = async (query = ''): Promise<NodeListBody> => {
+      const response = await meshes.request(`/meshes/list-test/nodes${query}`);
+      assertEquals(response.status, 200);
+      return await response.json();
+    };
+    const paths = (result: NodeListBody) => result.items.map((item) => item.apiNodePath);
+
+    const all = await list();
+    assertEquals(all.total, 4);
+    assertEquals(paths(all), ['~', 'a', 'a~deep', 'b']);
+    assertEquals(all.items[2], {
+      apiNodePath: 'a~deep',
+      slug: 'deep',
+      nodeType: 'Dataset',
+      title: 'deep',
+      depth: 2,
+      links: [
+        { rel: 'self', href: '/api/meshes/list-test/nodes/a~deep' },
+        { rel: 'parent', href: '/api/meshes/list-test/nodes/a' },
+      ],
+    });
+
+    assertEquals(paths(await list('?maxDepth=1')), ['~', 'a', 'b']);
+    assertEquals(paths(await list('?pathPrefix=a')), ['a', 'a~deep']);
+    assertEquals(paths(await list('?nodeType=Dataset')), ['a~deep']);
+
+    const page = await list('?offset=1&limit=2');
+    assertEquals(paths(page), ['a', 'a~deep']);
+    assertEquals(
+      page.links.filter((link) => link.rel === 'prev' || link.rel === 'next'),
+      [
+        { rel: 'prev', href: '/api/meshes/list-test/nodes?offset=0&limit=2' },
+        { rel: 'next', href: '/api/meshes/list-test/nodes?offset=3&limit=2' },
+      ],
+    );
+
+    const missing = await meshes.request('/meshes/list-test/nodes?pathPrefix=c');
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  } finally {
+    delete meshRegistry['list-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('DELETE /meshes/{meshName}/nodes/{apiNodePath} removes node elements only', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'delete-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['delete-test'] = parentPath;
+
+  try {
+    const meshes = createMeshesRoutes();
+    const created = await meshes.request('/meshes/delete-test/nodes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiNodePath: '', nodeType: 'Namespace', initialData: {} }),
+    });
+    await created.body?.cancel();
+    for (const path of ['a/_handle', 'a/_meta-flow/_current', 'a/b/_handle', 'a/notes']) {
+      await Deno.mkdir(join(meshPath, path), { recursive: true });
+    }
+    await Deno.writeTextFile(join(meshPath, 'a', 'notes', 'todo.txt'), 'keep me');
+    const deleteNode = (path: string) =>
+      meshes.request(`/meshes/delete-test/nodes/${path}`, { method: 'DELETE' });
+
+    const conflict = await deleteNode('a');
+    assertEquals(conflict.status, 409);
+    await conflict.body?.cancel();
+
+    const deleted = await deleteNode('a?recursive=true');
+    assertEquals(deleted.status, 200);
+    const result = await deleted.json();
+    assertEquals(result.filesRemoved, [
+      join(meshPath, 'a', 'b', '_handle'),
+      join(meshPath, 'a', 'b'),
+      join(meshPath, 'a', '_handle'),
+      join(meshPath, 'a', '_meta-flow'),
+    ]);
+    // The folder holding something other than node elements is kept
+    assertEquals(
+      await Deno.readTextFile(join(meshPath, 'a', 'notes', 'todo.txt')),
+      'keep me',
+    );
+
+    const rootMeta = JSON.parse(
+      await Deno.readTextFile(
+        join(meshPath, '_meta-flow', '_next', 'delete-test_meta_next.jsonld'),
+      ),
+    );
+    const activity = rootMeta['@graph'].at(-1);
+    assertEquals(activity['@type'], 'meta:NodeDeletion');
+    assertEquals(activity['prov:invalidated'], { '@id': '../../a/_handle/' });
+    assertEquals(result.filesUpdated, [
+      join(meshPath, '_meta-flow', '_next', 'delete-test_meta_next.jsonld'),
+    ]);
+
+    const notANode = await deleteNode('a');
+    assertEquals(notANode.status, 404);
+    await notANode.body?.cancel();
+
+    const root = await deleteNode('~');
+    assertEquals(root.status, 400);
+    await root.body?.cancel();
+
+    // A sibling mesh is out of reach
+    await Deno.mkdir(join(parentPath, 'sibling', '_handle'), { recursive: true });
+    for (const path of ['..~sibling?recursive=true', 'a~..~..~sibling?recursive=true']) {
+      const outside = await deleteNode(path);
+      assertEquals(outside.status, 400);
+      await outside.body?.cancel();
+    }
+    assertEquals(existsSync(join(parentPath, 'sibling', '_handle')), true);
+  } finally {
+    delete meshRegistry['delete-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /meshes/{meshName}/nodes/{apiNodePath}/move rewrites references and leaves tombstones', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'move-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['move-test'] = parentPath;
+
+  const context = { node: 'https://semantic-flow.github.io/ontology/node/' };
+  const writeJson = async (path: string, content: unknown) => {
+    await Deno.mkdir(dirname(join(meshPath, path)), { recursive: true });
+    await Deno.writeTextFile(join(meshPath, path), JSON.stringify(content, null, 2));
+  };
+  const readJson = async (path: string) =>
+    JSON.parse(await Deno.readTextFile(join(meshPath, path)));
+  const aMeta = {
+    '@context': context,
+    '@graph': [
+      {
+        '@id': '../../_handle/',
+        'node:hasSlug': 'a',
+        'node:linksTo': { '@id': '../../../b/_handle/' },
+      },
+      { '@id': '#activity' },
+    ],
+  };
+
+  try {
+    const meshes = createMeshesRoutes();
+    const created = await meshes.request('/meshes/move-test/nodes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ apiNodePath: '', nodeType: 'Namespace', initialData: {} }),
+    });
+    await created.body?.cancel();
+    await Deno.mkdir(join(meshPath, 'a', '_handle'), { recursive: true });
+    await writeJson('a/_meta-flow/_next/a_meta_next.jsonld', aMeta);
+    await writeJson('a/_meta-flow/_current/a_meta_current.jsonld', aMeta);
+    await Deno.writeTextFile(join(meshPath, 'a/_meta-flow/_current/a_meta_current.ttl'), '');
+    await Deno.mkdir(join(meshPath, 'b', '_handle'), { recursive: true });
+    await writeJson('b/_meta-flow/_next/b_meta_next.jsonld', {
+      '@context': context,
+      '@id': '../../_handle/',
+      'node:linksTo': { '@id': '../../../a/_handle/' },
+    });
+    // A published version of b pointing at a
+    await writeJson('b/_meta-flow/_v1/b_meta__v1.jsonld', {
+      '@context': context,
+      '@id': '../../_handle/',
+      'node:linksTo': { '@id': '../../../a/_handle/' },
+    });
+    const bVersionPath = join(meshPath, 'b/_meta-flow/_v1/b_meta__v1.jsonld');
+    const bVersion = await Deno.readTextFile(bVersionPath);
+
+    const move = (path: string, targetApiNodePath: string) =>
+      meshes.request(`/meshes/move-test/nodes/${path}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetApiNodePath }),
+      });
+
+    const response = await move('a', 'b~c');
+    assertEquals(response.status, 200);
+    const result = await response.json();
+    assertEquals(result.nodePath, 'b/c');
+
+    assertEquals((await readJson('b/c/_meta-flow/_next/c_meta_next.jsonld'))['@graph'], [
+      {
+        '@id': '../../_handle/',
+        'node:hasSlug': 'c',
+        'node:linksTo': { '@id': '../../../_handle/' },
+      },
+      { '@id': '#activity' },
+    ]);
+    assertEquals(
+      (await readJson('b/c/_meta-flow/_current/c_meta_current.jsonld'))['@graph'][0]['node:hasSlug'],
+      'a',
+    );
+    assertEquals(
+      (await Deno.readTextFile(join(meshPath, 'b/c/_meta-flow/_current/c_meta_current.ttl')))
+        .includes('<../../../_handle/>'),
+      true,
+    );
+    assertEquals(
+      (await readJson('b/_meta-flow/_next/b_meta_next.jsonld'))['node:linksTo'],
+      { '@id': '../../c/_handle/' },
+    );
+    // Published versions keep pointing at the old handle, which redirects through the tombstone
+    assertEquals(await Deno.readTextFile(bVersionPath), bVersion);
+
+    const tombstone = await readJson('a/_handle/tombstone.jsonld');
+    assertEquals(tombstone['dcterms:isReplacedBy'], { '@id': '../../b/c/_handle/' });
+    assertEquals(existsSync(join(meshPath, 'a', '_handle', 'index.html')), true);
+
+    const listing: NodeListBody = await (await meshes.request('/meshes/move-test/nodes')).json();
+    assertEquals(
+      listing.items.map((item) => item.apiNodePath),
+      ['~', 'b', 'b~c'],
+    );
+
+    const conflict = await move('b~c', 'b');
+    assertEquals(conflict.status, 409);
+    await conflict.body?.cancel();
+    const intoItself = await move('b', 'b~c~d');
+    assertEquals(intoItself.status, 400);
+    await intoItself.body?.cancel();
+    for (const target of ['..~escaped', 'b~..~..~escaped']) {
+      const outside = await move('b~c', target);
+      assertEquals(outside.status, 400);
+      await outside.body?.cancel();
+    }
+    assertEquals(existsSync(join(parentPath, 'escaped')), false);
+    assertEquals(existsSync(join(meshPath, 'b', 'c', '_handle')), true);
+
+    // Moving back onto the tombstone restores the original snapshot
+    const back = await move('b~c', 'a');
+    assertEquals(back.status, 200);
+    await back.body?.cancel();
+    const restored = await readJson('a/_meta-flow/_next/a_meta_next.jsonld');
+    assertEquals(restored, aMeta);
+  } finally {
+    delete meshRegistry['move-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /meshes/{meshName}/nodes creates nested nodes inside the mesh', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'nested-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['nested-test'] = parentPath;
+
+  try {
+    const meshes = createMeshesRoutes();
+    const createNode = (apiNodePath: string, options?: Record<string, unknown>) =>
+      meshes.request('/meshes/nested-test/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiNodePath,
+          nodeType: 'Namespace',
+          initialData: {},
+          options,
+        }),
+      });
+
+    const missingParents = await createNode('djradon~underbrush');
+    assertEquals(missingParents.status, 400);
+    await missingParents.body?.cancel();
+    assertEquals(existsSync(join(meshPath, 'djradon')), false);
+
+    const created = await createNode('djradon~underbrush', {
+      createIntermediateNodes: true,
+    });
+    assertEquals(created.status, 201);
+    const result = await created.json();
+    assertEquals(result.intermediateNodesCreated, ['~', 'djradon']);
+    assertEquals(result.links[0].href, '/api/meshes/nested-test/nodes/djradon~underbrush');
+    assertEquals(existsSync(join(parentPath, 'underbrush')), false);
+
+    const meta = JSON.parse(
+      await Deno.readTextFile(
+        join(
+          meshPath,
+          'djradon/underbrush/_meta-flow/_current/underbrush_meta_current.jsonld',
+        ),
+      ),
+    );
+    assertEquals(meta['@graph'][0]['@id'], '../../_handle/');
+    assertEquals(meta['@graph'][0]['node:hasSlug'], 'underbrush');
+    assertEquals(
+      existsSync(join(meshPath, 'djradon/_meta-flow/_next/djradon_meta_next.jsonld')),
+      true,
+    );
+
+    const sibling = await createNode('djradon~overgrowth');
+    assertEquals(sibling.status, 201);
+    assertEquals((await sibling.json()).intermediateNodesCreated, []);
+
+    const duplicate = await createNode('djradon');
+    assertEquals(duplicate.status, 409);
+    await duplicate.body?.cancel();
+
+    for (const apiNodePath of ['..~..~escaped', 'djradon~..~..~escaped']) {
+      const outside = await createNode(apiNodePath, { createIntermediateNodes: true });
+      assertEquals(outside.status, 400);
+      await outside.body?.cancel();
+    }
+    assertEquals(existsSync(join(parentPath, 'escaped')), false);
+    assertEquals(existsSync(join(meshesRoot, 'escaped')), false);
+    assertEquals(existsSync(join(parentPath, '_handle')), false);
+  } finally {
+    delete meshRegistry['nested-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('PATCH /meshes/{meshName}/nodes/{apiNodePath}/meta updates the _next meta snapshot', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'patch-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['patch-test'] = parentPath;
+  const readMeta = async (snapshot: string): Promise<JsonLdGraphDocument> =>
+    JSON.parse(
+      await Deno.readTextFile(
+        join(meshPath, `_meta-flow/_${snapshot}/patch-test_meta_${snapshot}.jsonld`),
+      ),
+    );
+
+  try {
+    const meshes = createMeshesRoutes();
+    const created = await meshes.request('/meshes/patch-test/nodes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        apiNodePath: '',
+        nodeType: 'Namespace',
+        initialData: { title: 'Before', description: 'To be removed' },
+      }),
+    });
+    await created.body?.cancel();
+    const patchMeta = (contentType: string, body: unknown) =>
+      meshes.request('/meshes/patch-test/nodes/~/meta', {
+        method: 'PATCH',
+        headers: { 'Content-Type': contentType },
+        body: JSON.stringify(body),
+      });
+
+    const patched = await patchMeta('application/merge-patch+json', {
+      'dcterms:title': 'After',
+      'dcterms:description': null,
+    });
+    assertEquals(patched.status, 200);
+    await patched.body?.cancel();
+
+    const next = await readMeta('next');
+    assertEquals(next['@graph'][0]['dcterms:title'], 'After');
+    assertEquals('dcterms:description' in next['@graph'][0], false);
+    assertEquals(next['@graph'].at(-1)?.['@type'], 'meta:NodeUpdate');
+    assertEquals((await readMeta('current'))['@graph'][0]['dcterms:title'], 'Before');
+
+    const merged = await patchMeta('application/ld+json', {
+      '@context': { rdfs: 'http://www.w3.org/2000/01/rdf-schema#' },
+      '@id': '#note',
+      'rdfs:comment': 'Added as a fragment',
+    });
+    assertEquals(merged.status, 200);
+    await merged.body?.cancel();
+    const updated = await readMeta('next');
+    assertEquals(
+      updated['@graph'].find((entry) => entry['@id'] === '#note')?.['rdfs:comment'],
+      'Added as a fragment',
+    );
+    assertEquals(
+      updated['@graph'].filter((entry) => entry['@type'] === 'meta:NodeUpdate').length,
+      2,
+    );
+
+    for (
+      const [contentType, body] of [
+        ['application/merge-patch+json', { '@id': '#other' }],
+        ['application/ld+json', { 'rdfs:comment': 'No @id' }],
+        ['application/ld+json', { '@context': { dcterms: 'http://example.org/' }, '@id': '#x' }],
+        ['application/merge-patch+json', {}],
+      ] as const
+    ) {
+      const rejected = await patchMeta(contentType, body);
+      assertEquals(rejected.status, 400);
+      await rejected.body?.cancel();
+    }
+    const withoutBody = await meshes.request('/meshes/patch-test/nodes/~/meta', {
+      method: 'PATCH',
+    });
+    assertEquals(withoutBody.status, 400);
+    await withoutBody.body?.cancel();
+    const unchanged = await readMeta('next');
+    assertEquals(
+      unchanged['@graph'].filter((entry) => entry['@type'] === 'meta:NodeUpdate').length,
+      2,
+    );
+  } finally {
+    delete meshRegistry['patch-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('PUT /meshes/{meshName}/nodes/{apiNodePath}/data writes the _next data snapshot', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'data-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['data-test'] = parentPath;
+  const nextDataPath = join(meshPath, 'readings/_data-flow/_next/readings_data_next.jsonld');
+
+  try {
+    const meshes = createMeshesRoutes();
+    for (
+      const [apiNodePath, nodeType] of [['', 'Namespace'], ['readings', 'Dataset']] as const
+    ) {
+      const created = await meshes.request('/meshes/data-test/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiNodePath, nodeType, initialData: { title: apiNodePath || 'Data test' } }),
+      });
+      await created.body?.cancel();
+    }
+    const putData = (apiNodePath: string, contentType: string, body: string) =>
+      meshes.request(`/meshes/data-test/nodes/${apiNodePath}/data`, {
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        body,
+      });
+
+    const turtle = await putData(
+      'readings',
+      'text/turtle',
+      '@prefix ex: <http://example.org/> .\n<#r1> ex:value 1 ; ex:source [ ex:name "probe" ] .',
+    );
+    assertEquals(turtle.status, 200);
+    const turtleBody = await turtle.json();
+    assertEquals(turtleBody.quadCount, 3);
+    assertEquals(turtleBody.blankNodeWarnings.length, 2);
+    const written: JsonLdGraphDocument = JSON.parse(await Deno.readTextFile(nextDataPath));
+    assertEquals(
+      written['@graph'].some((entry) => entry['@id'] === 'readings_data_next.jsonld#r1'),
+      true,
+    );
+
+    // Uploaded data must remain weavable
+    const weave = createWeaveRoutes();
+    const currentDataPath = join(
+      meshPath,
+      'readings/_data-flow/_current/readings_data_current.jsonld',
+    );
+    const weaveReadings = async () => {
+      const woven = await weave.request('/weave/data-test~readings', { method: 'POST' });
+      assertEquals(woven.status, 200);
+      await woven.body?.cancel();
+      return JSON.parse(await Deno.readTextFile(currentDataPath));
+    };
+    assertEquals((await weaveReadings())['@graph'].length, 2);
+
+    const nQuads = await putData(
+      'readings',
+      'application/n-quads',
+      '<http://example.org/a> <http://example.org/b> "c" <http://example.org/g> .\n',
+    );
+    assertEquals((await nQuads.json()).blankNodeWarnings, []);
+
+    const jsonLd = {
+      '@context': { ex: 'http://example.org/' },
+      '@id': '#r2',
+      'ex:value': 2,
+    };
+    const jsonLdResponse = await putData(
+      'readings',
+      'application/ld+json',
+      JSON.stringify(jsonLd),
+    );
+    assertEquals((await jsonLdResponse.json()).quadCount, 1);
+    assertEquals(JSON.parse(await Deno.readTextFile(nextDataPath)), jsonLd);
+
+    const jsonLdArray = await putData(
+      'readings',
+      'application/ld+json',
+      JSON.stringify([jsonLd, { ...jsonLd, '@id': '#r3' }]),
+    );
+    assertEquals((await jsonLdArray.json()).quadCount, 2);
+    assertEquals((await weaveReadings())['@graph'].length, 2);
+
+    for (
+      const [apiNodePath, contentType, body, status] of [
+        ['readings', 'text/turtle', '<#r1> ex:undeclared 1 .', 400],
+        ['~', 'text/turtle', '', 400],
+        ['readings', 'text/plain', 'hello', 415],
+        ['missing', 'text/turtle', '', 404],
+      ] as const
+    ) {
+      const rejected = await putData(apiNodePath, contentType, body);
+      assertEquals(rejected.status, status);
+      await rejected.body?.cancel();
+    }
+  } finally {
+    delete meshRegistry['data-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('GET /meshes/{meshName}/nodes/{apiNodePath}/config/effective merges inherited config', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'config-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['config-test'] = parentPath;
+  const writeConfig = async (relativeNodePath: string, config: Record<string, unknown>) => {
+    const slug = relativeNodePath.split('/').at(-1) || 'config-test';
+    const configPath = join(
+      meshPath,
+      relativeNodePath,
+      `_config-flow/_current/${slug}_config_current.jsonld`,
+    );
+    await Deno.mkdir(join(configPath, '..'), { recursive: true });
+    await Deno.writeTextFile(
+      configPath,
+      JSON.stringify({ '@type': 'flow:ConfigDistribution', ...config }),
+    );
+  };
+
+  try {
+    const meshes = createMeshesRoutes();
+    for (const apiNodePath of ['', 'a', 'a~b', 'a~b~c']) {
+      const created = await meshes.request('/meshes/config-test/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiNodePath,
+          nodeType: 'Namespace',
+          initialData: { title: apiNodePath || 'Config test' },
+        }),
+      });
+      await created.body?.cancel();
+    }
+    await writeConfig('', { 'conf:generateUnifiedDataset': true, 'conf:stylesheetPath': '/root.css' });
+    await writeConfig('a', { 'conf:versioningEnabled': false });
+    await writeConfig('a/b', {
+      'conf:configInheritanceEnabled': false,
+      'conf:distributionFormats': ['text/turtle'],
+    });
+
+    const getEffective = async (apiNodePath: string) => {
+      const response = await meshes.request(
+        `/meshes/config-test/nodes/${apiNodePath}/config/effective`,
+      );
+      assertEquals(response.status, 200);
+      return await response.json();
+    };
+
+    const inherited = await getEffective('a');
+    assertEquals(inherited.config['conf:versioningEnabled'], false);
+    assertEquals(inherited.config['conf:generateUnifiedDataset'], true);
+    assertEquals(inherited.values['conf:versioningEnabled'].source, { kind: 'node', apiNodePath: 'a' });
+    assertEquals(inherited.values['conf:stylesheetPath'].source, { kind: 'node', apiNodePath: '~' });
+    assertEquals(inherited.values['conf:generateAggregatedDataset'].source, {
+      kind: 'platform-defaults',
+    });
+
+    const isolated = await getEffective('a~b~c');
+    assertEquals(isolated.config['conf:distributionFormats'], ['text/turtle']);
+    assertEquals(isolated.config['conf:versioningEnabled'], true);
+    assertEquals(isolated.config['conf:generateUnifiedDataset'], false);
+    assertEquals(isolated.values['conf:distributionFormats'].source, {
+      kind: 'node',
+      apiNodePath: 'a~b',
+    });
+
+    const missing = await meshes.request('/meshes/config-test/nodes/nope/config/effective');
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  } finally {
+    delete meshRegistry['config-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('PUT /meshes/{meshName}/nodes/{apiNodePath}/config validates and writes the _next config snapshot', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'config-put-test');
+  await Deno.mkdir(join(meshPath, '_assets/_templates'), { recursive: true });
+  await Deno.writeTextFile(join(meshPath, '_assets/_templates/page.html'), '<html></html>');
+  meshRegistry['config-put-test'] = parentPath;
+
+  try {
+    const meshes = createMeshesRoutes();
+    const created = await meshes.request('/meshes/config-put-test/nodes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        apiNodePath: '',
+        nodeType: 'Namespace',
+        initialData: { title: 'Config put test' },
+      }),
+    });
+    await created.body?.cancel();
+    const putConfig = (config: Record<string, unknown>) =>
+      meshes.request('/meshes/config-put-test/nodes/~/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      });
+
+    const updated = await putConfig({
+      'conf:versioningEnabled': false,
+      'conf:distributionFormats': ['application/ld+json', 'text/turtle'],
+      'conf:templateMappings': {
+        '@type': 'conf:TemplateMapping',
+        'conf:hasResourcePageTemplate': '/_assets/_templates/page.html',
+      },
+    });
+    assertEquals(updated.status, 200);
+    await updated.body?.cancel();
+
+    const fetched = await meshes.request('/meshes/config-put-test/nodes/~/config');
+    const { current, next } = await fetched.json();
+    assertEquals(current, null);
+    assertEquals(next['@type'], 'flow:ConfigDistribution');
+    assertEquals(next['conf:versioningEnabled'], false);
+    assertEquals(
+      existsSync(join(meshPath, '_config-flow/_current/config-put-test_config_current.jsonld')),
+      false,
+    );
+
+    const rejected = await putConfig({
+      'conf:versioningEnabled': 'no',
+      'conf:distributionFormats': ['text/html'],
+      'conf:templateMappings': { 'conf:hasResourcePageTemplate': '/_assets/missing.html' },
+      'conf:unknownSetting': true,
+    });
+    assertEquals(rejected.status, 400);
+    assertEquals((await rejected.json()).errors.length, 4);
+
+    for (const init of [{}, { headers: { 'Content-Type': 'text/plain' }, body: 'conf' }]) {
+      const invalid = await meshes.request('/meshes/config-put-test/nodes/~/config', {
+        method: 'PUT',
+        ...init,
+      });
+      assertEquals(invalid.status, 400);
+      await invalid.body?.cancel();
+    }
+    const unchanged = await meshes.request('/meshes/config-put-test/nodes/~/config');
+    assertEquals((await unchanged.json()).next['conf:versioningEnabled'], false);
+  } finally {
+    delete meshRegistry['config-put-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('Meshes registered through the API survive a registry reload until unregistered', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  await Deno.mkdir(join(parentPath, 'registry-test'));
+  const registryFilePath = join(parentPath, 'mesh-registry.json');
+
+  try {
+    await initializeMeshRegistry(registryFilePath);
+    const meshes = createMeshesRoutes();
+    const registered = await meshes.request('/meshes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'registry-test', parentPath }),
+    });
+    assertEquals(registered.status, 201);
+    await registered.body?.cancel();
+    assertEquals(
+      JSON.parse(await Deno.readTextFile(registryFilePath)).meshes['registry-test'],
+      meshRegistry['registry-test'],
+    );
+
+    // Simulate a restart
+    delete meshRegistry['registry-test'];
+    await initializeMeshRegistry(registryFilePath);
+    assertEquals(meshRegistry['registry-test'] !== undefined, true);
+
+    const unregistered = await meshes.request('/meshes/registry-test', { method: 'DELETE' });
+    assertEquals(unregistered.status, 200);
+    await unregistered.body?.cancel();
+    assertEquals(existsSync(join(parentPath, 'registry-test')), true);
+
+    await initializeMeshRegistry(registryFilePath);
+    assertEquals(meshRegistry['registry-test'], undefined);
+
+    const missing = await meshes.request('/meshes/registry-test', { method: 'DELETE' });
+    assertEquals(missing.status, 404);
+    await missing.body?.cancel();
+  } finally {
+    delete meshRegistry['registry-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('A corrupt mesh registry file is skipped at startup', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const registryFilePath = join(parentPath, 'mesh-registry.json');
+  await Deno.writeTextFile(registryFilePath, '{ "meshes": ');
+  const registeredMeshes = Object.keys(meshRegistry);
+
+  try {
+    await initializeMeshRegistry(registryFilePath);
+    assertEquals(Object.keys(meshRegistry), registeredMeshes);
+  } finally {
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('Remove the test mesh registry', async () => {
+  if (registryDir) await Deno.remove(registryDir, { recursive: true });
+});
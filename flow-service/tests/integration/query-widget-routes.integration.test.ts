@@ -0,0 +1,23 @@
+import { assertEquals } from '../../../flow-core/src/deps.ts';
+import { createQueryWidgetRoutes } from '../../src/routes/query-widget.ts';
+import { meshRegistry } from '../../src/utils/mesh-utils.ts';
+
+Deno.test('GET /query serves the query widget with the registered meshes', async () => {
+  meshRegistry['widget-</script>-test'] = '/tmp';
+  try {
+    const response = await createQueryWidgetRoutes().request('/query');
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get('Content-Type')?.startsWith('text/html'), true);
+
+    const page = await response.text();
+    const settingsJson = page.match(
+      /<script type="application\/json" id="query-widget-settings">(.*?)<\/script>/s,
+    )?.[1];
+    const settings = JSON.parse(settingsJson ?? '{}');
+    assertEquals(settings.endpoint, '/sparql');
+    assertEquals(settings.meshes.includes('widget-</script>-test'), true);
+    assertEquals(settings.examples.length > 0, true);
+  } finally {
+    delete meshRegistry['widget-</script>-test'];
+  }
+});
@@ -0,0 +1,418 @@
+import { assertEquals, join } from '../../../flow-core/src/deps.ts';
+import { createMeshesRoutes } from '../../src/routes/meshes.ts';
+import { createSparqlRoutes, createSparqlUpdateRoutes } from '../../src/routes/sparql.ts';
+import { createWeaveRoutes } from '../../src/routes/weave.ts';
+import {
+  closeMeshQuadstoreBundle,
+  getMeshQuadstoreBundle,
+  initializeMeshQuadstoreBundle,
+} from '../../src/quadstore-mesh-bundle.ts';
+import {
+  getFlowGraphUri,
+  getNextSnapshotGraphUri,
+  indexMesh,
+} from '../../src/services/mesh-indexer.ts';
+import { withMeshWeaveLock } from '../../src/services/weave-processor.ts';
+import { meshRegistry } from '../../src/utils/mesh-utils.ts';
+import { serviceUriConfigManager } from '../../src/utils/service-uri-builder.ts';
+
+const TITLE = 'http://purl.org/dc/terms/title';
+
+// The parts of SPARQL JSON results that the tests look at
+interface SelectResultsBody {
+  readonly head: { readonly vars: string[] };
+  readonly results: { readonly bindings: Record<string, { readonly value: string }>[] };
+}
+
+// Test meshes are created under the repository's meshes folder, which tests may write to
+const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+
+Deno.test('/sparql runs queries over the mesh quadstore with content negotiation', async () => {
+  const bundle = await initializeMeshQuadstoreBundle({ backend: 'memory' });
+  const { df, store } = bundle;
+  await store.multiPut([
+    df.quad(
+      df.namedNode('http://example.org/a'),
+      df.namedNode(TITLE),
+      df.literal('Alpha'),
+      df.namedNode('http://localhost:31415/meshes/ns/a/_meta-flow/'),
+    ),
+    df.quad(
+      df.namedNode('http://example.org/b'),
+      df.namedNode(TITLE),
+      df.literal('Beta'),
+      df.namedNode('http://localhost:31415/meshes/ns/b/_meta-flow/'),
+    ),
+  ]);
+
+  try {
+    const sparql = createSparqlRoutes();
+    const select = `SELECT ?title WHERE { ?s <${TITLE}> ?title } ORDER BY ?title`;
+
+    const jsonResponse = await sparql.request(
+      `/sparql?query=${encodeURIComponent(select)}`,
+      { headers: { Accept: 'application/sparql-results+json' } },
+    );
+    assertEquals(jsonResponse.status, 200);
+    assertEquals(
+      jsonResponse.headers.get('Content-Type'),
+      'application/sparql-results+json',
+    );
+    const json: SelectResultsBody = await jsonResponse.json();
+    assertEquals(json.head.vars, ['title']);
+    assertEquals(json.results.bindings.map((row) => row.title.value), ['Alpha', 'Beta']);
+
+    const csvResponse = await sparql.request('/sparql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/sparql-query',
+        Accept: 'text/csv;q=0.9, application/sparql-results+xml;q=0.5',
+      },
+      body: select,
+    });
+    assertEquals(csvResponse.headers.get('Content-Type'), 'text/csv');
+    assertEquals(await csvResponse.text(), 'title\r\nAlpha\r\nBeta\r\n');
+
+    const askResponse = await sparql.request('/sparql', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/sparql-results+xml',
+      },
+      body: new URLSearchParams({ query: `ASK { ?s <${TITLE}> "Beta" }` }).toString(),
+    });
+    assertEquals(askResponse.status, 200);
+    assertEquals((await askResponse.text()).includes('<boolean>true</boolean>'), true);
+
+    const constructResponse = await sparql.request(
+      `/sparql?query=${
+        encodeURIComponent(`CONSTRUCT { ?s <${TITLE}> ?title } WHERE { ?s <${TITLE}> ?title }`)
+      }`,
+      { headers: { Accept: 'application/n-quads' } },
+    );
+    assertEquals(constructResponse.headers.get('Content-Type'), 'application/n-quads');
+    assertEquals(
+      (await constructResponse.text()).includes(`<http://example.org/a> <${TITLE}> "Alpha" .`),
+      true,
+    );
+
+    const scoped = await sparql.request('/sparql', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams([
+        ['query', select],
+        ['default-graph-uri', 'http://localhost:31415/meshes/ns/b/_meta-flow/'],
+      ]).toString(),
+    });
+    const scopedJson: SelectResultsBody = await scoped.json();
+    assertEquals(scopedJson.results.bindings.map((row) => row.title.value), ['Beta']);
+
+    const notAcceptable = await sparql.request(
+      `/sparql?query=${encodeURIComponent('ASK { ?s ?p ?o }')}`,
+      { headers: { Accept: 'text/csv' } },
+    );
+    assertEquals(notAcceptable.status, 406);
+    await notAcceptable.body?.cancel();
+
+    const invalid = await sparql.request(`/sparql?query=${encodeURIComponent('SELEC ?s')}`);
+    assertEquals(invalid.status, 400);
+    await invalid.body?.cancel();
+
+    const update = await sparql.request('/sparql', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sparql-query' },
+      body: 'INSERT DATA { <http://example.org/c> <http://example.org/p> "c" }',
+    });
+    assertEquals(update.status, 400);
+    await update.body?.cancel();
+  } finally {
+    await closeMeshQuadstoreBundle();
+  }
+});
+
+Deno.test('/sparql returns 503 while the mesh quadstore is not open', async () => {
+  const response = await createSparqlRoutes().request(
+    `/sparql?query=${encodeURIComponent('ASK { ?s ?p ?o }')}`,
+  );
+  assertEquals(response.status, 503);
+  await response.body?.cancel();
+});
+
+Deno.test('/sparql/update applies updates to _next snapshots and refuses other graphs', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const nodePath = join(parentPath, 'update-test', 'set');
+  await Deno.mkdir(join(nodePath, '_meta-flow'), { recursive: true });
+  await Deno.mkdir(join(nodePath, '_data-flow', '_current'), { recursive: true });
+  await Deno.writeTextFile(
+    join(nodePath, '_data-flow', '_current', 'set_data_current.jsonld'),
+    JSON.stringify({ '@id': 'http://example.org/a', [TITLE]: 'Alpha' }),
+  );
+  meshRegistry['update-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+  await initializeMeshQuadstoreBundle({ backend: 'memory' });
+
+  const nextGraph = getNextSnapshotGraphUri('update-test', 'set', 'data');
+  const sparqlUpdate = createSparqlUpdateRoutes();
+  const postUpdate = (update: string) =>
+    sparqlUpdate.request('/sparql/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sparql-update' },
+      body: update,
+    });
+
+  try {
+    const response = await postUpdate(`
+      DELETE { GRAPH <${nextGraph}> { ?s <${TITLE}> "Alpha" } }
+      INSERT { GRAPH <${nextGraph}> { ?s <${TITLE}> "Beta" } }
+      WHERE { GRAPH <${nextGraph}> { ?s <${TITLE}> "Alpha" } }
+    `);
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    assertEquals(body.graphs.length, 1);
+    assertEquals(body.graphs[0].quadCount, 1);
+
+    const nextSnapshot = JSON.parse(
+      await Deno.readTextFile(join(nodePath, '_data-flow', '_next', 'set_data_next.jsonld')),
+    );
+    assertEquals(nextSnapshot, {
+      '@graph': [{ '@id': 'http://example.org/a', [TITLE]: [{ '@value': 'Beta' }] }],
+    });
+    // The snapshot graph is never loaded into the mesh quadstore
+    const { items } = await getMeshQuadstoreBundle().store.get({});
+    assertEquals(items.length, 0);
+
+    const currentGraph = getFlowGraphUri('update-test', 'set', 'data') + '_current/';
+    const refused = await postUpdate(
+      `INSERT DATA { GRAPH <${currentGraph}> { <http://example.org/a> <${TITLE}> "Gamma" } }`,
+    );
+    assertEquals(refused.status, 403);
+    await refused.body?.cancel();
+
+    const defaultGraph = await postUpdate(
+      `INSERT DATA { <http://example.org/a> <${TITLE}> "Gamma" }`,
+    );
+    assertEquals(defaultGraph.status, 403);
+    await defaultGraph.body?.cancel();
+
+    const missingNode = await postUpdate(
+      `INSERT DATA { GRAPH <${
+        getNextSnapshotGraphUri('update-test', 'other', 'meta')
+      }> { <http://example.org/a> <${TITLE}> "Gamma" } }`,
+    );
+    assertEquals(missingNode.status, 404);
+    await missingNode.body?.cancel();
+
+    const clear = await postUpdate(`CLEAR GRAPH <${nextGraph}>`);
+    assertEquals(clear.status, 400);
+    await clear.body?.cancel();
+
+    const escaping = await postUpdate(
+      `INSERT DATA { GRAPH <${
+        getNextSnapshotGraphUri('update-test', 'set/../../outside', 'meta')
+      }> { <http://example.org/a> <${TITLE}> "Gamma" } }`,
+    );
+    assertEquals(escaping.status, 400);
+    await escaping.body?.cancel();
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['update-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('/sparql/update results can be woven and patched', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'update-weave-test');
+  await Deno.mkdir(meshPath);
+  meshRegistry['update-weave-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+  await initializeMeshQuadstoreBundle({ backend: 'memory' });
+
+  try {
+    const meshes = createMeshesRoutes();
+    for (
+      const [apiNodePath, nodeType] of [['', 'Namespace'], ['set', 'Dataset']] as const
+    ) {
+      const created = await meshes.request('/meshes/update-weave-test/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiNodePath,
+          nodeType,
+          initialData: { title: apiNodePath || 'Update weave test' },
+          ...(nodeType === 'Dataset'
+            ? { initialPayload: { '@id': 'http://example.org/a', [TITLE]: 'Alpha' } }
+            : {}),
+        }),
+      });
+      assertEquals(created.status, 201);
+      await created.body?.cancel();
+    }
+
+    const dataGraph = getNextSnapshotGraphUri('update-weave-test', 'set', 'data');
+    const metaGraph = getNextSnapshotGraphUri('update-weave-test', 'set', 'meta');
+    const updated = await createSparqlUpdateRoutes().request('/sparql/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sparql-update' },
+      body: `
+        INSERT DATA {
+          GRAPH <${dataGraph}> { <http://example.org/b> <${TITLE}> "Beta" }
+          GRAPH <${metaGraph}> { <http://example.org/a> <${TITLE}> "Described" }
+        }
+      `,
+    });
+    assertEquals(updated.status, 200);
+    await updated.body?.cancel();
+
+    // Meta keeps its context, so the node entry can still be patched
+    const patched = await meshes.request('/meshes/update-weave-test/nodes/set/meta', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+      body: JSON.stringify({ 'dcterms:title': 'Patched set' }),
+    });
+    assertEquals(patched.status, 200);
+    await patched.body?.cancel();
+
+    const woven = await createWeaveRoutes().request('/weave/update-weave-test~set', {
+      method: 'POST',
+    });
+    assertEquals(woven.status, 200);
+    await woven.body?.cancel();
+
+    const currentData: { '@graph': { '@id': string }[] } = JSON.parse(
+      await Deno.readTextFile(join(meshPath, 'set/_data-flow/_current/set_data_current.jsonld')),
+    );
+    assertEquals(
+      currentData['@graph'].map((entry) => entry['@id']).sort(),
+      ['http://example.org/a', 'http://example.org/b'],
+    );
+    const currentMeta = await Deno.readTextFile(
+      join(meshPath, 'set/_meta-flow/_current/set_meta_current.jsonld'),
+    );
+    assertEquals(currentMeta.includes('Patched set'), true);
+    assertEquals(currentMeta.includes('Described'), true);
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['update-weave-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('/sparql no longer finds the graphs of deleted nodes', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  await Deno.mkdir(join(parentPath, 'delete-index-test'));
+  meshRegistry['delete-index-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+  await initializeMeshQuadstoreBundle({ backend: 'memory' });
+
+  const childGraph = getFlowGraphUri('delete-index-test', 'child', 'meta');
+  const sparql = createSparqlRoutes();
+  const askChildGraph = async () => {
+    const response = await sparql.request(
+      `/sparql?query=${encodeURIComponent(`ASK { GRAPH <${childGraph}> { ?s ?p ?o } }`)}`,
+      { headers: { Accept: 'application/sparql-results+json' } },
+    );
+    return ((await response.json()) as { boolean: boolean }).boolean;
+  };
+
+  try {
+    const meshes = createMeshesRoutes();
+    for (const [apiNodePath, nodeType] of [['', 'Namespace'], ['child', 'Namespace']]) {
+      const created = await meshes.request('/meshes/delete-index-test/nodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiNodePath, nodeType, initialData: { title: 'Indexed' } }),
+      });
+      assertEquals(created.status, 201);
+      await created.body?.cancel();
+    }
+    await indexMesh('delete-index-test');
+    assertEquals(await askChildGraph(), true);
+
+    const deleted = await meshes.request('/meshes/delete-index-test/nodes/child', {
+      method: 'DELETE',
+    });
+    assertEquals(deleted.status, 200);
+    await deleted.body?.cancel();
+    assertEquals(await askChildGraph(), false);
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['delete-index-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('/sparql/update reads the mesh graphs in a separate store, under the mesh weave lock', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const nodePath = join(parentPath, 'isolation-test', 'set');
+  await Deno.mkdir(join(nodePath, '_meta-flow'), { recursive: true });
+  await Deno.mkdir(join(nodePath, '_data-flow', '_current'), { recursive: true });
+  await Deno.writeTextFile(
+    join(nodePath, '_data-flow', '_current', 'set_data_current.jsonld'),
+    JSON.stringify({ '@id': 'http://example.org/a', [TITLE]: 'Alpha' }),
+  );
+  meshRegistry['isolation-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+  await initializeMeshQuadstoreBundle({ backend: 'memory' });
+
+  const flowGraph = getFlowGraphUri('isolation-test', 'set', 'data');
+  const nextGraph = getNextSnapshotGraphUri('isolation-test', 'set', 'data');
+
+  try {
+    await indexMesh('isolation-test');
+    const indexed = (await getMeshQuadstoreBundle().store.get({})).items.length;
+
+    let releaseLock = () => {};
+    const weave = withMeshWeaveLock(
+      'isolation-test',
+      () => new Promise<void>((resolve) => releaseLock = resolve),
+    );
+    let answered = false;
+    const response = Promise.resolve(createSparqlUpdateRoutes().request('/sparql/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/sparql-update' },
+      body: `INSERT { GRAPH <${nextGraph}> { ?s <http://example.org/copy> ?title } }
+        WHERE { GRAPH <${flowGraph}> { ?s <${TITLE}> ?title } }`,
+    })).then((response) => {
+      answered = true;
+      return response;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assertEquals(answered, false);
+    releaseLock();
+    await weave;
+
+    const answer = await response;
+    assertEquals(answer.status, 200);
+    await answer.body?.cancel();
+    const nextSnapshot = JSON.parse(
+      await Deno.readTextFile(join(nodePath, '_data-flow', '_next', 'set_data_next.jsonld')),
+    );
+    assertEquals(nextSnapshot['@graph'][0]['http://example.org/copy'], [{ '@value': 'Alpha' }]);
+    assertEquals((await getMeshQuadstoreBundle().store.get({})).items.length, indexed);
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['isolation-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
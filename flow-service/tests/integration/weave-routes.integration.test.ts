@@ -1 +1,515 @@
-// TODO
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+  existsSync,
+  join,
+} from '../../../flow-core/src/deps.ts';
+import { createWeaveRoutes } from '../../src/routes/weave.ts';
+import { createWeaveJobRoutes } from '../../src/routes/weave-jobs.ts';
+import { meshRegistry, resolveMeshNodePath } from '../../src/utils/mesh-utils.ts';
+import {
+  closeMeshQuadstoreBundle,
+  getMeshQuadstoreBundle,
+  initializeMeshQuadstoreBundle,
+} from '../../src/quadstore-mesh-bundle.ts';
+import { indexMesh } from '../../src/services/mesh-indexer.ts';
+import { withMeshWeaveLock } from '../../src/services/weave-processor.ts';
+import { ValidationError } from '../../src/utils/errors.ts';
+import { serviceUriConfigManager } from '../../src/utils/service-uri-builder.ts';
+import { queryMultipleValues } from '../../../flow-core/src/utils/sparql-utils.ts';
+
+// Test meshes are created under the repository's meshes folder, which tests may write to
+const meshesRoot = new URL('../../../meshes/', import.meta.url).pathname;
+
+// The parts of the weave and job response bodies that the tests look at
+interface WeaveBody {
+  readonly flows: { readonly status: string; readonly version?: number }[];
+  readonly nodes: { readonly nodePath: string }[];
+}
+
+interface WeaveJobBody {
+  readonly state: string;
+  readonly endedAt?: string;
+  readonly nodes: { readonly state: string }[];
+}
+
+async function createTestNode(nodePath: string, title: string): Promise<void> {
+  const slug = nodePath.split('/').pop();
+  await Deno.mkdir(join(nodePath, '_handle'), { recursive: true });
+  await Deno.mkdir(join(nodePath, '_meta-flow', '_next'), { recursive: true });
+  await Deno.writeTextFile(
+    join(nodePath, '_meta-flow', '_next', `${slug}_meta_next.jsonld`),
+    JSON.stringify({
+      '@context': { 'dcterms': 'http://purl.org/dc/terms/' },
+      '@id': `../../${slug}/_handle/`,
+      'dcterms:title': title,
+    }),
+  );
+}
+
+Deno.test('POST /weave/{meshName}?recursive=true weaves children before parents', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'weave-test');
+  const childPath = join(meshPath, 'child');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(childPath, 'Child');
+  meshRegistry['weave-test'] = parentPath;
+
+  try {
+    const weave = createWeaveRoutes();
+
+    const response = await weave.request('/weave/weave-test?recursive=true', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 200);
+    const body: WeaveBody = await response.json();
+    assertEquals(
+      body.nodes.map((node) => node.nodePath),
+      [childPath, meshPath],
+    );
+    assertEquals(body.flows[0].status, 'updated');
+    assertEquals(body.flows[0].version, 1);
+
+    const current = await Deno.readTextFile(
+      join(childPath, '_meta-flow', '_current', 'child_meta_current.jsonld'),
+    );
+    assertEquals(JSON.parse(current)['dcterms:title'], 'Child');
+    const currentTrig = await Deno.readTextFile(
+      join(childPath, '_meta-flow', '_current', 'child_meta_current.trig'),
+    );
+    assertEquals(currentTrig.includes('<../../child/_handle/> dcterms:title "Child"'), true);
+
+    const rootPage = await Deno.readTextFile(join(meshPath, 'index.html'));
+    assertEquals(rootPage.includes('<title>Root</title>'), true);
+    assertEquals(rootPage.includes('<a href="child/index.html">child</a>'), true);
+    const childPage = await Deno.readTextFile(join(childPath, 'index.html'));
+    assertEquals(childPage.includes('<a href="../index.html">weave-test</a>'), true);
+    assertEquals(
+      childPage.includes('<a href="_meta-flow/_v1/child_meta__v1.trig">'),
+      true,
+    );
+    assertEquals(
+      childPage.includes('href="../_assets/css/default-resource-page.css"'),
+      true,
+    );
+
+    const secondResponse = await weave.request(
+      '/weave/weave-test?recursive=true',
+      { method: 'POST' },
+    );
+    const secondBody = await secondResponse.json();
+    assertEquals(secondBody.filesChanged, []);
+  } finally {
+    delete meshRegistry['weave-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{nodeSpecifier} only mints a version when the node changed', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'version-test');
+  await createTestNode(meshPath, 'Root');
+  meshRegistry['version-test'] = parentPath;
+  const versionPath = (version: number) =>
+    join(meshPath, '_meta-flow', `_v${version}`, `version-test_meta__v${version}.jsonld`);
+
+  try {
+    const weave = createWeaveRoutes();
+    const weaveRoot = async () => {
+      const response = await weave.request('/weave/version-test', { method: 'POST' });
+      assertEquals(response.status, 200);
+      return await response.json();
+    };
+
+    assertEquals((await weaveRoot()).flows[0].version, 1);
+    const firstVersion = await Deno.readTextFile(versionPath(1));
+
+    const unchanged = await weaveRoot();
+    assertEquals(unchanged.filesChanged, []);
+    assertEquals(unchanged.flows[0].version, undefined);
+    assertEquals(existsSync(versionPath(2)), false);
+
+    await createTestNode(meshPath, 'Renamed Root');
+    const changed = await weaveRoot();
+    assertEquals(changed.flows[0].version, 2);
+    assertEquals(
+      JSON.parse(await Deno.readTextFile(versionPath(2)))['dcterms:title'],
+      'Renamed Root',
+    );
+    assertEquals(await Deno.readTextFile(versionPath(1)), firstVersion);
+    assertEquals(existsSync(versionPath(3)), false);
+  } finally {
+    delete meshRegistry['version-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{nodeSpecifier}?dryRun=true plans without writing', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'dry-run-test');
+  await createTestNode(meshPath, 'Root');
+  meshRegistry['dry-run-test'] = parentPath;
+
+  try {
+    const weave = createWeaveRoutes();
+    const response = await weave.request('/weave/dry-run-test?dryRun=true', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    assertEquals(body.dryRun, true);
+    assertEquals(body.summary, {
+      filesToCreate: 5,
+      filesToOverwrite: 0,
+      versionsToMint: 1,
+      distributionsToRegenerate: 2,
+      datasetsToGenerate: 0,
+      resourcePagesToGenerate: 1,
+    });
+    const metaPlan = body.nodes[0].flows[0];
+    assertEquals(metaPlan.quadCounts, { current: 0, next: 1, added: 1, removed: 0 });
+    assertEquals(
+      existsSync(join(meshPath, '_meta-flow', '_current')),
+      false,
+    );
+  } finally {
+    delete meshRegistry['dry-run-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{nodeSpecifier}?dryRun=true&recursive=true notes that parents are planned against the children on disk', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'dry-run-tree-test');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(join(meshPath, 'child'), 'Child');
+  meshRegistry['dry-run-tree-test'] = parentPath;
+
+  try {
+    const response = await createWeaveRoutes().request(
+      '/weave/dry-run-tree-test?dryRun=true&recursive=true',
+      { method: 'POST' },
+    );
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    assertEquals(body.nodes.length, 2);
+    assertEquals(body.message.includes('current distributions of their children'), true);
+  } finally {
+    delete meshRegistry['dry-run-tree-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{nodeSpecifier}?async=true runs a pollable weave job', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'job-test');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(join(meshPath, 'child'), 'Child');
+  meshRegistry['job-test'] = parentPath;
+
+  try {
+    const response = await createWeaveRoutes().request(
+      '/weave/job-test?recursive=true&async=true',
+      { method: 'POST' },
+    );
+    assertEquals(response.status, 202);
+    const { jobId } = await response.json();
+    assertEquals(response.headers.get('Location'), `/api/weave/jobs/${jobId}`);
+
+    const weaveJobs = createWeaveJobRoutes();
+    let job: WeaveJobBody | undefined;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      job = await (await weaveJobs.request(`/weave/jobs/${jobId}`)).json() as WeaveJobBody;
+      if (job.endedAt) break;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assertEquals(job?.state, 'succeeded');
+    assertEquals(job?.nodes.map((node) => node.state), ['succeeded', 'succeeded']);
+
+    const cancelResponse = await weaveJobs.request(`/weave/jobs/${jobId}`, {
+      method: 'DELETE',
+    });
+    assertEquals(cancelResponse.status, 409);
+    await cancelResponse.body?.cancel();
+  } finally {
+    delete meshRegistry['job-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('weave jobs stop at the first failing node, like direct weaves', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'job-failure-test');
+  const childPath = join(meshPath, 'child');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(childPath, 'Child');
+  await Deno.writeTextFile(join(childPath, '_meta-flow', '_next', 'child_meta_next.jsonld'), '{');
+  meshRegistry['job-failure-test'] = parentPath;
+  const rootCurrentMetaPath = join(
+    meshPath,
+    '_meta-flow/_current/job-failure-test_meta_current.jsonld',
+  );
+
+  try {
+    const weave = createWeaveRoutes();
+    const direct = await weave.request('/weave/job-failure-test?recursive=true', {
+      method: 'POST',
+    });
+    assertEquals(direct.status, 500);
+    await direct.body?.cancel();
+    assertEquals(existsSync(rootCurrentMetaPath), false);
+
+    const response = await weave.request(
+      '/weave/job-failure-test?recursive=true&async=true',
+      { method: 'POST' },
+    );
+    const { jobId } = await response.json();
+    const weaveJobs = createWeaveJobRoutes();
+    let job: WeaveJobBody | undefined;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      job = await (await weaveJobs.request(`/weave/jobs/${jobId}`)).json() as WeaveJobBody;
+      if (job.endedAt) break;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    assertEquals(job?.state, 'failed');
+    assertEquals(job?.nodes.map((node) => node.state), ['failed', 'pending']);
+    assertEquals(existsSync(rootCurrentMetaPath), false);
+  } finally {
+    delete meshRegistry['job-failure-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('weaves of a mesh wait for the weaves started before them', async () => {
+  const order: string[] = [];
+  const first = withMeshWeaveLock('lock-test', async () => {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    order.push('first');
+    throw new Error('first weave failed');
+  });
+  const other = withMeshWeaveLock('other-mesh', () => Promise.resolve(order.push('other')));
+  const second = withMeshWeaveLock('lock-test', () => Promise.resolve(order.push('second')));
+
+  await assertRejects(() => first, Error, 'first weave failed');
+  await Promise.all([other, second]);
+  assertEquals(order, ['other', 'first', 'second']);
+});
+
+Deno.test('POST /weave/{meshName}?recursive=true generates unified and aggregated datasets', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'dataset-test');
+  const childPath = join(meshPath, 'child');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(childPath, 'Child');
+  for (const [nodePath, slug] of [[meshPath, 'dataset-test'], [childPath, 'child']]) {
+    await Deno.mkdir(join(nodePath, '_data-flow', '_next'), { recursive: true });
+    await Deno.writeTextFile(
+      join(nodePath, '_data-flow', '_next', `${slug}_data_next.jsonld`),
+      JSON.stringify({
+        '@context': { 'ex': 'http://example.org/' },
+        '@id': 'ex:' + slug,
+        'ex:value': slug,
+      }),
+    );
+  }
+  await Deno.mkdir(join(meshPath, '_config-flow', '_current'), { recursive: true });
+  await Deno.writeTextFile(
+    join(meshPath, '_config-flow', '_current', 'dataset-test_config_current.jsonld'),
+    JSON.stringify({
+      '@type': 'flow:ConfigDistribution',
+      'conf:generateUnifiedDataset': true,
+      'conf:generateAggregatedDataset': true,
+    }),
+  );
+  meshRegistry['dataset-test'] = parentPath;
+
+  try {
+    const weave = createWeaveRoutes();
+    const response = await weave.request('/weave/dataset-test?recursive=true', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 200);
+    const body = await response.json();
+    // unified and aggregated datasets, as TriG and JSON-LD, for the root node and, through
+    // config inheritance, for the child
+    assertEquals(body.nodes[0].datasets.length, 4);
+    assertEquals(body.nodes[1].datasets.length, 4);
+
+    const aggregated = await Deno.readTextFile(
+      join(meshPath, '_aggregated-dataset', 'dataset-test_aggregated.trig'),
+    );
+    assertEquals(aggregated.includes('<../child/_data-flow/_current/> {'), true);
+    assertEquals(aggregated.includes('<../_data-flow/_current/> {'), true);
+    assertEquals(aggregated.includes('ex:child ex:value "child"'), true);
+
+    const unified = await Deno.readTextFile(
+      join(meshPath, '_unified-dataset', 'dataset-test_unified.trig'),
+    );
+    assertEquals(unified.includes('ex:dataset-test ex:value "dataset-test"'), true);
+    assertEquals(unified.includes('dcterms:title "Root"'), true);
+
+    const rootPage = await Deno.readTextFile(join(meshPath, 'index.html'));
+    assertEquals(
+      rootPage.includes('href="_aggregated-dataset/dataset-test_aggregated.trig"'),
+      true,
+    );
+
+    const secondResponse = await weave.request(
+      '/weave/dataset-test?recursive=true',
+      { method: 'POST' },
+    );
+    assertEquals((await secondResponse.json()).filesChanged, []);
+  } finally {
+    delete meshRegistry['dataset-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{meshName}?recursive=true applies the config inherited from the mesh root', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'inherit-test');
+  const childPath = join(meshPath, 'child');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(childPath, 'Child');
+  await Deno.mkdir(join(meshPath, '_config-flow', '_current'), { recursive: true });
+  await Deno.writeTextFile(
+    join(meshPath, '_config-flow', '_current', 'inherit-test_config_current.jsonld'),
+    JSON.stringify({
+      '@type': 'flow:ConfigDistribution',
+      'conf:versioningEnabled': false,
+      'conf:distributionFormats': ['text/turtle'],
+      'conf:generateResourcePages': false,
+      'conf:generateUnifiedDataset': true,
+    }),
+  );
+  meshRegistry['inherit-test'] = parentPath;
+
+  try {
+    const response = await createWeaveRoutes().request('/weave/inherit-test?recursive=true', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+
+    const childMetaFlow = join(childPath, '_meta-flow');
+    assertEquals(existsSync(join(childMetaFlow, '_v1')), false);
+    assertEquals(existsSync(join(childMetaFlow, '_current', 'child_meta_current.ttl')), true);
+    assertEquals(existsSync(join(childMetaFlow, '_current', 'child_meta_current.trig')), false);
+    assertEquals(existsSync(join(childPath, 'index.html')), false);
+    assertEquals(existsSync(join(childPath, '_unified-dataset', 'child_unified.ttl')), true);
+  } finally {
+    delete meshRegistry['inherit-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('weaving a node refreshes its graphs in the mesh quadstore', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  const meshPath = join(parentPath, 'index-test');
+  const childPath = join(meshPath, 'child');
+  await createTestNode(meshPath, 'Root');
+  await createTestNode(childPath, 'Child');
+  meshRegistry['index-test'] = parentPath;
+  const setServiceUriConfig = !serviceUriConfigManager.isInitialized();
+  if (setServiceUriConfig) {
+    serviceUriConfigManager.setConfig({ scheme: 'http', host: 'localhost', port: 31415 });
+  }
+  await initializeMeshQuadstoreBundle({ backend: 'memory' });
+
+  const queryTitles = () =>
+    queryMultipleValues(
+      getMeshQuadstoreBundle(),
+      `SELECT ?value WHERE {
+        GRAPH ?g { ?node <http://purl.org/dc/terms/title> ?value }
+        FILTER(STRENDS(STR(?g), "/meshes/index-test/child/_meta-flow/"))
+      }`,
+    );
+
+  try {
+    assertEquals(await indexMesh('index-test'), { nodeCount: 2, quadCount: 0 });
+
+    const weave = createWeaveRoutes();
+    const response = await weave.request('/weave/index-test?recursive=true', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    assertEquals(await queryTitles(), ['Child']);
+
+    // Flows whose _current distribution did not change are not reloaded
+    assertEquals(await indexMesh('index-test'), { nodeCount: 2, quadCount: 0 });
+    assertEquals(await queryTitles(), ['Child']);
+
+    await createTestNode(childPath, 'Renamed Child');
+    const secondResponse = await weave.request('/weave/index-test~child', {
+      method: 'POST',
+    });
+    assertEquals(secondResponse.status, 200);
+    await secondResponse.body?.cancel();
+    assertEquals(await queryTitles(), ['Renamed Child']);
+
+    const currentMetaPath = join(childPath, '_meta-flow/_current/child_meta_current.jsonld');
+    await Deno.writeTextFile(
+      currentMetaPath,
+      (await Deno.readTextFile(currentMetaPath)).replace('Renamed Child', 'Edited Child'),
+    );
+    assertEquals((await indexMesh('index-test')).quadCount > 0, true);
+    assertEquals(await queryTitles(), ['Edited Child']);
+
+    await Deno.remove(childPath, { recursive: true });
+    assertEquals((await indexMesh('index-test')).nodeCount, 1);
+    assertEquals(await queryTitles(), []);
+  } finally {
+    await closeMeshQuadstoreBundle();
+    if (setServiceUriConfig) serviceUriConfigManager.reset();
+    delete meshRegistry['index-test'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});
+
+Deno.test('POST /weave/{nodeSpecifier} returns 404 for unknown meshes', async () => {
+  const weave = createWeaveRoutes();
+  const response = await weave.request('/weave/no-such-mesh~node', {
+    method: 'POST',
+  });
+  assertEquals(response.status, 404);
+  await response.body?.cancel();
+});
+
+Deno.test('POST /weave/{nodeSpecifier} refuses node paths leading out of the mesh', async () => {
+  await Deno.mkdir(meshesRoot, { recursive: true });
+  const parentPath = await Deno.makeTempDir({ dir: meshesRoot });
+  await createTestNode(join(parentPath, 'alpha'), 'Alpha');
+  await createTestNode(join(parentPath, 'beta'), 'Beta');
+  meshRegistry['alpha'] = parentPath;
+
+  try {
+    const response = await createWeaveRoutes().request('/weave/alpha~..~beta', {
+      method: 'POST',
+    });
+    assertEquals(response.status, 400);
+    await response.body?.cancel();
+    assertEquals(existsSync(join(parentPath, 'beta', '_meta-flow', '_current')), false);
+
+    const alphaPath = join(parentPath, 'alpha');
+    assertEquals(
+      resolveMeshNodePath(alphaPath, 'child/grandchild'),
+      join(alphaPath, 'child', 'grandchild'),
+    );
+    assertThrows(() => resolveMeshNodePath(alphaPath, '../beta'), ValidationError);
+    assertThrows(() => resolveMeshNodePath(alphaPath, 'child/../../beta'), ValidationError);
+  } finally {
+    delete meshRegistry['alpha'];
+    await Deno.remove(parentPath, { recursive: true });
+  }
+});